@@ -0,0 +1,121 @@
+/**
+ * Evaluation of declarative field visibility conditions
+ *
+ * @module evaluate-condition
+ */
+
+import type { FieldCondition, FieldValue, FormField } from '../types';
+
+/**
+ * Compares a numeric value against a threshold
+ *
+ * @param op - Comparison operator
+ * @param actual - Answered value (non-numbers never match)
+ * @param expected - Threshold from the condition
+ * @returns True if the comparison holds
+ */
+function compareNumber(
+  op: 'gt' | 'gte' | 'lt' | 'lte',
+  actual: FieldValue | undefined,
+  expected: number
+): boolean {
+  if (typeof actual !== 'number') {
+    return false;
+  }
+
+  switch (op) {
+    case 'gt':
+      return actual > expected;
+    case 'gte':
+      return actual >= expected;
+    case 'lt':
+      return actual < expected;
+    case 'lte':
+      return actual <= expected;
+  }
+}
+
+/**
+ * Checks an answer against the values a leaf condition accepts
+ * A selection (MULTI_SELECT) matches when any selected option does.
+ *
+ * @param actual - Answered value
+ * @param expected - Accepted values
+ * @returns True if the answer matches one of them
+ */
+function matchesAny(
+  actual: FieldValue | undefined,
+  expected: readonly (string | number | boolean)[]
+): boolean {
+  if (Array.isArray(actual)) {
+    return actual.some((item) => expected.includes(item));
+  }
+  return (
+    (typeof actual === 'string' ||
+      typeof actual === 'number' ||
+      typeof actual === 'boolean') &&
+    expected.includes(actual)
+  );
+}
+
+/**
+ * Evaluates a visibility condition against answered field values
+ *
+ * @param condition - Condition to evaluate
+ * @param values - Answered values keyed by FormField.name
+ * @returns True if the condition holds
+ */
+export function evaluateCondition(
+  condition: FieldCondition,
+  values: Record<string, FieldValue>
+): boolean {
+  switch (condition.op) {
+    case 'equals':
+      return matchesAny(values[condition.field], [condition.value]);
+
+    case 'in':
+      return matchesAny(values[condition.field], condition.values);
+
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      return compareNumber(
+        condition.op,
+        values[condition.field],
+        condition.value
+      );
+
+    case 'and':
+      return condition.conditions.every((c) => evaluateCondition(c, values));
+
+    case 'or':
+      return condition.conditions.some((c) => evaluateCondition(c, values));
+
+    case 'not':
+      return !evaluateCondition(condition.condition, values);
+
+    default: {
+      const exhaustiveCheck: never = condition;
+      return exhaustiveCheck;
+    }
+  }
+}
+
+/**
+ * Checks whether a field should be shown given the answers so far
+ * Fields without a `visibleWhen` condition are always visible.
+ *
+ * @param field - Field definition
+ * @param values - Answered values keyed by FormField.name
+ * @returns True if the field is visible
+ */
+export function isFieldVisible(
+  field: FormField,
+  values: Record<string, FieldValue>
+): boolean {
+  return (
+    field.visibleWhen === undefined ||
+    evaluateCondition(field.visibleWhen, values)
+  );
+}
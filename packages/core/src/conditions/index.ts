@@ -0,0 +1,5 @@
+/**
+ * Conditions module barrel export
+ */
+
+export { evaluateCondition, isFieldVisible } from './evaluate-condition';
@@ -0,0 +1,347 @@
+/**
+ * Built-in field type plugins
+ *
+ * @module built-in
+ */
+
+import type {
+  CalendarDate,
+  FieldTypeContext,
+  FieldTypePlugin,
+  JsonSchema,
+  SimpleFieldValue,
+  ValidationResult,
+} from '../types';
+import { FieldType } from '../types';
+import {
+  validateEmail,
+  validatePhone,
+  validateNumber,
+  validateDate,
+  validateDateTime,
+  validateTime,
+  validateEnum,
+  validateMultiSelect,
+  validateConsent,
+  validateText,
+} from '../validation/validators';
+import {
+  normalizeBoolean,
+  normalizeConsent,
+  normalizeDate,
+  normalizeDateTime,
+  normalizeEnum,
+  normalizeMultiSelect,
+  normalizeNumber,
+  normalizePhone,
+  normalizeTime,
+  parseLocalDateTime,
+} from './normalizers';
+import { fromWallClock } from './zoned-time';
+import { getCalendarDate } from './relative-dates';
+import {
+  isBooleanGrounded,
+  isConsentGrounded,
+  isDateGrounded,
+  isDateTimeGrounded,
+  isNumberGrounded,
+  isPhoneGrounded,
+  isSelectionGrounded,
+  isTimeGrounded,
+} from './grounding';
+
+/**
+ * The user's date today, when the context carries a reference time
+ */
+function getToday(context: FieldTypeContext): CalendarDate | undefined {
+  return context.now && getCalendarDate(context.now, context.timeZone);
+}
+
+/**
+ * Validates a TEXT or LONG_TEXT value (length limits)
+ */
+const validateTextValue: FieldTypePlugin['validate'] = (value, field) =>
+  validateText(String(value), {
+    min: field.validation?.min,
+    max: field.validation?.max,
+  });
+
+/**
+ * Validates a DATE value
+ * Only Date objects pass: a string still present after normalization
+ * is a date the normalizer could not read ("March 3", "3/4/2024").
+ */
+function validateDateValue(value: SimpleFieldValue): ValidationResult {
+  if (value instanceof Date) {
+    return validateDate(value);
+  }
+  return { valid: false, error: 'Invalid date format' };
+}
+
+/**
+ * Validates a NUMBER value (must be numeric, then min/max)
+ */
+const validateNumberValue: FieldTypePlugin['validate'] = (value, field) => {
+  const num = typeof value === 'number' ? value : Number(value);
+  const blank = typeof value === 'string' && value.trim() === '';
+  if (value instanceof Date || blank || !Number.isFinite(num)) {
+    return { valid: false, error: 'Invalid number' };
+  }
+  return validateNumber(num, {
+    min: field.validation?.min,
+    max: field.validation?.max,
+  });
+};
+
+/**
+ * JSON Schema for a string field, carrying its length limits and pattern
+ */
+const textSchema: NonNullable<FieldTypePlugin['jsonSchema']> = (field) => {
+  const schema: JsonSchema = { type: 'string' };
+  if (field.validation?.min !== undefined) {
+    schema.minLength = field.validation.min;
+  }
+  if (field.validation?.max !== undefined) {
+    schema.maxLength = field.validation.max;
+  }
+  if (field.validation?.pattern !== undefined) {
+    schema.pattern = field.validation.pattern;
+  }
+  return schema;
+};
+
+/**
+ * Validates a MULTI_SELECT value (options, then selection counts)
+ */
+const validateMultiSelectValue: FieldTypePlugin['validate'] = (
+  value,
+  field
+) =>
+  validateMultiSelect(
+    Array.isArray(value) ? value : [],
+    field.validation?.options || [],
+    { min: field.validation?.min, max: field.validation?.max }
+  );
+
+/**
+ * JSON Schema for a MULTI_SELECT field: distinct options, with the
+ * selection counts as minItems/maxItems
+ */
+const multiSelectSchema: NonNullable<FieldTypePlugin['jsonSchema']> = (
+  field
+) => {
+  const schema: JsonSchema = {
+    type: 'array',
+    items: { type: 'string', enum: field.validation?.options || [] },
+    uniqueItems: true,
+  };
+  if (field.validation?.min !== undefined) {
+    schema.minItems = field.validation.min;
+  }
+  if (field.validation?.max !== undefined) {
+    schema.maxItems = field.validation.max;
+  }
+  return schema;
+};
+
+/**
+ * Validates a DATETIME value, explaining times skipped by a clock change
+ */
+const validateDateTimeValue: FieldTypePlugin['validate'] = (
+  value,
+  _field,
+  context
+) => {
+  if (typeof value !== 'string') {
+    return { valid: false, error: 'Invalid date and time' };
+  }
+  const result = validateDateTime(value);
+  const clock = result.valid
+    ? null
+    : parseLocalDateTime(value, getToday(context));
+  if (clock && !fromWallClock(clock, context.timeZone)) {
+    return {
+      valid: false,
+      error: `Time does not exist in ${context.timeZone} (clock change)`,
+    };
+  }
+  return result;
+};
+
+/**
+ * Validates a BOOLEAN value
+ */
+const validateBooleanValue: FieldTypePlugin['validate'] = (value) =>
+  typeof value === 'boolean'
+    ? { valid: true }
+    : { valid: false, error: 'Value must be yes or no' };
+
+/**
+ * Validates a CONSENT value (an explicit yes)
+ */
+const validateConsentValue: FieldTypePlugin['validate'] = (value) =>
+  typeof value === 'boolean'
+    ? validateConsent(value)
+    : { valid: false, error: 'Consent must be an explicit yes' };
+
+/**
+ * Asks for explicit agreement to a CONSENT field's terms, quoted verbatim
+ */
+const describeConsent: NonNullable<FieldTypePlugin['promptHint']> = (
+  field
+) => {
+  const version = field.consent?.version;
+  const terms = `"${field.consent?.text ?? ''}"${version ? ` (version ${version})` : ''}`;
+  return `true only if the user explicitly agrees to ${terms}; quote these terms verbatim when asking`;
+};
+
+/**
+ * Lists a COMPOSITE field's parts for the system prompt
+ */
+const describeParts: NonNullable<FieldTypePlugin['promptHint']> = (field) =>
+  `object with parts ${(field.subFields ?? [])
+    .map((s) => `${s.name} (${s.type}${s.required ? '' : ', optional'})`)
+    .join(', ')}`;
+
+/**
+ * JSON Schema for a NUMBER field, carrying its min/max
+ */
+const numberSchema: NonNullable<FieldTypePlugin['jsonSchema']> = (field) => {
+  const schema: JsonSchema = { type: 'number' };
+  if (field.validation?.min !== undefined) {
+    schema.minimum = field.validation.min;
+  }
+  if (field.validation?.max !== undefined) {
+    schema.maximum = field.validation.max;
+  }
+  return schema;
+};
+
+/**
+ * Plugins for every FieldType, registered like any custom type
+ */
+export const BUILT_IN_FIELD_TYPES: readonly FieldTypePlugin[] = [
+  {
+    type: FieldType.TEXT,
+    validate: validateTextValue,
+    jsonSchema: textSchema,
+    supportedRules: ['min', 'max', 'pattern'],
+  },
+  {
+    type: FieldType.LONG_TEXT,
+    validate: validateTextValue,
+    jsonSchema: textSchema,
+    supportedRules: ['min', 'max', 'pattern'],
+  },
+  {
+    type: FieldType.EMAIL,
+    validate: (value) => validateEmail(String(value)),
+    promptHint: () => 'email address',
+    jsonSchema: (field) => ({ ...textSchema(field), format: 'email' }),
+    supportedRules: ['pattern'],
+  },
+  {
+    type: FieldType.PHONE,
+    validate: (value) => validatePhone(String(value)),
+    normalize: normalizePhone,
+    isGrounded: isPhoneGrounded,
+    promptHint: () => 'phone number with at least 10 digits',
+    jsonSchema: textSchema,
+    supportedRules: ['pattern'],
+  },
+  {
+    type: FieldType.NUMBER,
+    validate: validateNumberValue,
+    normalize: normalizeNumber,
+    isGrounded: isNumberGrounded,
+    promptHint: () => 'number',
+    jsonSchema: numberSchema,
+    supportedRules: ['min', 'max'],
+  },
+  {
+    type: FieldType.DATE,
+    validate: validateDateValue,
+    normalize: (value, _field, context) =>
+      normalizeDate(value, getToday(context)),
+    isGrounded: (value, text, _field, context) =>
+      isDateGrounded(value, text, getToday(context)),
+    promptHint: () =>
+      'date as YYYY-MM-DD, or a relative date ("tomorrow", "next Tuesday") as the user wrote it',
+    jsonSchema: () => ({ type: 'string', format: 'date' }),
+    supportedRules: [],
+  },
+  {
+    type: FieldType.DATETIME,
+    validate: validateDateTimeValue,
+    normalize: (value, _field, context) =>
+      normalizeDateTime(value, context.timeZone, getToday(context)),
+    isGrounded: (value, text, _field, context) =>
+      isDateTimeGrounded(value, text, getToday(context)),
+    promptHint: () =>
+      'local date and time as YYYY-MM-DDTHH:MM, without a timezone offset, or a relative one ("tomorrow at 3pm") as the user wrote it',
+    jsonSchema: () => ({ type: 'string' }),
+    supportedRules: [],
+  },
+  {
+    type: FieldType.TIME,
+    validate: (value) =>
+      typeof value === 'string'
+        ? validateTime(value)
+        : { valid: false, error: 'Invalid time; use HH:MM' },
+    normalize: normalizeTime,
+    isGrounded: isTimeGrounded,
+    promptHint: () => 'time of day as HH:MM (24-hour)',
+    jsonSchema: () => ({ type: 'string' }),
+    supportedRules: [],
+  },
+  {
+    type: FieldType.ENUM,
+    validate: (value, field) =>
+      validateEnum(String(value), field.validation?.options || []),
+    normalize: normalizeEnum,
+    promptHint: (field) =>
+      `one of: ${(field.validation?.options || []).join(', ')}`,
+    jsonSchema: (field) => ({
+      type: 'string',
+      enum: field.validation?.options || [],
+    }),
+    supportedRules: ['options'],
+  },
+  {
+    type: FieldType.MULTI_SELECT,
+    multiValue: true,
+    validate: validateMultiSelectValue,
+    normalize: normalizeMultiSelect,
+    isGrounded: isSelectionGrounded,
+    promptHint: (field) =>
+      `list of one or more of: ${(field.validation?.options || []).join(', ')}`,
+    jsonSchema: multiSelectSchema,
+    supportedRules: ['options', 'min', 'max'],
+  },
+  {
+    // Parts are normalized, validated and grounded with their
+    // sub-fields' types; validateField only calls this for no parts
+    type: FieldType.COMPOSITE,
+    validate: () => ({ valid: true }),
+    promptHint: describeParts,
+    supportedRules: [],
+  },
+  {
+    type: FieldType.BOOLEAN,
+    validate: validateBooleanValue,
+    normalize: normalizeBoolean,
+    isGrounded: isBooleanGrounded,
+    promptHint: () => 'true for yes, false for no',
+    jsonSchema: () => ({ type: 'boolean' }),
+    supportedRules: [],
+  },
+  {
+    type: FieldType.CONSENT,
+    validate: validateConsentValue,
+    normalize: normalizeConsent,
+    isGrounded: isConsentGrounded,
+    promptHint: describeConsent,
+    jsonSchema: () => ({ type: 'boolean' }),
+    supportedRules: [],
+  },
+];
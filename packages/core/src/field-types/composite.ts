@@ -0,0 +1,92 @@
+/**
+ * Helpers for COMPOSITE field values
+ *
+ * @module composite
+ */
+
+import type {
+  CompositeValue,
+  FieldValue,
+  FormField,
+  SimpleFieldValue,
+  SubField,
+} from '../types';
+
+/**
+ * Checks whether a value is a COMPOSITE value (an object of parts)
+ *
+ * @param value - Any field value
+ * @returns True for plain objects (not Dates, lists or null)
+ */
+export function isCompositeValue(
+  value: FieldValue | undefined
+): value is CompositeValue {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !(value instanceof Date) &&
+    !Array.isArray(value)
+  );
+}
+
+/**
+ * Checks whether a part has been given
+ *
+ * @param value - Part value
+ * @returns False for missing, null, blank and empty-list values
+ */
+export function isPartGiven(value: SimpleFieldValue | undefined): boolean {
+  if (value === null || value === undefined) {
+    return false;
+  }
+  if (typeof value === 'string') {
+    return value.trim() !== '';
+  }
+  return !Array.isArray(value) || value.length > 0;
+}
+
+/**
+ * Describes a sub-field as a stand-alone field, so it can be
+ * normalized and validated like any other
+ *
+ * @param field - COMPOSITE field
+ * @param subField - One of its parts
+ * @returns Field definition for the part (id "<field id>.<part name>")
+ */
+export function toSubFormField(
+  field: FormField,
+  subField: SubField
+): FormField {
+  return {
+    ...subField,
+    id: `${field.id}.${subField.name}`,
+    order: field.subFields?.indexOf(subField) ?? 0,
+  };
+}
+
+/**
+ * Lists the required parts of a COMPOSITE field not given yet
+ *
+ * @param field - Field definition (non-COMPOSITE fields have no parts)
+ * @param value - Collected value, possibly partial
+ * @returns Missing required sub-fields, in declaration order
+ */
+export function getMissingParts(
+  field: FormField,
+  value: FieldValue | undefined
+): SubField[] {
+  const parts = isCompositeValue(value) ? value : {};
+  return (field.subFields ?? []).filter(
+    (subField) => subField.required && !isPartGiven(parts[subField.name])
+  );
+}
+
+/**
+ * Checks whether a COMPOSITE value has no parts at all
+ *
+ * @param value - Any field value
+ * @returns True for composite values whose parts are all missing
+ */
+export function isEmptyCompositeValue(value: FieldValue): boolean {
+  return isCompositeValue(value) && !Object.values(value).some(isPartGiven);
+}
@@ -0,0 +1,103 @@
+/**
+ * Attribution of explicit agreement to CONSENT fields
+ *
+ * A message may answer several consents at once ("Yes to the privacy
+ * policy, no to marketing"), so each consent must be tied to the clause
+ * that agrees to it.
+ *
+ * @module consent
+ */
+
+import type { FormField } from '../types';
+import { isExplicitConsent } from './normalizers';
+
+/**
+ * Clause boundaries: punctuation and "but" ("yes to X but not to Y")
+ */
+const CLAUSE_SEPARATOR_REGEX = /[,.;!?\n]+|\bbut\b/i;
+
+/**
+ * Words refusing something (a hedge such as "later" is not a refusal)
+ */
+const REFUSAL_REGEX = /\b(?:no|not|never|don't|do not|disagree|refuse)\b/i;
+
+/**
+ * Label words too short to identify a field ("of", "to", "the")
+ */
+const MIN_KEYWORD_LENGTH = 4;
+
+/**
+ * Builds a matcher for the words of a field's label, so a clause
+ * naming the field ("no to marketing" for "Marketing emails") is
+ * attributed to it; a trailing "s" is optional
+ */
+function buildMentionRegex(field: FormField): RegExp | null {
+  const keywords = field.label
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length >= MIN_KEYWORD_LENGTH)
+    .map((word) => word.replace(/s$/, ''));
+  return keywords.length > 0
+    ? new RegExp(`\\b(?:${keywords.join('|')})s?\\b`, 'i')
+    : null;
+}
+
+/**
+ * Finds the clause of a message that agrees to each claimed CONSENT field
+ *
+ * A clause naming a field (a word of its label) answers that field: the
+ * field is agreed to when such a clause agrees explicitly (see
+ * isExplicitConsent) and none of them refuses. Clauses naming no field
+ * are generic ("Yes", "I agree"): a generic agreement is given to the
+ * first claimed field not named anywhere, and to no other; a generic
+ * refusal ("no") makes it ambiguous and it is given to none.
+ *
+ * @param fields - The form's CONSENT fields, in form order
+ * @param claimed - Names of the fields reported as agreed to
+ * @param text - What the user wrote
+ * @returns Agreeing clause (as written) keyed by field name, for the
+ *   claimed fields the message agrees to
+ */
+export function findConsentClauses(
+  fields: readonly FormField[],
+  claimed: ReadonlySet<string>,
+  text: string
+): Map<string, string> {
+  const clauses = text
+    .split(CLAUSE_SEPARATOR_REGEX)
+    .map((clause) => clause.trim().replace(/\s+/g, ' '))
+    .filter((clause) => clause !== '');
+  const mentions = fields.map((field) => {
+    const regex = buildMentionRegex(field);
+    return regex ? clauses.filter((clause) => regex.test(clause)) : [];
+  });
+  const generic = clauses.filter(
+    (clause) => !mentions.some((named) => named.includes(clause))
+  );
+  let genericAgreement = generic.some((clause) => REFUSAL_REGEX.test(clause))
+    ? undefined
+    : generic.find(isExplicitConsent);
+
+  const found = new Map<string, string>();
+  fields.forEach((field, i) => {
+    const named = mentions[i]!;
+    if (!claimed.has(field.name)) {
+      return;
+    }
+    if (named.length === 0) {
+      if (genericAgreement !== undefined) {
+        found.set(field.name, genericAgreement);
+        genericAgreement = undefined;
+      }
+      return;
+    }
+    const agreement = named.find(isExplicitConsent);
+    if (
+      agreement !== undefined &&
+      !named.some((clause) => REFUSAL_REGEX.test(clause))
+    ) {
+      found.set(field.name, agreement);
+    }
+  });
+  return found;
+}
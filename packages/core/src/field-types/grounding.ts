@@ -0,0 +1,253 @@
+/**
+ * Grounding matchers for built-in field types
+ *
+ * Each matcher tells whether a value returned by the LLM appears in
+ * what the user wrote, allowing for the different ways the same value
+ * can be written.
+ *
+ * @module grounding
+ */
+
+import type { CalendarDate, SimpleFieldValue } from '../types';
+import {
+  isExplicitConsent,
+  normalizeBoolean,
+  normalizeDate,
+  normalizeNumber,
+  normalizePhone,
+  normalizeTime,
+  parseLocalDateTime,
+  splitAnswerClauses,
+} from './normalizers';
+import { parseZonedDateTime } from './zoned-time';
+import { findRelativeDates } from './relative-dates';
+
+/**
+ * Phone-like run of digits and separators
+ */
+const PHONE_CANDIDATE_REGEX = /\+?[\d\s\-().]{7,}/g;
+
+/**
+ * Date-like phrases in the formats normalizeDate understands
+ */
+const DATE_CANDIDATE_REGEXES: readonly RegExp[] = [
+  /\d{4}-\d{2}-\d{2}/g,
+  /[a-z]+\.?\s+\d{1,2}(?:st|nd|rd|th)?,?\s+\d{4}/gi,
+  /\d{1,2}(?:st|nd|rd|th)?\s+(?:of\s+)?[a-z]+\.?,?\s+\d{4}/gi,
+];
+
+/**
+ * Number-like token with optional sign, separators and decimals
+ */
+const NUMBER_CANDIDATE_REGEX = /[+-]?\d[\d,]*(?:\.\d+)?/g;
+
+/**
+ * Lowercases text and collapses runs of whitespace
+ */
+function simplify(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Default matcher: the value occurs in the text, ignoring case and
+ * differences in whitespace
+ *
+ * @param value - Value as returned by the LLM
+ * @param text - What the user wrote
+ * @returns Whether the value occurs in the text
+ */
+export function isTextGrounded(value: SimpleFieldValue, text: string): boolean {
+  const needle = simplify(String(value));
+  return needle !== '' && simplify(text).includes(needle);
+}
+
+/**
+ * Matches a phone number written with any separators or prefix
+ * ("(555) 123-4567" matches "555.123.4567" and "+1 555 123 4567")
+ *
+ * @param value - Phone number as returned by the LLM
+ * @param text - What the user wrote
+ * @returns Whether the same number occurs in the text
+ */
+export function isPhoneGrounded(
+  value: SimpleFieldValue,
+  text: string
+): boolean {
+  const target = normalizePhone(value);
+  return (text.match(PHONE_CANDIDATE_REGEX) ?? []).some(
+    (candidate) => normalizePhone(candidate.trim()) === target
+  );
+}
+
+/**
+ * Matches a date written in any format normalizeDate understands
+ * ("2024-03-05" matches "March 5th, 2024"); given today's date, a
+ * relative phrase in the text ("tomorrow works") matches the date it
+ * refers to
+ *
+ * @param value - Date as returned by the LLM
+ * @param text - What the user wrote
+ * @param today - Reference date in the user's timezone
+ * @returns Whether the same date occurs in the text
+ */
+export function isDateGrounded(
+  value: SimpleFieldValue,
+  text: string,
+  today?: CalendarDate
+): boolean {
+  const target = normalizeDate(value, today);
+  if (!(target instanceof Date)) {
+    return isTextGrounded(value, text);
+  }
+
+  const relative = today ? findRelativeDates(text, today) : [];
+  if (
+    relative.some(
+      (date) =>
+        Date.UTC(date.year, date.month - 1, date.day) === target.getTime()
+    )
+  ) {
+    return true;
+  }
+  return DATE_CANDIDATE_REGEXES.some((regex) =>
+    (text.match(regex) ?? []).some((candidate) => {
+      const date = normalizeDate(candidate);
+      return date instanceof Date && date.getTime() === target.getTime();
+    })
+  );
+}
+
+/**
+ * Matches a number written with or without thousands separators
+ * ("1200" matches "1,200")
+ *
+ * @param value - Number as returned by the LLM
+ * @param text - What the user wrote
+ * @returns Whether the same number occurs in the text
+ */
+export function isNumberGrounded(
+  value: SimpleFieldValue,
+  text: string
+): boolean {
+  const target = normalizeNumber(value);
+  return (text.match(NUMBER_CANDIDATE_REGEX) ?? []).some(
+    (candidate) => normalizeNumber(candidate.replace(/,$/, '')) === target
+  );
+}
+
+/**
+ * Matches a selection when every selected option occurs in the text
+ *
+ * @param value - Selected options as returned by the LLM
+ * @param text - What the user wrote
+ * @returns Whether all options occur in the text
+ */
+export function isSelectionGrounded(
+  value: SimpleFieldValue,
+  text: string
+): boolean {
+  const items = Array.isArray(value) ? value : [value];
+  return items.length > 0 && items.every((item) => isTextGrounded(item, text));
+}
+
+/**
+ * Longest yes/no answer, in words, looked for at the start of a clause
+ */
+const MAX_ANSWER_WORDS = 3;
+
+/**
+ * Matches a boolean when a clause of the text starts with a yes or no
+ * answer meaning the same ("Yes I have a car" grounds true)
+ *
+ * @param value - Boolean as returned by the LLM
+ * @param text - What the user wrote
+ * @returns Whether the text gives the same answer
+ */
+export function isBooleanGrounded(
+  value: SimpleFieldValue,
+  text: string
+): boolean {
+  const target = normalizeBoolean(value);
+  if (typeof target !== 'boolean') {
+    return false;
+  }
+  return splitAnswerClauses(text).some((clause) => {
+    const words = clause.split(' ');
+    for (let count = 1; count <= MAX_ANSWER_WORDS; count++) {
+      if (normalizeBoolean(words.slice(0, count).join(' ')) === target) {
+        return true;
+      }
+    }
+    return false;
+  });
+}
+
+/**
+ * Matches a consent answer: true needs explicit agreement in the text
+ * (see isExplicitConsent), false any no answer
+ *
+ * @param value - Boolean as returned by the LLM
+ * @param text - What the user wrote
+ * @returns Whether the text gives the same answer
+ */
+export function isConsentGrounded(
+  value: SimpleFieldValue,
+  text: string
+): boolean {
+  return value === true
+    ? isExplicitConsent(text)
+    : isBooleanGrounded(value, text);
+}
+
+/**
+ * Time-like phrases in the formats normalizeTime understands
+ */
+const TIME_CANDIDATE_REGEX =
+  /\b\d{1,2}(?::\d{2}){0,2}\s*(?:[ap]\.?m\b\.?)?|\bnoon\b|\bmidnight\b/gi;
+
+/**
+ * Matches a time of day written in any supported format
+ * ("15:30" matches "3:30pm")
+ *
+ * @param value - Time as returned by the LLM
+ * @param text - What the user wrote
+ * @returns Whether the same time occurs in the text
+ */
+export function isTimeGrounded(value: SimpleFieldValue, text: string): boolean {
+  const target = normalizeTime(value);
+  if (typeof target !== 'string') {
+    return false;
+  }
+  return (text.match(TIME_CANDIDATE_REGEX) ?? []).some(
+    (candidate) => normalizeTime(candidate.trim()) === target
+  );
+}
+
+/**
+ * Matches a date and time when both its date and its time of day occur
+ * in the text, each in any supported format
+ *
+ * @param value - Date and time as returned by the LLM
+ * @param text - What the user wrote
+ * @param today - Reference date for relative phrases ("tomorrow at 3pm")
+ * @returns Whether the date and the time occur in the text
+ */
+export function isDateTimeGrounded(
+  value: SimpleFieldValue,
+  text: string,
+  today?: CalendarDate
+): boolean {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  const clock =
+    parseZonedDateTime(value)?.wallClock ?? parseLocalDateTime(value, today);
+  if (!clock) {
+    return isTextGrounded(value, text);
+  }
+
+  const pad = (part: number): string => String(part).padStart(2, '0');
+  const date = `${clock.year}-${pad(clock.month)}-${pad(clock.day)}`;
+  const time = `${pad(clock.hour)}:${pad(clock.minute)}`;
+  return isDateGrounded(date, text, today) && isTimeGrounded(time, text);
+}
@@ -0,0 +1,52 @@
+/**
+ * Field types module barrel export
+ */
+
+export { BUILT_IN_FIELD_TYPES } from './built-in';
+export {
+  createFieldTypeRegistry,
+  resolveFieldType,
+  DEFAULT_FIELD_TYPE_REGISTRY,
+} from './registry';
+export {
+  isExplicitConsent,
+  normalizeBoolean,
+  normalizeConsent,
+  normalizeDate,
+  normalizeDateTime,
+  normalizeEnum,
+  normalizeMultiSelect,
+  normalizeNumber,
+  normalizePhone,
+  normalizeTime,
+} from './normalizers';
+export {
+  DEFAULT_TIME_ZONE,
+  formatZonedDateTime,
+  isValidTimeZone,
+  parseZonedDateTime,
+  resolveTimeZone,
+} from './zoned-time';
+export {
+  findRelativeDates,
+  getCalendarDate,
+  resolveRelativeDate,
+} from './relative-dates';
+export { findConsentClauses } from './consent';
+export {
+  getMissingParts,
+  isCompositeValue,
+  isEmptyCompositeValue,
+  toSubFormField,
+} from './composite';
+export {
+  isBooleanGrounded,
+  isConsentGrounded,
+  isDateGrounded,
+  isDateTimeGrounded,
+  isNumberGrounded,
+  isPhoneGrounded,
+  isSelectionGrounded,
+  isTextGrounded,
+  isTimeGrounded,
+} from './grounding';
@@ -0,0 +1,584 @@
+/**
+ * Normalizers for built-in field types
+ *
+ * Each normalizer converts a value as phrased by the LLM into the
+ * canonical form stored in the session. Values that cannot be
+ * understood are returned unchanged so validation can reject them.
+ *
+ * @module normalizers
+ */
+
+import type { CalendarDate, FormField, SimpleFieldValue } from '../types';
+import {
+  DEFAULT_TIME_ZONE,
+  formatZonedDateTime,
+  fromWallClock,
+  isValidWallClock,
+  parseZonedDateTime,
+} from './zoned-time';
+import type { WallClock } from './zoned-time';
+import { resolveRelativeDate } from './relative-dates';
+
+/**
+ * Calling code assumed for 10-digit numbers without a country prefix
+ * (North American Numbering Plan)
+ */
+const DEFAULT_CALLING_CODE = '1';
+
+/**
+ * Maximum number of digits in an E.164 number
+ */
+const MAX_E164_DIGITS = 15;
+
+/**
+ * Characters a phone number may be written with
+ */
+const PHONE_CHARS_REGEX = /^\+?[\d\s\-().]+$/;
+
+/**
+ * Month names (and their three-letter abbreviations) to month numbers
+ */
+const MONTHS: ReadonlyMap<string, number> = new Map(
+  [
+    'january',
+    'february',
+    'march',
+    'april',
+    'may',
+    'june',
+    'july',
+    'august',
+    'september',
+    'october',
+    'november',
+    'december',
+  ].flatMap((name, index): [string, number][] => [
+    [name, index + 1],
+    [name.slice(0, 3), index + 1],
+  ])
+);
+
+/**
+ * "2024-03-05", optionally followed by a time part (matched lowercased)
+ */
+const ISO_DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})(?:t.*)?$/;
+
+/**
+ * "March 3rd, 2024" / "Mar 3 2024"
+ */
+const MONTH_FIRST_REGEX =
+  /^([a-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/;
+
+/**
+ * "3rd of March 2024" / "3 Mar, 2024"
+ */
+const DAY_FIRST_REGEX =
+  /^(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?([a-z]+)\.?,?\s+(\d{4})$/;
+
+/**
+ * Numeric string with optional sign, thousands separators and decimals
+ */
+const NUMERIC_REGEX = /^[+-]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?$/;
+
+/**
+ * Converts a phone number to E.164 ("+15551234567")
+ * Numbers with a "+" or "00" prefix keep their country code;
+ * 10-digit national numbers get the default calling code.
+ *
+ * @param value - Phone number as returned by the LLM
+ * @returns E.164 string, or the input unchanged if not recognised
+ */
+export function normalizePhone(value: SimpleFieldValue): SimpleFieldValue {
+  const text = typeof value === 'number' ? String(value) : value;
+  if (typeof text !== 'string' || !PHONE_CHARS_REGEX.test(text.trim())) {
+    return value;
+  }
+
+  const digits = text.replace(/\D/g, '');
+  let e164Digits: string;
+  if (text.trim().startsWith('+')) {
+    e164Digits = digits;
+  } else if (digits.startsWith('00')) {
+    e164Digits = digits.slice(2);
+  } else if (digits.length === 10) {
+    e164Digits = `${DEFAULT_CALLING_CODE}${digits}`;
+  } else {
+    e164Digits = digits;
+  }
+
+  if (e164Digits.length < 10 || e164Digits.length > MAX_E164_DIGITS) {
+    return value;
+  }
+  return `+${e164Digits}`;
+}
+
+/**
+ * Builds a UTC midnight Date, rejecting overflowing parts ("2024-02-30")
+ *
+ * @returns Date, or null if the parts do not form a calendar date
+ */
+function toUtcDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() + 1 !== month ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Parses a date string into its year, month and day
+ *
+ * @param text - Lowercased, trimmed date string
+ * @returns Date parts, or null if the format is not recognised
+ */
+function parseDateParts(
+  text: string
+): { year: number; month: number; day: number } | null {
+  const iso = ISO_DATE_REGEX.exec(text);
+  if (iso) {
+    return { year: Number(iso[1]), month: Number(iso[2]), day: Number(iso[3]) };
+  }
+
+  const monthFirst = MONTH_FIRST_REGEX.exec(text);
+  const month = MONTHS.get(monthFirst?.[1] ?? '');
+  if (monthFirst && month !== undefined) {
+    return { year: Number(monthFirst[3]), month, day: Number(monthFirst[2]) };
+  }
+
+  const dayFirst = DAY_FIRST_REGEX.exec(text);
+  const dayFirstMonth = MONTHS.get(dayFirst?.[2] ?? '');
+  if (dayFirst && dayFirstMonth !== undefined) {
+    return {
+      year: Number(dayFirst[3]),
+      month: dayFirstMonth,
+      day: Number(dayFirst[1]),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Parses an absolute date, or a relative one when today's date is known
+ *
+ * @param text - Lowercased, trimmed date
+ * @param today - Reference date for relative expressions
+ * @returns Year, month and day, or null if not recognised
+ */
+function parseAnyDate(
+  text: string,
+  today: CalendarDate | undefined
+): CalendarDate | null {
+  return (
+    parseDateParts(text) ?? (today ? resolveRelativeDate(text, today) : null)
+  );
+}
+
+/**
+ * Converts a date string to a Date at UTC midnight
+ * Accepts ISO dates ("2024-03-03") and dates with a month name
+ * ("March 3rd, 2024", "3 Mar 2024"). Given today's date, relative dates
+ * ("tomorrow", "next Tuesday", "in two weeks") are resolved against it.
+ * Dates without a year are left unchanged.
+ *
+ * @param value - Date as returned by the LLM
+ * @param today - Reference date in the user's timezone
+ * @returns Date object, or the input unchanged if not recognised
+ */
+export function normalizeDate(
+  value: SimpleFieldValue,
+  today?: CalendarDate
+): SimpleFieldValue {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const parts = parseAnyDate(value.trim().toLowerCase(), today);
+  if (!parts) {
+    return value;
+  }
+  return toUtcDate(parts.year, parts.month, parts.day) ?? value;
+}
+
+/**
+ * Converts a numeric string ("42", "1,200.50") to a number
+ *
+ * @param value - Number as returned by the LLM
+ * @returns Number, or the input unchanged if not numeric
+ */
+export function normalizeNumber(value: SimpleFieldValue): SimpleFieldValue {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const text = value.trim();
+  if (text === '' || !NUMERIC_REGEX.test(text) || !/\d/.test(text)) {
+    return value;
+  }
+  return Number(text.replace(/,/g, ''));
+}
+
+/**
+ * Maps an ENUM value to its canonical option, ignoring case and
+ * surrounding whitespace ("yes" -> "Yes")
+ *
+ * @param value - Option as returned by the LLM
+ * @param field - Field definition with validation.options
+ * @returns Matching option, or the input unchanged if none matches
+ */
+export function normalizeEnum(
+  value: SimpleFieldValue,
+  field: FormField
+): SimpleFieldValue {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const wanted = value.trim().toLowerCase();
+  const option = (field.validation?.options || []).find(
+    (o) => o.toLowerCase() === wanted
+  );
+  return option ?? value;
+}
+
+/**
+ * Separators between options written as one string ("A, B and C"),
+ * from the strongest to the weakest
+ */
+const LIST_SEPARATOR_REGEXES = [/\s*[,;]\s*/, /\s*(?:\band\b|&)\s*/i];
+
+/**
+ * Splits a selection written as one string into items
+ * Text that is exactly an option ("R&D", "Research and Development")
+ * is kept whole; anything else is split on the strongest separator and
+ * each piece is read the same way.
+ */
+function splitSelection(
+  text: string,
+  options: readonly string[],
+  depth = 0
+): string[] {
+  const wanted = text.trim().toLowerCase();
+  const separator = LIST_SEPARATOR_REGEXES[depth];
+  if (!separator || options.some((o) => o.toLowerCase() === wanted)) {
+    return [text];
+  }
+  return text
+    .split(separator)
+    .flatMap((piece) => splitSelection(piece, options, depth + 1));
+}
+
+/**
+ * Converts the options chosen for a MULTI_SELECT field into a list of
+ * canonical options ("email, sms" -> ["Email", "SMS"])
+ * A single string that is not itself an option is split on commas,
+ * semicolons, "and" and "&"; each item is matched to an option ignoring
+ * case, and duplicates are dropped. Items matching no option are kept so
+ * validation can reject them.
+ *
+ * @param value - Selection as returned by the LLM (list or string)
+ * @param field - Field definition with validation.options
+ * @returns List of options, or the input unchanged if not a selection
+ */
+export function normalizeMultiSelect(
+  value: SimpleFieldValue,
+  field: FormField
+): SimpleFieldValue {
+  let items: string[];
+  if (Array.isArray(value)) {
+    items = value;
+  } else if (typeof value === 'string') {
+    items = splitSelection(value, field.validation?.options ?? []);
+  } else {
+    return value;
+  }
+
+  const selected = items
+    .map((item) => item.trim())
+    .filter((item) => item !== '')
+    .map((item) => normalizeEnum(item, field) as string);
+  return [...new Set(selected)];
+}
+
+/**
+ * Answers read as yes or no, matched against a whole lowercased answer
+ * or its first clause ("Yes, I do")
+ */
+const YES_ANSWERS: ReadonlySet<string> = new Set([
+  'yes',
+  'y',
+  'yeah',
+  'yep',
+  'yup',
+  'sure',
+  'ok',
+  'okay',
+  'true',
+  'correct',
+  'of course',
+  'absolutely',
+  'definitely',
+  'i do',
+  'i am',
+  'i have',
+  'i agree',
+]);
+const NO_ANSWERS: ReadonlySet<string> = new Set([
+  'no',
+  'n',
+  'nope',
+  'nah',
+  'false',
+  'incorrect',
+  'not really',
+  'no thanks',
+  'no thank you',
+  'i do not',
+  "i don't",
+  'i am not',
+  "i'm not",
+  'i have not',
+  "i haven't",
+  'i disagree',
+]);
+
+/**
+ * Explicit agreement: "yes", "I agree", "I consent", "I accept",
+ * "agreed" (matched lowercased)
+ */
+const CONSENT_REGEX = /\b(?:yes|i (?:agree|consent|accept)|agreed)\b/;
+
+/**
+ * Words that turn an agreement into a refusal or a hedge
+ */
+const CONSENT_NEGATION_REGEX =
+  /\b(?:no|not|never|don't|do not|disagree|refuse|maybe|later)\b/;
+
+/**
+ * Splits an answer into its lowercased clauses, without punctuation
+ *
+ * @param text - Answer text
+ * @returns Non-empty clauses, in order
+ */
+export function splitAnswerClauses(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[,.;!?\n]+/)
+    .map((clause) => clause.trim().replace(/\s+/g, ' '))
+    .filter((clause) => clause !== '');
+}
+
+/**
+ * Converts a yes/no answer to a boolean ("yep" -> true, "no thanks"
+ * -> false)
+ * The whole answer or its first clause must be a known yes or no
+ * answer; anything else is ambiguous.
+ *
+ * @param value - Answer as returned by the LLM
+ * @returns Boolean, or the input unchanged if not recognised
+ */
+export function normalizeBoolean(value: SimpleFieldValue): SimpleFieldValue {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const clauses = splitAnswerClauses(value);
+  const answer = clauses.join(' ');
+  const first = clauses[0] ?? '';
+  if (YES_ANSWERS.has(answer) || YES_ANSWERS.has(first)) {
+    return true;
+  }
+  if (NO_ANSWERS.has(answer) || NO_ANSWERS.has(first)) {
+    return false;
+  }
+  return value;
+}
+
+/**
+ * Checks whether one answer agrees explicitly, without negation or hedge
+ */
+function isAgreement(answer: string): boolean {
+  const lowered = answer.toLowerCase();
+  return CONSENT_REGEX.test(lowered) && !CONSENT_NEGATION_REGEX.test(lowered);
+}
+
+/**
+ * Checks whether text explicitly agrees to something
+ * One clause must say "yes", "I agree", "I consent", "I accept" or
+ * "agreed" with no negation or hedge ("not", "maybe") in that clause;
+ * a vague "sure" or "ok" is not explicit. Other clauses may answer
+ * something else ("yes to the privacy policy, no to marketing").
+ *
+ * @param text - What the user wrote
+ * @returns True for explicit agreement
+ */
+export function isExplicitConsent(text: string): boolean {
+  return splitAnswerClauses(text).some(isAgreement);
+}
+
+/**
+ * Converts an answer to a CONSENT question to a boolean
+ * Only explicit agreement with no negation or hedge anywhere in the
+ * answer becomes true; a no answer becomes false and anything else is
+ * left for validation.
+ *
+ * @param value - Answer as returned by the LLM
+ * @returns Boolean, or the input unchanged if neither explicit nor no
+ */
+export function normalizeConsent(value: SimpleFieldValue): SimpleFieldValue {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  if (isAgreement(value)) {
+    return true;
+  }
+  return normalizeBoolean(value) === false ? false : value;
+}
+
+/**
+ * "3pm", "3:30 p.m.", "15:30", "15:30:00" (matched lowercased)
+ */
+const TIME_REGEX = /^(\d{1,2})(?::(\d{2}))?(?::\d{2})?\s*(?:([ap])\.?m\.?)?$/;
+
+/**
+ * Date followed by a time: "2024-03-05t15:30", "march 5th, 2024 at 3pm"
+ * (matched lowercased)
+ */
+const LOCAL_DATE_TIME_REGEX =
+  /^(.+?)(?:t|,?\s+at\s+|,?\s+)(\d{1,2}(?::\d{2}){0,2}\s*(?:[ap]\.?m\.?)?|noon|midnight)$/;
+
+/**
+ * Date and time with a UTC offset: an instant rather than a wall clock
+ */
+const OFFSET_DATE_TIME_REGEX =
+  /^\d{4}-\d{2}-\d{2}[t ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:z|[+-]\d{2}:?\d{2})$/i;
+
+/**
+ * Converts a 12-hour clock hour to 24-hour
+ *
+ * @param hour - Hour as written (1-12)
+ * @param meridiem - "a" or "p"
+ * @returns Hour (0-23), or null if not a 12-hour clock hour
+ */
+function toTwentyFourHour(hour: number, meridiem: string): number | null {
+  if (hour < 1 || hour > 12) {
+    return null;
+  }
+  return (hour % 12) + (meridiem === 'p' ? 12 : 0);
+}
+
+/**
+ * Parses a time of day
+ *
+ * @param text - Lowercased, trimmed time
+ * @returns Hour (0-23) and minute, or null if not a time; a bare hour
+ *   without am/pm is not a time
+ */
+function parseTimeParts(
+  text: string
+): { hour: number; minute: number } | null {
+  if (text === 'noon' || text === 'midnight') {
+    return { hour: text === 'noon' ? 12 : 0, minute: 0 };
+  }
+
+  const match = TIME_REGEX.exec(text);
+  if (!match || (match[2] === undefined && match[3] === undefined)) {
+    return null;
+  }
+  const hour =
+    match[3] === undefined
+      ? Number(match[1])
+      : toTwentyFourHour(Number(match[1]), match[3]);
+  const minute = Number(match[2] ?? 0);
+  return hour !== null && hour <= 23 && minute <= 59
+    ? { hour, minute }
+    : null;
+}
+
+/**
+ * Converts a time of day to "HH:MM" (24-hour)
+ * Accepts "3pm", "3:30 p.m.", "15:30", "noon" and "midnight".
+ *
+ * @param value - Time as returned by the LLM
+ * @returns "HH:MM", or the input unchanged if not recognised
+ */
+export function normalizeTime(value: SimpleFieldValue): SimpleFieldValue {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const parts = parseTimeParts(value.trim().toLowerCase());
+  if (!parts) {
+    return value;
+  }
+  const pad = (part: number): string => String(part).padStart(2, '0');
+  return `${pad(parts.hour)}:${pad(parts.minute)}`;
+}
+
+/**
+ * Parses a date and time without a UTC offset into a wall clock
+ *
+ * @param text - Date and time, e.g. "2024-03-05T15:30" or
+ *   "March 5th, 2024 at 3pm"
+ * @param today - Reference date for relative dates ("tomorrow at 3pm")
+ * @returns Wall clock, or null if not recognised or not a real date
+ */
+export function parseLocalDateTime(
+  text: string,
+  today?: CalendarDate
+): WallClock | null {
+  const match = LOCAL_DATE_TIME_REGEX.exec(text.trim().toLowerCase());
+  const date = match && parseAnyDate(match[1]!.replace(/,$/, ''), today);
+  const time = match && parseTimeParts(match[2]!);
+  if (!date || !time) {
+    return null;
+  }
+
+  const clock = { ...date, ...time, second: 0 };
+  return isValidWallClock(clock) ? clock : null;
+}
+
+/**
+ * Converts a date and time to a DATETIME value in the user's timezone
+ *
+ * Without an offset ("2024-03-05T15:30", "March 5th, 2024 at 3pm"),
+ * the value is the wall-clock time the user meant in `timeZone`. With
+ * one ("...T20:30:00Z") it is an instant, shown in `timeZone`. A
+ * DATETIME value keeps its own zone. Given today's date, relative dates
+ * ("tomorrow at 3pm") are resolved against it.
+ *
+ * @param value - Date and time as returned by the LLM
+ * @param timeZone - IANA timezone of the user
+ * @param today - Reference date in the user's timezone
+ * @returns e.g. "2024-03-05T15:30:00-05:00[America/New_York]", or the
+ *   input unchanged if not recognised or skipped by a clock change
+ */
+export function normalizeDateTime(
+  value: SimpleFieldValue,
+  timeZone: string = DEFAULT_TIME_ZONE,
+  today?: CalendarDate
+): SimpleFieldValue {
+  if (value instanceof Date) {
+    return formatZonedDateTime(value, timeZone);
+  }
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const text = value.trim();
+  if (parseZonedDateTime(text)) {
+    return text;
+  }
+  if (OFFSET_DATE_TIME_REGEX.test(text)) {
+    const time = Date.parse(text);
+    return isNaN(time) ? value : formatZonedDateTime(new Date(time), timeZone);
+  }
+
+  const clock = parseLocalDateTime(text, today);
+  const instant = clock && fromWallClock(clock, timeZone);
+  return instant ? formatZonedDateTime(instant, timeZone) : value;
+}
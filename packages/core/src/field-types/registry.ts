@@ -0,0 +1,75 @@
+/**
+ * Field type registry - resolves FormField.type to its plugin
+ *
+ * @module registry
+ */
+
+import type { FieldTypePlugin, FieldTypeRegistry, FormField } from '../types';
+import { ClientError } from '../types';
+import { BUILT_IN_FIELD_TYPES } from './built-in';
+
+/**
+ * Creates a registry containing the built-in types plus the given plugins
+ *
+ * The registry is an immutable value: pass it to runLlmStep,
+ * buildSystemPrompt or validateField wherever custom types are used.
+ *
+ * @param plugins - Custom field type plugins
+ * @returns Registry keyed by type name
+ * @throws ClientError if a plugin reuses an existing type name
+ *
+ * @example
+ * ```typescript
+ * const fieldTypes = createFieldTypeRegistry([vatNumber]);
+ * await runLlmStep(form, session, message, llmClient, { fieldTypes });
+ * ```
+ */
+export function createFieldTypeRegistry(
+  plugins: readonly FieldTypePlugin[] = []
+): FieldTypeRegistry {
+  const registry = new Map<string, FieldTypePlugin>();
+
+  for (const plugin of [...BUILT_IN_FIELD_TYPES, ...plugins]) {
+    if (registry.has(plugin.type)) {
+      throw new ClientError(
+        'Field type is already registered',
+        400,
+        'DUPLICATE_FIELD_TYPE',
+        { type: plugin.type }
+      );
+    }
+    registry.set(plugin.type, plugin);
+  }
+
+  return registry;
+}
+
+/**
+ * Registry with only the built-in types (used when none is passed)
+ */
+export const DEFAULT_FIELD_TYPE_REGISTRY: FieldTypeRegistry =
+  createFieldTypeRegistry();
+
+/**
+ * Looks up the plugin for a field's type
+ *
+ * @param field - Field definition
+ * @param registry - Registry to resolve from
+ * @returns Plugin for the field's type
+ * @throws ClientError if the type is not registered
+ */
+export function resolveFieldType(
+  field: FormField,
+  registry: FieldTypeRegistry = DEFAULT_FIELD_TYPE_REGISTRY
+): FieldTypePlugin {
+  const plugin = registry.get(field.type);
+  if (!plugin) {
+    throw new ClientError(
+      'Field type is not registered',
+      400,
+      'UNKNOWN_FIELD_TYPE',
+      { fieldName: field.name, type: field.type }
+    );
+  }
+  return plugin;
+}
@@ -0,0 +1,208 @@
+/**
+ * Deterministic resolution of relative dates ("tomorrow", "next
+ * Tuesday", "in two weeks") against a reference date
+ *
+ * Only English expressions are recognised; anything else is left to
+ * the absolute date parsers and, failing those, to validation.
+ *
+ * @module relative-dates
+ */
+
+import type { CalendarDate } from '../types';
+import { toWallClock } from './zoned-time';
+
+const WEEKDAYS = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+const NUMBER_WORDS = new Map([
+  ['a', 1],
+  ['an', 1],
+  ['one', 1],
+  ['two', 2],
+  ['three', 3],
+  ['four', 4],
+  ['five', 5],
+  ['six', 6],
+  ['seven', 7],
+  ['eight', 8],
+  ['nine', 9],
+  ['ten', 10],
+  ['eleven', 11],
+  ['twelve', 12],
+]);
+
+/**
+ * Days from today for fixed expressions
+ */
+const FIXED_OFFSETS = new Map([
+  ['today', 0],
+  ['tomorrow', 1],
+  ['yesterday', -1],
+  ['the day after tomorrow', 2],
+  ['day after tomorrow', 2],
+  ['the day before yesterday', -2],
+  ['day before yesterday', -2],
+]);
+
+/**
+ * "in two weeks", "3 days from now", "a month ago"
+ */
+const SPAN_REGEX =
+  /^(?:in\s+)?(\d+|[a-z]+)\s+(day|week|month|year)s?(\s+(?:from\s+now|ago))?$/;
+
+/**
+ * "friday", "on friday", "this friday", "next friday", "last friday"
+ */
+const WEEKDAY_REGEX = /^(?:(on|this|next|last)\s+)?([a-z]+)$/;
+
+/**
+ * Relative date phrases inside free text ("tomorrow works", "say next
+ * Tuesday"), in the forms resolveRelativeDate understands
+ */
+const RELATIVE_CANDIDATE_REGEX =
+  /\b(?:(?:the\s+)?day\s+(?:after\s+tomorrow|before\s+yesterday)|today|tomorrow|yesterday|in\s+(?:\d+|[a-z]+)\s+(?:day|week|month|year)s?|(?:\d+|[a-z]+)\s+(?:day|week|month|year)s?\s+(?:from\s+now|ago)|(?:(?:on|this|next|last)\s+)?(?:sun|mon|tues|wednes|thurs|fri|satur)day)\b/gi;
+
+/**
+ * Reads the calendar date of an instant in a timezone
+ *
+ * @param now - Reference instant
+ * @param timeZone - IANA timezone of the user
+ * @returns Today's date for the user
+ */
+export function getCalendarDate(now: Date, timeZone: string): CalendarDate {
+  const { year, month, day } = toWallClock(now, timeZone);
+  return { year, month, day };
+}
+
+/**
+ * Moves a date by a number of days and months
+ * Month steps keep the day, clamped to the end of shorter
+ * months (January 31st + 1 month = February 28th or 29th).
+ */
+function addToDate(
+  date: CalendarDate,
+  step: { days?: number; months?: number }
+): CalendarDate {
+  const monthIndex = date.year * 12 + date.month - 1 + (step.months ?? 0);
+  const year = Math.floor(monthIndex / 12);
+  const month = (monthIndex % 12) + 1;
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const shifted = new Date(
+    Date.UTC(year, month - 1, Math.min(date.day, lastDay) + (step.days ?? 0))
+  );
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  };
+}
+
+/**
+ * Resolves "in N units", "N units from now" and "N units ago"
+ */
+function resolveSpan(text: string, today: CalendarDate): CalendarDate | null {
+  const match = SPAN_REGEX.exec(text);
+  const count = match && (NUMBER_WORDS.get(match[1]!) ?? Number(match[1]));
+  // A span needs exactly one direction: "in two weeks", "two weeks ago"
+  if (!match || !count || text.startsWith('in ') === Boolean(match[3])) {
+    return null;
+  }
+
+  const signed = match[3]?.trim() === 'ago' ? -count : count;
+  switch (match[2]) {
+    case 'day':
+      return addToDate(today, { days: signed });
+    case 'week':
+      return addToDate(today, { days: signed * 7 });
+    case 'month':
+      return addToDate(today, { months: signed });
+    default:
+      return addToDate(today, { months: signed * 12 });
+  }
+}
+
+/**
+ * Resolves a weekday name
+ * "friday", "on friday" and "next friday" mean the first Friday after
+ * today; "this friday" may be today; "last friday" is the latest one
+ * before today.
+ */
+function resolveWeekday(
+  text: string,
+  today: CalendarDate
+): CalendarDate | null {
+  const match = WEEKDAY_REGEX.exec(text);
+  const target = match ? WEEKDAYS.indexOf(match[2]!) : -1;
+  if (!match || target < 0) {
+    return null;
+  }
+
+  const current = new Date(
+    Date.UTC(today.year, today.month - 1, today.day)
+  ).getUTCDay();
+  const ahead = (target - current + 7) % 7;
+  if (match[1] === 'last') {
+    return addToDate(today, { days: ahead - 7 });
+  }
+  if (match[1] === 'this') {
+    return addToDate(today, { days: ahead });
+  }
+  return addToDate(today, { days: ahead === 0 ? 7 : ahead });
+}
+
+/**
+ * Resolves a relative date against today's date
+ *
+ * Understands "today", "tomorrow", "yesterday", "the day after
+ * tomorrow", "in two weeks", "3 days from now", "a month ago" and
+ * weekday names ("Tuesday", "next Tuesday", "this Friday", "last
+ * Monday"). The same text and reference always give the same date.
+ *
+ * @param text - Relative date as the user wrote it
+ * @param today - Reference date in the user's timezone
+ * @returns Resolved date, or null if the text is not a relative date
+ *
+ * @example
+ * ```typescript
+ * resolveRelativeDate('next Tuesday', { year: 2024, month: 3, day: 7 });
+ * // { year: 2024, month: 3, day: 12 }
+ * ```
+ */
+export function resolveRelativeDate(
+  text: string,
+  today: CalendarDate
+): CalendarDate | null {
+  const normalized = text
+    .trim()
+    .toLowerCase()
+    .replace(/[.!]$/, '')
+    .replace(/\s+/g, ' ');
+  const offset = FIXED_OFFSETS.get(normalized);
+  if (offset !== undefined) {
+    return addToDate(today, { days: offset });
+  }
+  return resolveSpan(normalized, today) ?? resolveWeekday(normalized, today);
+}
+
+/**
+ * Resolves every relative date phrase found in free text
+ *
+ * @param text - What the user wrote
+ * @param today - Reference date in the user's timezone
+ * @returns Dates the text refers to, in order of appearance
+ */
+export function findRelativeDates(
+  text: string,
+  today: CalendarDate
+): CalendarDate[] {
+  return (text.match(RELATIVE_CANDIDATE_REGEX) ?? [])
+    .map((candidate) => resolveRelativeDate(candidate, today))
+    .filter((date): date is CalendarDate => date !== null);
+}
@@ -0,0 +1,273 @@
+/**
+ * Timezone-aware date and time helpers for DATETIME values
+ *
+ * Zones are IANA names resolved with Intl, so no timezone data is
+ * bundled. A DATETIME value is stored as a string carrying both the
+ * instant and the zone the user meant it in:
+ * "2024-03-05T15:30:00-05:00[America/New_York]".
+ *
+ * @module zoned-time
+ */
+
+import type { FormDefinition, Session } from '../types';
+import { ClientError } from '../types';
+
+/**
+ * Timezone used when neither the session nor the form names one
+ */
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+const MINUTE_MS = 60_000;
+
+const DAY_MS = 86_400_000;
+
+/**
+ * "2024-03-05T15:30:00-05:00[America/New_York]"
+ */
+const ZONED_DATE_TIME_REGEX =
+  /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})([+-])(\d{2}):(\d{2})\[([^\]]+)\]$/;
+
+/**
+ * Date and time as shown on a clock in some timezone
+ */
+export interface WallClock {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  /** 0-23 */
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Formatters by timezone; creating one is comparatively slow
+ */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Returns a formatter giving the numeric wall clock in a timezone
+ *
+ * @param timeZone - IANA timezone
+ * @returns Cached formatter
+ * @throws RangeError if the timezone is unknown
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Checks whether a string names a timezone known to the runtime
+ *
+ * @param timeZone - IANA timezone (e.g. "Europe/Paris")
+ * @returns True if Intl accepts the timezone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Picks the timezone for a session's DATETIME answers: the session's,
+ * then the form's, then UTC
+ *
+ * @param form - Form definition
+ * @param session - Current session state
+ * @returns IANA timezone
+ * @throws ClientError if the chosen timezone is unknown
+ */
+export function resolveTimeZone(
+  form: FormDefinition,
+  session: Session
+): string {
+  const timeZone = session.timeZone ?? form.timeZone ?? DEFAULT_TIME_ZONE;
+  if (!isValidTimeZone(timeZone)) {
+    throw new ClientError(
+      `Unknown timezone: ${timeZone}`,
+      400,
+      'INVALID_TIMEZONE',
+      { timeZone }
+    );
+  }
+  return timeZone;
+}
+
+/**
+ * Checks that a wall clock names a real calendar date and time of day
+ *
+ * @param clock - Wall clock to check
+ * @returns False for e.g. February 30th or 24:00
+ */
+export function isValidWallClock(clock: WallClock): boolean {
+  const date = new Date(Date.UTC(clock.year, clock.month - 1, clock.day));
+  return (
+    date.getUTCFullYear() === clock.year &&
+    date.getUTCMonth() === clock.month - 1 &&
+    date.getUTCDate() === clock.day &&
+    clock.hour <= 23 &&
+    clock.minute <= 59 &&
+    clock.second <= 59
+  );
+}
+
+/**
+ * Reads the wall clock of an instant in a timezone
+ *
+ * @param instant - Point in time
+ * @param timeZone - IANA timezone
+ * @returns Wall clock (seconds precision)
+ */
+export function toWallClock(instant: Date, timeZone: string): WallClock {
+  const parts = getFormatter(timeZone).formatToParts(instant);
+  const read = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find((part) => part.type === type)?.value);
+  return {
+    year: read('year'),
+    month: read('month'),
+    day: read('day'),
+    hour: read('hour'),
+    minute: read('minute'),
+    second: read('second'),
+  };
+}
+
+/**
+ * Milliseconds of a wall clock read as if it were UTC
+ */
+function wallClockTime(clock: WallClock): number {
+  return Date.UTC(
+    clock.year,
+    clock.month - 1,
+    clock.day,
+    clock.hour,
+    clock.minute,
+    clock.second
+  );
+}
+
+/**
+ * Offset of a timezone from UTC at an instant
+ *
+ * @param instant - Point in time
+ * @param timeZone - IANA timezone
+ * @returns Minutes ahead of UTC (negative west of Greenwich)
+ */
+function getOffsetMinutes(instant: Date, timeZone: string): number {
+  const seconds = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round(
+    (wallClockTime(toWallClock(instant, timeZone)) - seconds) / MINUTE_MS
+  );
+}
+
+/**
+ * Finds the instant a wall clock shows in a timezone
+ *
+ * A time skipped by a daylight saving change (02:30 when clocks jump
+ * from 02:00 to 03:00) has no instant. A time repeated when clocks go
+ * back resolves to its first occurrence.
+ *
+ * @param clock - Wall clock the user meant
+ * @param timeZone - IANA timezone
+ * @returns The instant, or null if the time does not exist in the zone
+ */
+export function fromWallClock(
+  clock: WallClock,
+  timeZone: string
+): Date | null {
+  const local = wallClockTime(clock);
+  // The offsets in force a day either side cover both sides of a change
+  const candidates = [local - DAY_MS, local + DAY_MS]
+    .map(
+      (probe) =>
+        local - getOffsetMinutes(new Date(probe), timeZone) * MINUTE_MS
+    )
+    .filter(
+      (time) => wallClockTime(toWallClock(new Date(time), timeZone)) === local
+    )
+    .sort((a, b) => a - b);
+  return candidates.length > 0 ? new Date(candidates[0]!) : null;
+}
+
+/**
+ * Pads a number with leading zeros
+ */
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+/**
+ * Formats an instant as a DATETIME value in a timezone
+ *
+ * @param instant - Point in time
+ * @param timeZone - IANA timezone the value is shown in
+ * @returns e.g. "2024-03-05T15:30:00-05:00[America/New_York]"
+ *
+ * @example
+ * ```typescript
+ * formatZonedDateTime(new Date('2024-03-05T20:30:00Z'), 'America/New_York');
+ * // "2024-03-05T15:30:00-05:00[America/New_York]"
+ * ```
+ */
+export function formatZonedDateTime(instant: Date, timeZone: string): string {
+  const clock = toWallClock(instant, timeZone);
+  const offset = getOffsetMinutes(instant, timeZone);
+  const sign = offset < 0 ? '-' : '+';
+  const abs = Math.abs(offset);
+  return (
+    `${pad(clock.year, 4)}-${pad(clock.month)}-${pad(clock.day)}` +
+    `T${pad(clock.hour)}:${pad(clock.minute)}:${pad(clock.second)}` +
+    `${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}[${timeZone}]`
+  );
+}
+
+/**
+ * Reads a DATETIME value
+ * The offset must be the one the zone has at that wall-clock time, so
+ * the instant and the wall clock the user meant always agree.
+ *
+ * @param value - Value as stored in the session
+ * @returns Instant, zone and wall clock, or null if malformed
+ */
+export function parseZonedDateTime(
+  value: string
+): { instant: Date; timeZone: string; wallClock: WallClock } | null {
+  const match = ZONED_DATE_TIME_REGEX.exec(value);
+  if (!match || !isValidTimeZone(match[10]!)) {
+    return null;
+  }
+
+  const [year, month, day, hour, minute, second] = match
+    .slice(1, 7)
+    .map(Number) as [number, number, number, number, number, number];
+  const wallClock = { year, month, day, hour, minute, second };
+  const offset =
+    (match[7] === '-' ? -1 : 1) *
+    (Number(match[8]) * 60 + Number(match[9]));
+  const instant = new Date(wallClockTime(wallClock) - offset * MINUTE_MS);
+  if (
+    !isValidWallClock(wallClock) ||
+    getOffsetMinutes(instant, match[10]!) !== offset
+  ) {
+    return null;
+  }
+  return { instant, timeZone: match[10]!, wallClock };
+}
@@ -7,17 +7,64 @@
 // Re-export all types
 export type {
   FieldValue,
+  SimpleFieldValue,
+  CompositeValue,
+  SubField,
+  FieldCondition,
+  FieldTypeName,
+  CalendarDate,
+  FieldTypeContext,
+  FieldTypePlugin,
+  FieldTypeRegistry,
   FormField,
   FormDefinition,
+  FormRule,
+  SessionLimitName,
+  SessionLimits,
+  PiiDetector,
+  RedactionPolicy,
+  GroundingAction,
+  GroundingPolicy,
+  ConsentRecord,
+  ConsentTerms,
+  InjectionAction,
+  InjectionPattern,
+  InjectionPolicy,
+  LocalExtractionPolicy,
+  Clock,
   Session,
   SessionField,
+  FieldRevision,
+  FormSubmission,
   SessionTurn,
   ValidationRule,
   ValidationResult,
+  ValidationContext,
+  RuleViolation,
+  JsonSchema,
+  LlmCallOptions,
   LlmClient,
   LlmMessage,
   LlmResponse,
+  LlmUsage,
+  ModelPrice,
+  PriceTable,
+  SessionUsage,
+  UsageCost,
+  UsageRecord,
+  UsageTotals,
+  LlmStreamChunk,
+  LlmStepStreamEvent,
+  HistoryBudget,
+  NextFieldOptions,
   OrchestratorResult,
+  ParseDiagnostic,
+  ParsingMode,
+  RejectedField,
+  RepairPolicy,
+  RunLlmStepOptions,
+  SystemPromptOptions,
+  TokenEstimator,
 } from './types';
 
 export { FieldType, SessionStatus, TurnRole, ClientError } from './types';
@@ -31,19 +78,122 @@ export {
   validatePhone,
   validateNumber,
   validateDate,
+  validateDateTime,
+  validateTime,
   validateEnum,
+  validateMultiSelect,
+  validateConsent,
+  validateText,
+  validatePattern,
   validateField,
+  validatePart,
+  validateFieldDefinition,
+  validateFormRules,
+  validateFormRuleDefinitions,
 } from './validation';
 
+/**
+ * Field type registry for custom field type plugins
+ * Built-in types (and their normalizers and grounding matchers) are
+ * registered the same way
+ */
+export {
+  createFieldTypeRegistry,
+  BUILT_IN_FIELD_TYPES,
+  isExplicitConsent,
+  findConsentClauses,
+  normalizeBoolean,
+  normalizeConsent,
+  normalizeDate,
+  normalizeDateTime,
+  normalizeEnum,
+  normalizeMultiSelect,
+  normalizeNumber,
+  normalizePhone,
+  normalizeTime,
+  isBooleanGrounded,
+  isConsentGrounded,
+  isDateGrounded,
+  isDateTimeGrounded,
+  isNumberGrounded,
+  isPhoneGrounded,
+  isSelectionGrounded,
+  isTextGrounded,
+  isTimeGrounded,
+  getMissingParts,
+  isCompositeValue,
+  DEFAULT_TIME_ZONE,
+  formatZonedDateTime,
+  isValidTimeZone,
+  parseZonedDateTime,
+  resolveTimeZone,
+  resolveRelativeDate,
+  findRelativeDates,
+} from './field-types';
+
+/**
+ * Conditional field visibility (branching forms)
+ */
+export { evaluateCondition, isFieldVisible } from './conditions';
+
 /**
  * Orchestrator functions for conversational form collection
- * Primary entry point: runLlmStep
+ * Primary entry point: runLlmStep (runLlmStepStream to stream the bot response)
  * Helper functions: buildConversationHistory, buildFieldContext, buildSystemPrompt, determineNextField
+ * Structured output: buildResponseSchema
+ * History budgeting: estimateTokens, buildHistorySummary
  */
 export {
   runLlmStep,
+  runLlmStepStream,
   determineNextField,
   buildSystemPrompt,
   buildConversationHistory,
   buildFieldContext,
+  buildResponseSchema,
+  buildHistorySummary,
+  estimateTokens,
 } from './orchestrator';
+
+/**
+ * Session reducer for applying orchestrator results
+ * Returns the next immutable Session after a runLlmStep turn,
+ * and builds the final submission from a session
+ */
+export { applyStep, buildSubmission } from './session';
+
+/**
+ * Token usage and cost accounting
+ * applyStep accumulates Session.usage; price it with calculateCost
+ */
+export {
+  accumulateUsage,
+  calculateCost,
+  sumUsage,
+  EMPTY_USAGE,
+} from './usage';
+
+/**
+ * Opt-in PII redaction (RunLlmStepOptions.redaction)
+ * Built-in detectors, plus the helpers runLlmStep uses to swap values
+ * for placeholders and back
+ */
+export {
+  BUILT_IN_PII_DETECTORS,
+  EMAIL_DETECTOR,
+  PHONE_DETECTOR,
+  redactMessages,
+  restoreResponse,
+  restoreText,
+} from './redaction';
+export type { PlaceholderMap } from './redaction';
+
+/**
+ * Opt-in prompt-injection hardening (RunLlmStepOptions.injection)
+ */
+export {
+  BUILT_IN_INJECTION_PATTERNS,
+  delimitUserMessages,
+  detectInjection,
+  stripInjection,
+} from './injection';
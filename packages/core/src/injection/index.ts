@@ -0,0 +1,10 @@
+/**
+ * Injection module barrel export
+ */
+
+export { BUILT_IN_INJECTION_PATTERNS } from './patterns';
+export {
+  delimitUserMessages,
+  detectInjection,
+  stripInjection,
+} from './guard';
@@ -0,0 +1,40 @@
+/**
+ * Built-in prompt-injection patterns
+ *
+ * @module patterns
+ */
+
+import type { InjectionPattern } from '../types';
+
+/**
+ * Patterns used when an InjectionPolicy does not list its own
+ * They target well-known phrasings only; a determined attacker can
+ * word around them, which is why user content is also delimited.
+ */
+export const BUILT_IN_INJECTION_PATTERNS: readonly InjectionPattern[] = [
+  {
+    name: 'IGNORE_INSTRUCTIONS',
+    pattern:
+      /\b(?:ignore|disregard|forget|override)\s+(?:all\s+|any\s+)?(?:the\s+|of\s+)?(?:previous|prior|above|earlier|your|these|system)\s+(?:instructions|rules|prompts?|directions)\b/i,
+  },
+  {
+    name: 'ROLE_OVERRIDE',
+    pattern:
+      /\b(?:you are now|from now on,? you|pretend (?:to be|you are)|act as (?:an?|the) (?!user\b))/i,
+  },
+  {
+    name: 'PROMPT_DISCLOSURE',
+    pattern:
+      /\b(?:reveal|show|print|repeat)\s+(?:me\s+)?(?:your|the)\s+(?:system\s+)?(?:prompt|instructions)\b/i,
+  },
+  {
+    name: 'FORCE_COMPLETION',
+    pattern:
+      /\b(?:mark|set|consider|treat)\s+(?:the\s+|this\s+)?form\s+(?:as\s+)?(?:complete|completed|done|finished|submitted)\b/i,
+  },
+  {
+    name: 'FAKE_ROLE_MARKER',
+    pattern:
+      /<\/?\s*(?:system|assistant|user_message)\s*>|^\s*(?:system|assistant)\s*:/im,
+  },
+];
@@ -0,0 +1,73 @@
+/**
+ * Consent check: CONSENT fields only accept explicit agreement
+ *
+ * @module consent
+ */
+
+import type { FieldValue, FormDefinition, RejectedField } from '../types';
+import { FieldType } from '../types';
+import { findConsentClauses } from '../field-types';
+
+/**
+ * Error reported for consent the user did not give explicitly
+ */
+const IMPLICIT_CONSENT_ERROR = 'Consent must be given explicitly';
+
+/**
+ * Rejects consent the LLM read into a message that does not agree
+ * explicitly
+ *
+ * Always applied, whatever the grounding policy: a CONSENT value of
+ * true is only accepted when a clause of the current message itself
+ * says "yes", "I agree", "I consent", "I accept" or "agreed" without a
+ * negation or hedge, and that clause answers the field (see
+ * findConsentClauses), so the stored utterance is proof of the consent.
+ * "Yes to the privacy policy, no to marketing" accepts the privacy
+ * consent only, and a bare "Yes" accepts a single consent.
+ *
+ * @param form - Form definition
+ * @param userMessage - User's message for this step
+ * @param fields - Accepted, raw and rejected values from validation
+ * @returns The same sets with implicit consent moved to rejected
+ */
+export function checkConsent(
+  form: FormDefinition,
+  userMessage: string,
+  fields: {
+    accepted: Record<string, FieldValue>;
+    raw: Record<string, FieldValue>;
+    rejected: RejectedField[];
+  }
+): {
+  accepted: Record<string, FieldValue>;
+  raw: Record<string, FieldValue>;
+  rejected: RejectedField[];
+} {
+  const consentFields = form.fields.filter(
+    (f) => f.type === FieldType.CONSENT
+  );
+  const claimed = new Set(
+    consentFields
+      .filter((f) => fields.accepted[f.name] === true)
+      .map((f) => f.name)
+  );
+  const clauses = findConsentClauses(consentFields, claimed, userMessage);
+
+  const accepted = { ...fields.accepted };
+  const raw = { ...fields.raw };
+  const rejected = [...fields.rejected];
+  for (const field of consentFields) {
+    if (!claimed.has(field.name) || clauses.has(field.name)) {
+      continue;
+    }
+    rejected.push({
+      fieldName: field.name,
+      value: raw[field.name] ?? true,
+      error: IMPLICIT_CONSENT_ERROR,
+    });
+    delete accepted[field.name];
+    delete raw[field.name];
+  }
+
+  return { accepted, raw, rejected };
+}
@@ -0,0 +1,174 @@
+/**
+ * Incremental scanner that pulls the botResponse text out of a
+ * partially received JSON envelope
+ *
+ * @module envelope-scanner
+ */
+
+/**
+ * Scanner position within the streamed JSON envelope
+ * Treat as opaque; start from INITIAL_SCAN_STATE and thread the
+ * state returned by each scanEnvelopeChunk call into the next one.
+ */
+export interface EnvelopeScanState {
+  /** Object/array nesting depth (1 = inside the top-level object) */
+  depth: number;
+  /** Next string at depth 1 is a property name */
+  expectKey: boolean;
+  /** Currently inside a string literal */
+  inString: boolean;
+  /** Current string is a top-level property name */
+  readingKey: boolean;
+  /** Current string is the top-level botResponse value */
+  streaming: boolean;
+  /** Pending escape sequence (e.g. "\\u00"), or '' when none */
+  escape: string;
+  /** Top-level property name read so far */
+  key: string;
+  /** Most recent complete top-level property name */
+  lastKey: string;
+}
+
+/**
+ * State before the first chunk has been scanned
+ */
+export const INITIAL_SCAN_STATE: EnvelopeScanState = {
+  depth: 0,
+  expectKey: false,
+  inString: false,
+  readingKey: false,
+  streaming: false,
+  escape: '',
+  key: '',
+  lastKey: '',
+};
+
+/**
+ * Single-character JSON escapes and the characters they stand for
+ */
+const SIMPLE_ESCAPES: Readonly<Record<string, string>> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+/**
+ * Decodes a complete escape sequence
+ *
+ * @param escape - Escape sequence including the backslash
+ * @returns Decoded text, or null if more characters are needed
+ */
+function decodeEscape(escape: string): string | null {
+  const kind = escape[1] ?? '';
+  if (kind !== 'u') {
+    return SIMPLE_ESCAPES[kind] ?? kind;
+  }
+  if (escape.length < 6) {
+    return null;
+  }
+  return String.fromCharCode(parseInt(escape.slice(2), 16));
+}
+
+/**
+ * Advances the scanner over one character outside string literals
+ *
+ * @param state - Scanner state (mutated)
+ * @param char - Next character of the envelope
+ */
+function scanStructural(state: EnvelopeScanState, char: string): void {
+  switch (char) {
+    case '{':
+    case '[':
+      state.depth++;
+      state.expectKey = state.depth === 1 && char === '{';
+      break;
+    case '}':
+    case ']':
+      state.depth--;
+      break;
+    case ',':
+      state.expectKey = state.depth === 1;
+      break;
+    case ':':
+      state.expectKey = false;
+      break;
+    case '"':
+      state.inString = true;
+      state.readingKey = state.depth === 1 && state.expectKey;
+      state.streaming =
+        state.depth === 1 && !state.expectKey && state.lastKey === 'botResponse';
+      state.key = '';
+      break;
+  }
+}
+
+/**
+ * Advances the scanner over one character inside a string literal
+ *
+ * @param state - Scanner state (mutated)
+ * @param char - Next character of the envelope
+ * @returns Decoded botResponse text produced by this character
+ */
+function scanString(state: EnvelopeScanState, char: string): string {
+  let text: string | null = char;
+
+  if (state.escape !== '') {
+    state.escape += char;
+    text = decodeEscape(state.escape);
+    if (text === null) {
+      return '';
+    }
+    state.escape = '';
+  } else if (char === '\\') {
+    state.escape = char;
+    return '';
+  } else if (char === '"') {
+    state.inString = false;
+    if (state.readingKey) {
+      state.lastKey = state.key;
+    }
+    state.readingKey = false;
+    state.streaming = false;
+    return '';
+  }
+
+  if (state.readingKey) {
+    state.key += text;
+  }
+  return state.streaming ? text : '';
+}
+
+/**
+ * Scans the next chunk of a streamed JSON envelope
+ *
+ * Only the string value of the top-level "botResponse" property is
+ * reported; everything else is tracked just enough to find it. The
+ * envelope is not validated here - parse the full content once the
+ * stream ends.
+ *
+ * @param state - State returned by the previous call
+ * @param chunk - Next piece of the response content
+ * @returns Next state and the decoded botResponse text in this chunk
+ */
+export function scanEnvelopeChunk(
+  state: EnvelopeScanState,
+  chunk: string
+): { state: EnvelopeScanState; delta: string } {
+  const next = { ...state };
+  let delta = '';
+
+  for (const char of chunk) {
+    if (next.inString) {
+      delta += scanString(next, char);
+    } else {
+      scanStructural(next, char);
+    }
+  }
+
+  return { state: next, delta };
+}
@@ -0,0 +1,382 @@
+/**
+ * Post-processing of fields extracted by the LLM
+ *
+ * @module extraction
+ */
+
+import type {
+  CompositeValue,
+  FieldTypeContext,
+  FieldTypeRegistry,
+  FieldValue,
+  FormDefinition,
+  FormField,
+  RejectedField,
+  Session,
+  SimpleFieldValue,
+  SystemPromptOptions,
+  ValidationContext,
+} from '../types';
+import { validateField, validatePart } from '../validation';
+import {
+  isCompositeValue,
+  resolveFieldType,
+  resolveTimeZone,
+  toSubFormField,
+} from '../field-types';
+import {
+  getCollectedValues,
+  isCompositeExtension,
+  isSameFieldValue,
+} from '../session';
+import { getReferenceTime } from './prompt-builder';
+
+/**
+ * Splits extracted field values into accepted and rejected sets
+ * Invalid values are reported instead of failing the whole turn,
+ * so other valid fields from the same message are kept.
+ *
+ * Each value is first normalized by its field type plugin (if the
+ * plugin defines a normalizer), then validated; accepted fields keep
+ * their raw value alongside the normalized one. Parts of a COMPOSITE
+ * field are normalized by their own types and merged into the parts
+ * collected earlier, so the whole value is validated; an invalid part
+ * is rejected on its own (as "<field>.<part>") and the valid parts given
+ * with it are kept. Visibility conditions are evaluated
+ * against the session's answers combined with this turn's values, so a
+ * field unlocked by an answer in the same message is accepted. Dates
+ * and times are read in the session's (or form's) timezone, and
+ * relative dates are resolved against the reference clock.
+ *
+ * @param form - Form definition
+ * @param session - Current session state
+ * @param extractedFields - Parsed field values keyed by field name
+ * @param options - Field type registry and reference clock
+ * @returns Valid (normalized) fields and their raw values keyed by name,
+ *   plus rejected fields with errors
+ * @throws ClientError if the session's or form's timezone is unknown
+ */
+export function partitionExtractedFields(
+  form: FormDefinition,
+  session: Session,
+  extractedFields: Record<string, FieldValue>,
+  options: SystemPromptOptions = {}
+): {
+  accepted: Record<string, FieldValue>;
+  raw: Record<string, FieldValue>;
+  rejected: RejectedField[];
+} {
+  const fieldMap = new Map(form.fields.map((f) => [f.name, f]));
+  const collected = getCollectedValues(form, session);
+  const { fieldTypes } = options;
+  const timeZone = resolveTimeZone(form, session);
+  const normalized = normalizeExtractedFields(
+    fieldMap,
+    extractedFields,
+    collected,
+    { timeZone, now: getReferenceTime(options) },
+    fieldTypes
+  );
+  const parts = setAsideInvalidParts(
+    fieldMap,
+    extractedFields,
+    normalized,
+    collected,
+    { fieldTypes, timeZone }
+  );
+  const values = { ...collected, ...parts.normalized };
+  const accepted: Record<string, FieldValue> = {};
+  const raw: Record<string, FieldValue> = {};
+  const rejected: RejectedField[] = parts.rejected;
+
+  for (const [fieldName, rawValue] of Object.entries(parts.extracted)) {
+    const fieldValue = parts.normalized[fieldName] ?? null;
+    const validationResult = validateField(fieldMap.get(fieldName)!, fieldValue, {
+      values,
+      fieldTypes,
+      timeZone,
+    });
+
+    if (validationResult.valid) {
+      accepted[fieldName] = fieldValue;
+      raw[fieldName] = rawValue;
+    } else {
+      rejected.push({
+        fieldName,
+        value: rawValue,
+        error: validationResult.error,
+      });
+    }
+  }
+
+  return { accepted, raw, rejected };
+}
+
+/**
+ * Applies a field type plugin's normalizer to one value
+ * Null values and types without a normalizer pass through unchanged.
+ *
+ * @param field - Field definition
+ * @param value - Value as returned by the LLM
+ * @param context - Timezone of the user and reference time
+ * @param fieldTypes - Registry for custom field types (defaults to built-ins)
+ * @returns Normalized value
+ */
+function normalizeValue(
+  field: FormField,
+  value: SimpleFieldValue,
+  context: FieldTypeContext,
+  fieldTypes?: FieldTypeRegistry
+): SimpleFieldValue {
+  const plugin = resolveFieldType(field, fieldTypes);
+  return value !== null && plugin.normalize
+    ? plugin.normalize(value, field, context)
+    : value;
+}
+
+/**
+ * Normalizes the parts of a COMPOSITE value and merges them into the
+ * parts collected earlier (unknown parts are kept for validation)
+ *
+ * @param field - COMPOSITE field definition
+ * @param value - Parts as returned by the LLM
+ * @param collected - Value collected so far, if any
+ * @param context - Timezone of the user and reference time
+ * @param fieldTypes - Registry for custom field types (defaults to built-ins)
+ * @returns Merged composite value
+ */
+function normalizeComposite(
+  field: FormField,
+  value: CompositeValue,
+  collected: FieldValue | undefined,
+  context: FieldTypeContext,
+  fieldTypes?: FieldTypeRegistry
+): CompositeValue {
+  const merged: CompositeValue = isCompositeValue(collected)
+    ? { ...collected }
+    : {};
+  for (const [name, part] of Object.entries(value)) {
+    const subField = field.subFields?.find((s) => s.name === name);
+    merged[name] = subField
+      ? normalizeValue(
+          toSubFormField(field, subField),
+          part,
+          context,
+          fieldTypes
+        )
+      : part;
+  }
+  return merged;
+}
+
+/**
+ * Applies each field type plugin's normalizer to the extracted values
+ *
+ * @param fieldMap - Field definitions keyed by name
+ * @param extractedFields - Parsed field values keyed by field name
+ * @param collected - Values collected so far, keyed by field name
+ * @param context - Timezone of the user and reference time
+ * @param fieldTypes - Registry for custom field types (defaults to built-ins)
+ * @returns Normalized values keyed by field name
+ */
+function normalizeExtractedFields(
+  fieldMap: ReadonlyMap<string, FormField>,
+  extractedFields: Record<string, FieldValue>,
+  collected: Record<string, FieldValue>,
+  context: FieldTypeContext,
+  fieldTypes?: FieldTypeRegistry
+): Record<string, FieldValue> {
+  const normalized: Record<string, FieldValue> = {};
+
+  for (const [fieldName, rawValue] of Object.entries(extractedFields)) {
+    const fieldDef = fieldMap.get(fieldName)!;
+    if (!isCompositeValue(rawValue)) {
+      normalized[fieldName] = normalizeValue(
+        fieldDef,
+        rawValue,
+        context,
+        fieldTypes
+      );
+    } else if (fieldDef.subFields) {
+      normalized[fieldName] = normalizeComposite(
+        fieldDef,
+        rawValue,
+        collected[fieldName],
+        context,
+        fieldTypes
+      );
+    } else {
+      // Parts given for a field without sub-fields fail validation
+      normalized[fieldName] = rawValue;
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * Removes the invalid parts of one COMPOSITE value
+ * A removed part falls back to the value collected earlier, if any.
+ *
+ * @param field - COMPOSITE field definition
+ * @param given - Parts as returned by the LLM
+ * @param merged - Normalized parts merged with the collected ones
+ * @param collected - Value collected so far, if any
+ * @param context - Field type registry and timezone
+ * @returns Valid given and merged parts, plus the rejected parts
+ */
+function removeInvalidParts(
+  field: FormField,
+  given: CompositeValue,
+  merged: CompositeValue,
+  collected: FieldValue | undefined,
+  context: ValidationContext
+): { given: CompositeValue; merged: CompositeValue; rejected: RejectedField[] } {
+  const previous = isCompositeValue(collected) ? collected : {};
+  const result = {
+    given: { ...given },
+    merged: { ...merged },
+    rejected: [] as RejectedField[],
+  };
+
+  for (const name of Object.keys(given)) {
+    const check = validatePart(field, name, merged[name] ?? null, context);
+    if (check.valid) {
+      continue;
+    }
+    result.rejected.push({
+      fieldName: `${field.name}.${name}`,
+      value: given[name] ?? null,
+      error: check.error,
+    });
+    delete result.given[name];
+    delete result.merged[name];
+    if (name in previous) {
+      result.merged[name] = previous[name]!;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Removes the invalid parts of COMPOSITE values, so the valid parts
+ * given in the same message are still accepted
+ * A field whose given parts are all invalid is removed entirely.
+ *
+ * @param fieldMap - Field definitions keyed by name
+ * @param extractedFields - Parsed field values keyed by field name
+ * @param normalized - Normalized values keyed by field name
+ * @param collected - Values collected so far, keyed by field name
+ * @param context - Field type registry and timezone
+ * @returns Raw and normalized values without the invalid parts, plus
+ *   the rejected parts named "<field>.<part>"
+ */
+function setAsideInvalidParts(
+  fieldMap: ReadonlyMap<string, FormField>,
+  extractedFields: Record<string, FieldValue>,
+  normalized: Record<string, FieldValue>,
+  collected: Record<string, FieldValue>,
+  context: ValidationContext
+): {
+  extracted: Record<string, FieldValue>;
+  normalized: Record<string, FieldValue>;
+  rejected: RejectedField[];
+} {
+  const extracted = { ...extractedFields };
+  const kept = { ...normalized };
+  const rejected: RejectedField[] = [];
+
+  for (const [fieldName, rawValue] of Object.entries(extractedFields)) {
+    const fieldDef = fieldMap.get(fieldName)!;
+    const merged = normalized[fieldName];
+    if (!fieldDef.subFields || !isCompositeValue(rawValue)) {
+      continue;
+    }
+    const parts = removeInvalidParts(
+      fieldDef,
+      rawValue,
+      isCompositeValue(merged) ? merged : {},
+      collected[fieldName],
+      context
+    );
+    if (parts.rejected.length === 0) {
+      continue;
+    }
+    rejected.push(...parts.rejected);
+    if (Object.keys(parts.given).length === 0) {
+      delete extracted[fieldName];
+      delete kept[fieldName];
+    } else {
+      extracted[fieldName] = parts.given;
+      kept[fieldName] = parts.merged;
+    }
+  }
+
+  return { extracted, normalized: kept, rejected };
+}
+
+/**
+ * Splits fields the LLM reported as declined into accepted and rejected sets
+ * Only optional fields may be declined. A field that also has an
+ * extracted value this turn is not treated as declined.
+ *
+ * @param form - Form definition
+ * @param declinedFields - Field names the LLM reported as declined
+ * @param extractedFields - Parsed field values keyed by field name
+ * @returns Accepted decline names, plus rejected declines with errors
+ */
+export function partitionDeclinedFields(
+  form: FormDefinition,
+  declinedFields: readonly string[],
+  extractedFields: Record<string, FieldValue>
+): { accepted: string[]; rejected: RejectedField[] } {
+  const accepted: string[] = [];
+  const rejected: RejectedField[] = [];
+
+  for (const fieldName of new Set(declinedFields)) {
+    const fieldDef = form.fields.find((f) => f.name === fieldName)!;
+
+    if (fieldName in extractedFields) {
+      continue;
+    }
+    if (fieldDef.required) {
+      rejected.push({
+        fieldName,
+        value: null,
+        error: 'Field is required and cannot be declined',
+      });
+    } else {
+      accepted.push(fieldName);
+    }
+  }
+
+  return { accepted, rejected };
+}
+
+/**
+ * Lists accepted fields whose value differs from one already collected
+ *
+ * @param form - Form definition
+ * @param session - Current session state
+ * @param extractedFields - Accepted field values keyed by field name
+ * @returns Names of fields being corrected this turn
+ */
+export function findCorrectedFields(
+  form: FormDefinition,
+  session: Session,
+  extractedFields: Record<string, FieldValue>
+): string[] {
+  return Object.entries(extractedFields)
+    .filter(([name, value]) => {
+      const fieldId = form.fields.find((f) => f.name === name)?.id;
+      const existing = session.fields.find((sf) => sf.fieldId === fieldId);
+      return (
+        existing !== undefined &&
+        !existing.declined &&
+        !isSameFieldValue(existing.value, value) &&
+        !isCompositeExtension(existing.value, value)
+      );
+    })
+    .map(([name]) => name);
+}
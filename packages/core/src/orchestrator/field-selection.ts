@@ -0,0 +1,117 @@
+/**
+ * Field selection - which field to ask next and when a form is complete
+ *
+ * @module field-selection
+ */
+
+import type {
+  FormDefinition,
+  FormField,
+  NextFieldOptions,
+  RuleViolation,
+  Session,
+  SessionField,
+} from '../types';
+import { isFieldVisible } from '../conditions';
+import { getCollectedValues } from '../session';
+import { validateFormRules } from '../validation';
+import { getMissingParts } from '../field-types';
+
+/**
+ * Checks whether a field no longer needs to be asked about
+ * A collected value resolves a field unless it is a composite still
+ * missing required parts; a decline only resolves optional fields,
+ * since required fields cannot be skipped.
+ *
+ * @param field - Field definition
+ * @param sessionField - Collected entry for the field, if any
+ * @returns True if the field is resolved
+ */
+function isFieldResolved(
+  field: FormField,
+  sessionField: SessionField | undefined
+): boolean {
+  if (!sessionField) {
+    return false;
+  }
+  if (sessionField.declined) {
+    return !field.required;
+  }
+  return getMissingParts(field, sessionField.value).length === 0;
+}
+
+/**
+ * Determines the next field to collect based on form definition and session state
+ *
+ * Only required fields are considered unless `includeOptional` is set.
+ * Optional fields the user declined are never returned again, and
+ * fields hidden by their `visibleWhen` condition are skipped.
+ *
+ * @param form - Form definition with all fields
+ * @param session - Current session with collected fields
+ * @param options - Selection options (e.g. include optional fields)
+ * @returns Field name to collect next, or null if all required fields collected
+ */
+export function determineNextField(
+  form: FormDefinition,
+  session: Session,
+  options: NextFieldOptions = {}
+): string | null {
+  const sessionFields = new Map(session.fields.map((f) => [f.fieldId, f]));
+  const values = getCollectedValues(form, session);
+
+  // Find first unresolved field (respecting order)
+  const sortedFields = [...form.fields].sort((a, b) => a.order - b.order);
+
+  for (const field of sortedFields) {
+    if (!field.required && !options.includeOptional) {
+      continue;
+    }
+    if (!isFieldVisible(field, values)) {
+      continue;
+    }
+    if (!isFieldResolved(field, sessionFields.get(field.id))) {
+      return field.name;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Determines whether a form is complete for a given session state
+ *
+ * A form is complete when every visible required field is collected and
+ * no form-level rule is violated. While incomplete, the next field is the
+ * next missing required field or, failing that, the first field named by
+ * a rule violation.
+ *
+ * @param form - Form definition
+ * @param session - Session including this turn's extracted fields
+ * @returns Completion flag, next field hint and rule violations
+ */
+export function assessCompletion(
+  form: FormDefinition,
+  session: Session
+): {
+  isComplete: boolean;
+  nextField?: string;
+  ruleViolations: RuleViolation[];
+} {
+  const nextRequired = determineNextField(form, session);
+  const ruleViolations = validateFormRules(
+    form,
+    getCollectedValues(form, session),
+    nextRequired === null
+  );
+
+  if (nextRequired === null && ruleViolations.length === 0) {
+    return { isComplete: true, ruleViolations };
+  }
+
+  return {
+    isComplete: false,
+    nextField: nextRequired ?? ruleViolations[0]?.fields[0],
+    ruleViolations,
+  };
+}
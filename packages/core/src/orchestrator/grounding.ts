@@ -0,0 +1,185 @@
+/**
+ * Grounding check: flags or rejects extracted values the user never wrote
+ *
+ * @module grounding
+ */
+
+import type {
+  FieldTypeContext,
+  FieldTypeRegistry,
+  FieldValue,
+  FormDefinition,
+  FormField,
+  GroundingAction,
+  GroundingPolicy,
+  RejectedField,
+  RunLlmStepOptions,
+  Session,
+} from '../types';
+import { ClientError, TurnRole } from '../types';
+import {
+  isCompositeValue,
+  isTextGrounded,
+  resolveFieldType,
+  resolveTimeZone,
+  toSubFormField,
+} from '../field-types';
+import { isPartGiven } from '../field-types/composite';
+import { getReferenceTime } from './prompt-builder';
+
+/**
+ * Earlier user turns searched when the policy does not say
+ */
+const DEFAULT_RECENT_TURNS = 2;
+
+/**
+ * Error reported for values rejected by the grounding check
+ */
+const UNGROUNDED_ERROR = 'Value does not appear in the conversation';
+
+/**
+ * Collects the text a value may be grounded in: the current message
+ * plus the most recent earlier user turns
+ *
+ * @param session - Current session state
+ * @param userMessage - User's message for this step
+ * @param policy - Grounding policy (number of recent turns)
+ * @returns User text, one message per line
+ * @throws ClientError if recentTurns is not a non-negative integer
+ */
+function buildGroundingText(
+  session: Session,
+  userMessage: string,
+  policy: GroundingPolicy
+): string {
+  const recentTurns = policy.recentTurns ?? DEFAULT_RECENT_TURNS;
+  if (!Number.isInteger(recentTurns) || recentTurns < 0) {
+    throw new ClientError(
+      'Grounding recentTurns must be a non-negative integer',
+      400,
+      'INVALID_OPTIONS',
+      { recentTurns }
+    );
+  }
+
+  const earlier = session.turns
+    .filter((turn) => turn.role === TurnRole.USER)
+    .map((turn) => turn.content);
+  return [...earlier.slice(earlier.length - recentTurns), userMessage].join(
+    '\n'
+  );
+}
+
+/**
+ * Runs a field type's grounding matcher on a value
+ * Each given part of a COMPOSITE value must be grounded by its
+ * sub-field's type.
+ *
+ * @param field - Field definition
+ * @param value - Non-null value as returned by the LLM
+ * @param text - User text to search
+ * @param context - Timezone and reference time for relative dates
+ * @param fieldTypes - Registry for custom field types
+ * @returns Whether the value occurs in the text
+ */
+function isValueGrounded(
+  field: FormField,
+  value: FieldValue,
+  text: string,
+  context: FieldTypeContext,
+  fieldTypes?: FieldTypeRegistry
+): boolean {
+  if (isCompositeValue(value)) {
+    return (field.subFields ?? []).every(
+      (subField) =>
+        !isPartGiven(value[subField.name]) ||
+        isValueGrounded(
+          toSubFormField(field, subField),
+          value[subField.name]!,
+          text,
+          context,
+          fieldTypes
+        )
+    );
+  }
+
+  const plugin = resolveFieldType(field, fieldTypes);
+  return plugin.isGrounded
+    ? plugin.isGrounded(value, text, field, context)
+    : isTextGrounded(value, text);
+}
+
+/**
+ * Checks accepted values against what the user wrote
+ *
+ * A value passes when its field type's isGrounded matcher (exact text
+ * by default, any formatting for phones, dates and numbers) finds it in
+ * the current message or recent user turns; each part of a COMPOSITE
+ * value is matched by its sub-field's type. Failing values are handled
+ * per field type: accepted silently, accepted and flagged, or rejected.
+ * Null values (clearing a field) are not checked.
+ *
+ * @param form - Form definition
+ * @param session - Current session state
+ * @param userMessage - User's message for this step
+ * @param fields - Accepted values and their raw LLM values, keyed by name
+ * @param options - Step options (grounding policy, field type registry)
+ * @returns Values still accepted, newly rejected fields, and the names
+ *   of accepted fields that were flagged
+ * @throws ClientError if the policy configuration is invalid
+ */
+export function checkGrounding(
+  form: FormDefinition,
+  session: Session,
+  userMessage: string,
+  fields: {
+    accepted: Record<string, FieldValue>;
+    raw: Record<string, FieldValue>;
+  },
+  options: RunLlmStepOptions
+): {
+  accepted: Record<string, FieldValue>;
+  raw: Record<string, FieldValue>;
+  rejected: RejectedField[];
+  ungrounded: string[];
+} {
+  const policy = options.grounding;
+  if (!policy) {
+    return { ...fields, rejected: [], ungrounded: [] };
+  }
+
+  const text = buildGroundingText(session, userMessage, policy);
+  const context: FieldTypeContext = {
+    timeZone: resolveTimeZone(form, session),
+    now: getReferenceTime(options),
+  };
+  const accepted = { ...fields.accepted };
+  const raw = { ...fields.raw };
+  const rejected: RejectedField[] = [];
+  const ungrounded: string[] = [];
+
+  for (const [fieldName, rawValue] of Object.entries(fields.raw)) {
+    const fieldDef = form.fields.find((f) => f.name === fieldName)!;
+    const action: GroundingAction =
+      policy.actions?.[fieldDef.type] ?? policy.defaultAction ?? 'flag';
+    if (rawValue === null || action === 'accept') {
+      continue;
+    }
+
+    if (
+      isValueGrounded(fieldDef, rawValue, text, context, options.fieldTypes)
+    ) {
+      continue;
+    }
+
+    if (action === 'reject') {
+      delete accepted[fieldName];
+      delete raw[fieldName];
+      rejected.push({ fieldName, value: rawValue, error: UNGROUNDED_ERROR });
+    } else {
+      ungrounded.push(fieldName);
+    }
+  }
+
+  return { accepted, raw, rejected, ungrounded };
+}
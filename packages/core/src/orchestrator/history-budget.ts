@@ -0,0 +1,149 @@
+/**
+ * Token budgeting for the conversation history sent to the LLM
+ *
+ * @module history-budget
+ */
+
+import type {
+  FormDefinition,
+  HistoryBudget,
+  LlmMessage,
+  Session,
+  SessionField,
+} from '../types';
+import { ClientError } from '../types';
+import { buildConversationHistory, formatPromptValue } from './prompt-builder';
+
+/**
+ * Rough average of characters per token for English text
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Default token estimator: about 4 characters per token
+ *
+ * @param text - Text to measure
+ * @returns Estimated token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Checks the budget configuration
+ *
+ * @param budget - History budget from the step options
+ * @throws ClientError if maxTokens is not a positive integer
+ */
+function assertHistoryBudget(budget: HistoryBudget): void {
+  if (!Number.isInteger(budget.maxTokens) || budget.maxTokens < 1) {
+    throw new ClientError(
+      'History budget maxTokens must be a positive integer',
+      400,
+      'INVALID_OPTIONS',
+      { maxTokens: budget.maxTokens }
+    );
+  }
+}
+
+/**
+ * Summarizes the oldest turns of a session from the fields collected
+ * (or declined) in them
+ *
+ * @param form - Form definition (for field labels)
+ * @param session - Session whose turns are summarized
+ * @param omittedTurns - Number of turns, from the start, being replaced
+ * @returns Summary text to append to the system prompt
+ */
+export function buildHistorySummary(
+  form: FormDefinition,
+  session: Session,
+  omittedTurns: number
+): string {
+  const labels = new Map(form.fields.map((f) => [f.id, f.label]));
+  const labelOf = (sf: SessionField): string =>
+    labels.get(sf.fieldId) ?? sf.fieldId;
+  const fromOmitted = (sf: SessionField): boolean =>
+    sf.turnIndex === undefined || sf.turnIndex < omittedTurns;
+  const provided = session.fields
+    .filter((sf) => !sf.declined && fromOmitted(sf))
+    .map((sf) => `${labelOf(sf)}: ${formatPromptValue(sf.value)}`);
+  const declined = session.fields
+    .filter((sf) => sf.declined && fromOmitted(sf))
+    .map(labelOf);
+
+  const lines = [
+    `Earlier conversation (${omittedTurns} older messages omitted` +
+      ' to save space):',
+  ];
+  lines.push(
+    provided.length > 0
+      ? `- The user provided: ${provided.join('; ')}`
+      : '- The user provided no field values'
+  );
+  if (declined.length > 0) {
+    lines.push(`- The user declined: ${declined.join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Builds the message array for one step within a token budget
+ *
+ * The system prompt and the current user message are always included,
+ * even if they alone exceed the budget. The most recent turns are kept
+ * verbatim; when older turns have to go, a summary of the fields
+ * collected in them is appended to the system prompt. If not even the
+ * summary fits, no history is sent.
+ *
+ * @param form - Form definition
+ * @param session - Current session state
+ * @param systemPrompt - System prompt for the step
+ * @param userMessage - Current user message
+ * @param budget - Token budget and estimator
+ * @returns Messages to send to the LLM
+ * @throws ClientError if the budget configuration is invalid
+ */
+export function budgetStepMessages(
+  form: FormDefinition,
+  session: Session,
+  systemPrompt: string,
+  userMessage: string,
+  budget: HistoryBudget
+): LlmMessage[] {
+  assertHistoryBudget(budget);
+  const estimate = budget.estimateTokens ?? estimateTokens;
+  const history = buildConversationHistory(session);
+  const userTokens = estimate(userMessage);
+  const build = (system: string, kept: LlmMessage[]): LlmMessage[] => [
+    { role: 'system', content: system },
+    ...kept,
+    { role: 'user', content: userMessage },
+  ];
+
+  // Tokens used by the last k history messages, for k = 0..n
+  const suffixTokens = [0];
+  for (let i = history.length - 1; i >= 0; i--) {
+    suffixTokens.push(suffixTokens.at(-1)! + estimate(history[i]!.content));
+  }
+
+  const fixedTokens = estimate(systemPrompt) + userTokens;
+  if (fixedTokens + suffixTokens[history.length]! <= budget.maxTokens) {
+    return build(systemPrompt, history);
+  }
+
+  for (let kept = history.length - 1; kept >= 0; kept--) {
+    if (fixedTokens + suffixTokens[kept]! > budget.maxTokens) {
+      continue;
+    }
+    const omitted = history.length - kept;
+    const summary = buildHistorySummary(form, session, omitted);
+    const system = `${systemPrompt}\n\n${summary}`;
+    const total = estimate(system) + userTokens + suffixTokens[kept]!;
+    if (total <= budget.maxTokens) {
+      return build(system, history.slice(omitted));
+    }
+  }
+
+  return build(systemPrompt, []);
+}
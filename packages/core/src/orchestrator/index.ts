@@ -2,9 +2,13 @@
  * Orchestrator module barrel export
  */
 
+export { runLlmStep } from './orchestrator';
+export { runLlmStepStream } from './stream';
+export { determineNextField } from './field-selection';
 export {
-  runLlmStep,
-  determineNextField,
+  buildConversationHistory,
+  buildFieldContext,
   buildSystemPrompt,
-} from './orchestrator';
-export { buildConversationHistory, buildFieldContext } from './prompt-builder';
+} from './prompt-builder';
+export { buildResponseSchema } from './response-schema';
+export { estimateTokens, buildHistorySummary } from './history-budget';
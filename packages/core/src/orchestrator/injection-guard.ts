@@ -0,0 +1,119 @@
+/**
+ * Screening of user messages for prompt injection before the LLM call
+ *
+ * @module injection-guard
+ */
+
+import type {
+  FormDefinition,
+  InjectionPolicy,
+  OrchestratorResult,
+  RunLlmStepOptions,
+  Session,
+  SessionTurn,
+} from '../types';
+import { TurnRole } from '../types';
+import { detectInjection, stripInjection } from '../injection';
+import { assessCompletion } from './field-selection';
+
+/**
+ * Reply used when a message is refused and the policy has no message
+ */
+const DEFAULT_REFUSAL_MESSAGE =
+  'I can only help with filling in this form. Could you answer the question?';
+
+/**
+ * Applies the injection policy to the user message
+ *
+ * Messages that match no pattern (or any message without a policy) are
+ * sent unchanged. Otherwise the policy's action decides: `flag` sends
+ * the message as it is, `strip` sends it without the matching text, and
+ * `refuse` skips the LLM call with a result that extracts nothing and
+ * keeps the session's completion state.
+ *
+ * @param form - Form definition
+ * @param session - Current session state
+ * @param userMessage - User's message to process
+ * @param options - Step options (injection policy)
+ * @returns The message to send, or the result replacing the LLM call
+ */
+export function guardUserMessage(
+  form: FormDefinition,
+  session: Session,
+  userMessage: string,
+  options: RunLlmStepOptions
+):
+  | { op: 'send'; userMessage: string }
+  | { op: 'refuse'; result: OrchestratorResult } {
+  const policy = options.injection;
+  const suspectedInjection = detectInjection(userMessage, policy);
+  if (!policy || suspectedInjection.length === 0) {
+    return { op: 'send', userMessage };
+  }
+
+  switch (policy.action ?? 'flag') {
+    case 'flag':
+      return { op: 'send', userMessage };
+    case 'strip':
+      return { op: 'send', userMessage: stripInjection(userMessage, policy) };
+    case 'refuse':
+      return {
+        op: 'refuse',
+        result: {
+          botResponse: policy.refusalMessage ?? DEFAULT_REFUSAL_MESSAGE,
+          extractedFields: {},
+          rawFields: {},
+          rejectedFields: [],
+          correctedFields: [],
+          ungroundedFields: [],
+          suspectedInjection,
+          declinedFields: [],
+          ...assessCompletion(form, session),
+          diagnostics: [],
+          usage: [],
+          attempts: 0,
+        },
+      };
+  }
+}
+
+/**
+ * Applies the injection policy to the user turns already in the session
+ *
+ * applyStep stores what the user wrote, so a message stripped or
+ * refused on its own turn would otherwise reach the LLM as history on
+ * the next step. Under `strip` the matching text is removed from earlier
+ * user turns; under `refuse` those turns are dropped along with the
+ * reply that followed them. `flag` (or no policy) keeps the history.
+ *
+ * @param session - Current session state
+ * @param policy - Injection policy, if any
+ * @returns The session with its turns screened (same object if unchanged)
+ */
+export function guardSessionHistory(
+  session: Session,
+  policy?: InjectionPolicy
+): Session {
+  const action = policy?.action ?? 'flag';
+  if (!policy || action === 'flag') {
+    return session;
+  }
+
+  const turns: SessionTurn[] = [];
+  let dropReply = false;
+  for (const turn of session.turns) {
+    const suspicious =
+      turn.role === TurnRole.USER &&
+      detectInjection(turn.content, policy).length > 0;
+    if (turn.role === TurnRole.ASSISTANT && dropReply) {
+      dropReply = false;
+    } else if (!suspicious) {
+      turns.push(turn);
+    } else if (action === 'strip') {
+      turns.push({ ...turn, content: stripInjection(turn.content, policy) });
+    } else {
+      dropReply = true;
+    }
+  }
+  return { ...session, turns };
+}
@@ -0,0 +1,140 @@
+/**
+ * Recovery of JSON objects from imperfect LLM output (lenient parsing)
+ *
+ * @module json-repair
+ */
+
+/**
+ * Finds the end of the JSON object starting at `start`
+ * String literals are skipped so braces inside them are not counted.
+ *
+ * @param text - Text containing the object
+ * @param start - Index of the opening brace
+ * @returns Index just past the closing brace, or text length if unclosed
+ */
+function findObjectEnd(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return i + 1;
+    }
+  }
+
+  return text.length;
+}
+
+/**
+ * Extracts the first JSON object from text that may contain prose or
+ * markdown fences around it
+ *
+ * @param text - Raw LLM output
+ * @returns The object's text and whether anything around it was dropped,
+ *   or null if the text contains no opening brace
+ */
+export function extractJsonObject(
+  text: string
+): { json: string; trimmed: boolean } | null {
+  const start = text.indexOf('{');
+  if (start === -1) {
+    return null;
+  }
+
+  const end = findObjectEnd(text, start);
+  const trimmed =
+    text.slice(0, start).trim() !== '' || text.slice(end).trim() !== '';
+  return { json: text.slice(start, end), trimmed };
+}
+
+/**
+ * Returns the first non-whitespace character at or after `from`
+ *
+ * @param text - Text to search
+ * @param from - Start index
+ * @returns The character, or '' at the end of the text
+ */
+function nextNonSpace(text: string, from: number): string {
+  for (let i = from; i < text.length; i++) {
+    const char = text[i] ?? '';
+    if (!/\s/.test(char)) {
+      return char;
+    }
+  }
+  return '';
+}
+
+/**
+ * Updates the stack of expected closing brackets
+ *
+ * @param char - Opening or closing bracket
+ * @param closers - Closing brackets still expected (mutated)
+ */
+function trackBracket(char: string, closers: string[]): void {
+  if (char === '{') {
+    closers.push('}');
+  } else if (char === '[') {
+    closers.push(']');
+  } else {
+    closers.pop();
+  }
+}
+
+/**
+ * Repairs common syntax slips: trailing commas before a closing
+ * bracket, and brackets (or a string) left open at the end of the text
+ *
+ * @param json - Text of a single JSON value
+ * @returns Repaired text plus a description of each kind of repair made
+ */
+export function repairJsonSyntax(json: string): {
+  json: string;
+  repairs: string[];
+} {
+  const repairs = new Set<string>();
+  const closers: string[] = [];
+  let output = '';
+  let inString = false;
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i] ?? '';
+    if (inString) {
+      if (char === '\\') {
+        output += char + (json[i + 1] ?? '');
+        i++;
+        continue;
+      }
+      inString = char !== '"';
+    } else if (char === '"') {
+      inString = true;
+    } else if ('{[}]'.includes(char)) {
+      trackBracket(char, closers);
+    } else if (char === ',' && '}]'.includes(nextNonSpace(json, i + 1))) {
+      repairs.add('removed trailing comma');
+      continue;
+    }
+    output += char;
+  }
+
+  if (inString) {
+    output += '"';
+    repairs.add('closed unterminated string');
+  }
+  if (closers.length > 0) {
+    output += closers.reverse().join('');
+    repairs.add('closed unterminated brackets');
+  }
+
+  return { json: output, repairs: [...repairs] };
+}
@@ -0,0 +1,136 @@
+/**
+ * Per-session caps on turns, tokens and spend
+ *
+ * @module limits
+ */
+
+import type {
+  FormDefinition,
+  OrchestratorResult,
+  RunLlmStepOptions,
+  Session,
+  SessionLimitName,
+  SessionLimits,
+} from '../types';
+import { ClientError, TurnRole } from '../types';
+import { calculateCost, EMPTY_USAGE } from '../usage';
+
+/**
+ * Closing message used when SessionLimits.closingMessage is not set
+ */
+const DEFAULT_CLOSING_MESSAGE =
+  "We've reached the limit for this conversation, so I can't continue. " +
+  'Thank you for your time!';
+
+/**
+ * Numeric caps, in the order they are checked
+ */
+const NUMERIC_LIMITS: readonly SessionLimitName[] = [
+  'maxTurns',
+  'maxTokens',
+  'maxCost',
+];
+
+/**
+ * Merges form and step limits and checks them
+ *
+ * @param form - Form definition (FormDefinition.limits)
+ * @param options - Step options (limits override the form's per key)
+ * @returns Effective limits
+ * @throws ClientError if a cap is negative or maxCost has no price table
+ */
+function resolveSessionLimits(
+  form: FormDefinition,
+  options: RunLlmStepOptions
+): SessionLimits {
+  const limits: SessionLimits = { ...form.limits, ...options.limits };
+
+  for (const name of NUMERIC_LIMITS) {
+    const value = limits[name];
+    if (value !== undefined && !(Number.isFinite(value) && value >= 0)) {
+      throw new ClientError(
+        'Session limits must be non-negative numbers',
+        400,
+        'INVALID_OPTIONS',
+        { limit: name, value }
+      );
+    }
+  }
+  if (limits.maxCost !== undefined && limits.prices === undefined) {
+    throw new ClientError(
+      'Session limit maxCost requires a price table',
+      400,
+      'INVALID_OPTIONS',
+      { limit: 'maxCost' }
+    );
+  }
+
+  return limits;
+}
+
+/**
+ * Finds the first limit the session has reached
+ *
+ * @param session - Current session state
+ * @param limits - Effective limits
+ * @returns Name of the reached limit, or null if within all limits
+ */
+function findExceededLimit(
+  session: Session,
+  limits: SessionLimits
+): SessionLimitName | null {
+  const userTurns = session.turns.filter((t) => t.role === TurnRole.USER);
+  const usage = session.usage ?? EMPTY_USAGE;
+
+  if (limits.maxTurns !== undefined && userTurns.length >= limits.maxTurns) {
+    return 'maxTurns';
+  }
+  if (limits.maxTokens !== undefined && usage.totalTokens >= limits.maxTokens) {
+    return 'maxTokens';
+  }
+  if (
+    limits.maxCost !== undefined &&
+    calculateCost(usage, limits.prices ?? {}).total >= limits.maxCost
+  ) {
+    return 'maxCost';
+  }
+  return null;
+}
+
+/**
+ * Checks the session against its limits before calling the LLM
+ *
+ * @param form - Form definition (FormDefinition.limits)
+ * @param session - Current session state
+ * @param options - Step options (limits)
+ * @returns A closing result when a limit is reached, otherwise null
+ * @throws ClientError if the limits are misconfigured
+ */
+export function checkSessionLimits(
+  form: FormDefinition,
+  session: Session,
+  options: RunLlmStepOptions
+): OrchestratorResult | null {
+  const limits = resolveSessionLimits(form, options);
+  const exceeded = findExceededLimit(session, limits);
+  if (exceeded === null) {
+    return null;
+  }
+
+  return {
+    botResponse: limits.closingMessage ?? DEFAULT_CLOSING_MESSAGE,
+    extractedFields: {},
+    rawFields: {},
+    rejectedFields: [],
+    correctedFields: [],
+    ungroundedFields: [],
+    suspectedInjection: [],
+    declinedFields: [],
+    ruleViolations: [],
+    isComplete: false,
+    diagnostics: [],
+    limitExceeded: exceeded,
+    usage: [],
+    attempts: 0,
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Rule-based extraction for turns that do not need the LLM
+ *
+ * @module local-extraction
+ */
+
+import type {
+  FieldTypeName,
+  FormDefinition,
+  OrchestratorResult,
+  RunLlmStepOptions,
+  Session,
+} from '../types';
+import { FieldType } from '../types';
+import { determineNextField } from './field-selection';
+import { partitionExtractedFields } from './extraction';
+import type { StepResponse } from './orchestrator';
+
+/**
+ * Field types whose values can be told apart from free text
+ */
+const DEFAULT_LOCAL_FIELD_TYPES: readonly FieldTypeName[] = [
+  FieldType.EMAIL,
+  FieldType.PHONE,
+  FieldType.NUMBER,
+  FieldType.DATE,
+  FieldType.ENUM,
+  FieldType.BOOLEAN,
+];
+
+const DEFAULT_FOLLOW_UP_TEMPLATE = 'Thanks! What is your {label}?';
+
+const DEFAULT_COMPLETION_MESSAGE = "Thanks! That's everything I need.";
+
+/**
+ * Extracts the value of the field being asked for when the message is
+ * nothing but that value
+ *
+ * The target is the field determineNextField would ask for next. The
+ * message (trimmed, minus one trailing "." or "!") must pass the field
+ * type's normalizer and validator; anything else is left to the LLM.
+ * Validators of the default types only accept canonical values (a DATE
+ * must have been read into a Date), so loosely parseable replies such
+ * as "Room 2" or "March 3" are never stored without the LLM.
+ *
+ * @param form - Form definition
+ * @param session - Current session state
+ * @param userMessage - User's message to process
+ * @param options - Step options (local extraction policy, registry)
+ * @returns A response carrying the single extracted value, or null when
+ *   the extraction is not confident
+ */
+export function extractLocally(
+  form: FormDefinition,
+  session: Session,
+  userMessage: string,
+  options: RunLlmStepOptions
+): StepResponse | null {
+  const policy = options.localExtraction;
+  if (!policy) {
+    return null;
+  }
+
+  const target = determineNextField(form, session);
+  const field = form.fields.find((f) => f.name === target);
+  const fieldTypes = policy.fieldTypes ?? DEFAULT_LOCAL_FIELD_TYPES;
+  if (!field || !fieldTypes.includes(field.type)) {
+    return null;
+  }
+
+  const value = userMessage.trim().replace(/[.!]$/, '').trim();
+  const extractedFields = { [field.name]: value };
+  const { accepted } = partitionExtractedFields(
+    form,
+    session,
+    extractedFields,
+    options
+  );
+  if (value === '' || !(field.name in accepted)) {
+    return null;
+  }
+
+  return {
+    botResponse: '',
+    extractedFields,
+    declinedFields: [],
+    diagnostics: [],
+    attempts: 0,
+    usage: [],
+  };
+}
+
+/**
+ * Fills in the templated reply for a locally extracted step
+ *
+ * @param form - Form definition (for the next field's label)
+ * @param result - Step result built from the local extraction
+ * @param options - Step options (local extraction policy)
+ * @returns The result with its bot response, or null when form-level
+ *   rules are violated and the LLM should explain them instead
+ */
+export function completeLocalStep(
+  form: FormDefinition,
+  result: OrchestratorResult,
+  options: RunLlmStepOptions
+): OrchestratorResult | null {
+  if (result.ruleViolations.length > 0) {
+    return null;
+  }
+
+  const policy = options.localExtraction ?? {};
+  const nextField = form.fields.find((f) => f.name === result.nextField);
+  const botResponse = result.isComplete
+    ? (policy.completionMessage ?? DEFAULT_COMPLETION_MESSAGE)
+    : (policy.followUpTemplate ?? DEFAULT_FOLLOW_UP_TEMPLATE).replace(
+        /\{label\}/g,
+        nextField?.label ?? result.nextField ?? ''
+      );
+
+  return { ...result, botResponse, extractedLocally: true };
+}
@@ -10,192 +10,266 @@ import type {
   LlmClient,
   LlmMessage,
   OrchestratorResult,
-  FieldValue,
+  RunLlmStepOptions,
+  UsageRecord,
 } from '../types';
-import { ClientError } from '../types';
-import { validateField } from '../validation';
-import { buildConversationHistory } from './prompt-builder';
+import { mergeSessionFields, mergeDeclinedFields } from '../session';
+import { toUsageRecord } from '../usage';
+import {
+  buildConversationHistory,
+  buildSystemPrompt,
+  getReferenceTime,
+} from './prompt-builder';
+import { assessCompletion } from './field-selection';
+import {
+  partitionExtractedFields,
+  partitionDeclinedFields,
+  findCorrectedFields,
+} from './extraction';
+import { parseExtractedFields } from './response-parser';
+import type { ParsedLlmResponse } from './response-parser';
+import { resolveMaxAttempts, continueAfterFailure } from './repair';
+import { buildCallOptions } from './response-schema';
+import { budgetStepMessages } from './history-budget';
+import { checkSessionLimits } from './limits';
+import { checkGrounding } from './grounding';
+import { checkConsent } from './consent';
+import { guardSessionHistory, guardUserMessage } from './injection-guard';
+import { extractLocally, completeLocalStep } from './local-extraction';
+import { redactMessages, restoreResponse } from '../redaction';
+import type { PlaceholderMap } from '../redaction';
+import { delimitUserMessages, detectInjection } from '../injection';
 
 /**
- * Determines the next required field to collect based on form definition and session state
+ * Parsed LLM response together with what it took to obtain it
+ */
+export interface StepResponse extends ParsedLlmResponse {
+  /** Number of LLM calls made */
+  attempts: number;
+  /** Usage reported by each call, including failed attempts */
+  usage: UsageRecord[];
+}
+
+/**
+ * Calls the LLM and interprets its response, retrying with corrective
+ * feedback when a repair policy allows it
  *
- * @param form - Form definition with all fields
- * @param session - Current session with collected fields
- * @returns Field name to collect next, or null if all required fields collected
+ * @param form - Form definition
+ * @param messages - Initial message array for the LLM
+ * @param llmClient - LLM client for completion
+ * @param options - Step options (repair policy)
+ * @returns Parsed response plus the attempts used and their usage
+ * @throws ClientError once every allowed attempt has failed
  */
-export function determineNextField(
+async function completeWithRepair(
   form: FormDefinition,
-  session: Session
-): string | null {
-  const collectedFieldIds = new Set(
-    session.fields.map((f) => f.fieldId)
-  );
-
-  // Find first required field not yet collected (respecting order)
-  const sortedFields = [...form.fields].sort((a, b) => a.order - b.order);
+  messages: LlmMessage[],
+  llmClient: LlmClient,
+  options: RunLlmStepOptions
+): Promise<StepResponse> {
+  const maxAttempts = resolveMaxAttempts(options.repair);
+  const callOptions = buildCallOptions(form, llmClient, options);
+  const usage: UsageRecord[] = [];
+  let conversation = messages;
+
+  for (let attempt = 1; ; attempt++) {
+    const llmResponse = await llmClient.complete(conversation, callOptions);
+    const record = toUsageRecord(llmResponse);
+    if (record) {
+      usage.push(record);
+    }
 
-  for (const field of sortedFields) {
-    if (field.required && !collectedFieldIds.has(field.id)) {
-      return field.name;
+    try {
+      const parsed = parseExtractedFields(
+        llmResponse.content,
+        form,
+        options.parsing
+      );
+      return { ...parsed, attempts: attempt, usage };
+    } catch (error: unknown) {
+      conversation = continueAfterFailure(
+        conversation,
+        llmResponse.content,
+        error,
+        attempt,
+        maxAttempts
+      );
     }
   }
-
-  return null;
 }
 
 /**
- * Builds system prompt for LLM with form context and collected fields
+ * Builds the message array for one step: system prompt, conversation
+ * history and the new user message
+ * With a history budget, older turns are summarized to fit it.
  *
  * @param form - Form definition
  * @param session - Current session state
- * @returns System prompt string with form context and instructions
+ * @param userMessage - User's message to process
+ * @param options - Step options (field type registry, history budget)
+ * @returns Messages to send to the LLM
  */
-export function buildSystemPrompt(
+export function buildStepMessages(
   form: FormDefinition,
-  session: Session
-): string {
-  const formInfo = `Form: ${form.name}${
-    form.description ? `\nDescription: ${form.description}` : ''
-  }`;
-
-  const fieldsInfo = form.fields
-    .map(
-      (field) =>
-        `- ${field.label} (${field.name}, ${field.type})${field.required ? ' [REQUIRED]' : ' [OPTIONAL]'}${
-          field.description ? `: ${field.description}` : ''
-        }`
-    )
-    .join('\n');
-
-  const collectedInfo =
-    session.fields.length > 0
-      ? `\n\nAlready Collected:\n${session.fields
-          .map(
-            (sf) =>
-              `- ${sf.fieldId}: ${sf.value !== null ? String(sf.value) : 'null'}`
-          )
-          .join('\n')}`
-      : '';
-
-  return `You are a conversational form assistant collecting information for the following form:
-
-${formInfo}
-
-Fields to collect:
-${fieldsInfo}${collectedInfo}
-
-Your task:
-1. Extract any field values mentioned in the user's message
-2. Respond naturally and ask for the next missing required field
-3. Return your response in JSON format:
-
-{
-  "botResponse": "Your natural language response to the user",
-  "extractedFields": {
-    "fieldName": "extractedValue"
+  session: Session,
+  userMessage: string,
+  options: RunLlmStepOptions
+): LlmMessage[] {
+  const systemPrompt = buildSystemPrompt(form, session, options);
+  if (options.history) {
+    return budgetStepMessages(
+      form,
+      session,
+      systemPrompt,
+      userMessage,
+      options.history
+    );
   }
-}
 
-Important:
-- Only extract fields that are explicitly mentioned in the form definition
-- Use exact field names from the form definition
-- If no new fields can be extracted, return empty extractedFields object
-`;
+  return [
+    { role: 'system', content: systemPrompt },
+    ...buildConversationHistory(session),
+    { role: 'user', content: userMessage },
+  ];
 }
 
 /**
- * Parses and validates LLM response containing extracted fields
+ * Messages ready for the LLM call of a step, or the result that
+ * replaces the call (session limit reached, message refused)
+ */
+export type PreparedStep =
+  | { op: 'call'; messages: LlmMessage[]; placeholders: PlaceholderMap }
+  | { op: 'skip'; result: OrchestratorResult };
+
+/**
+ * Runs the pre-call stages of a step: session limits, injection
+ * screening of the message and of earlier user turns, local
+ * extraction, message building, user content delimiting and redaction
  *
- * @param llmResponse - Raw LLM response content (expected to be JSON)
- * @param form - Form definition to validate against
- * @returns Parsed response with botResponse and extractedFields
- * @throws ClientError if JSON is invalid or contains unknown fields
+ * @param form - Form definition
+ * @param session - Current session state
+ * @param userMessage - User's message to process
+ * @param options - Step options
+ * @returns Messages to send with their placeholder mapping, or the
+ *   result to return without calling the LLM
+ * @throws ClientError if the options are misconfigured
  */
-function parseExtractedFields(
-  llmResponse: string,
-  form: FormDefinition
-): { botResponse: string; extractedFields: Record<string, FieldValue> } {
-  let parsed: unknown;
+export function prepareStep(
+  form: FormDefinition,
+  session: Session,
+  userMessage: string,
+  options: RunLlmStepOptions
+): PreparedStep {
+  const limitResult = checkSessionLimits(form, session, options);
+  if (limitResult) {
+    return { op: 'skip', result: limitResult };
+  }
 
-  try {
-    parsed = JSON.parse(llmResponse);
-  } catch (error: unknown) {
-    const errorMessage =
-      error instanceof Error ? error.message : 'Unknown parse error';
-    throw new ClientError(
-      'LLM returned invalid JSON',
-      400,
-      'INVALID_LLM_RESPONSE',
-      {
-        response: llmResponse,
-        parseError: errorMessage,
-      }
-    );
+  const guard = guardUserMessage(form, session, userMessage, options);
+  if (guard.op === 'refuse') {
+    return { op: 'skip', result: guard.result };
   }
 
-  // Type guard for expected structure
-  if (
-    !parsed ||
-    typeof parsed !== 'object' ||
-    !('botResponse' in parsed) ||
-    !('extractedFields' in parsed)
-  ) {
-    throw new ClientError(
-      'LLM response missing required fields (botResponse, extractedFields)',
-      400,
-      'INVALID_LLM_RESPONSE',
-      { response: llmResponse }
+  const local = extractLocally(form, session, guard.userMessage, options);
+  const localResult =
+    local &&
+    completeLocalStep(
+      form,
+      buildStepResult(form, session, userMessage, local, options),
+      options
     );
+  if (localResult) {
+    return { op: 'skip', result: localResult };
   }
 
-  const response = parsed as {
-    botResponse: string;
-    extractedFields: Record<string, unknown>;
+  const messages = buildStepMessages(
+    form,
+    guardSessionHistory(session, options.injection),
+    guard.userMessage,
+    options
+  );
+  return {
+    op: 'call',
+    ...redactMessages(
+      options.injection ? delimitUserMessages(messages) : messages,
+      options.redaction
+    ),
   };
-
-  // Validate all extracted fields exist in form definition
-  const validFieldNames = new Set(form.fields.map((f) => f.name));
-
-  for (const fieldName of Object.keys(response.extractedFields)) {
-    if (!validFieldNames.has(fieldName)) {
-      throw new ClientError(
-        'Field not in form definition',
-        400,
-        'UNKNOWN_FIELD',
-        { fieldName, formId: form.id }
-      );
-    }
-  }
-
-  return response as { botResponse: string; extractedFields: Record<string, FieldValue> };
 }
 
 /**
- * Determines if form is complete based on extracted fields
+ * Turns a parsed LLM response into the step result: normalizes and
+ * validates extracted values, checks consent and grounding, accepts
+ * declines and assesses completion
  *
  * @param form - Form definition
- * @param session - Current session
- * @param extractedFields - Newly extracted fields
- * @returns True if all required fields will be collected
+ * @param session - Current session state (not mutated)
+ * @param userMessage - User's message for this step
+ * @param response - Parsed LLM response plus attempts and usage
+ * @param options - Step options (field type registry, grounding policy)
+ * @returns OrchestratorResult for the step
  */
-function isFormComplete(
+export function buildStepResult(
   form: FormDefinition,
   session: Session,
-  extractedFields: Record<string, FieldValue>
-): boolean {
-  const existingFieldIds = new Set(
-    session.fields.map((f) => f.fieldId)
-  );
-  const newFieldIds = new Set(
-    Object.keys(extractedFields)
-      .map((name) => form.fields.find((f) => f.name === name)?.id)
-      .filter((id): id is string => id !== undefined)
+  userMessage: string,
+  response: StepResponse,
+  options: RunLlmStepOptions
+): OrchestratorResult {
+  // Normalize and validate extracted values (reject invalid values per field)
+  const validated = checkConsent(
+    form,
+    userMessage,
+    partitionExtractedFields(
+      form,
+      session,
+      response.extractedFields,
+      options
+    )
   );
+  const {
+    accepted: extractedFields,
+    raw: rawFields,
+    rejected: ungroundedRejections,
+    ungrounded: ungroundedFields,
+  } = checkGrounding(form, session, userMessage, validated, options);
+  const { accepted: declinedFields, rejected: rejectedDeclines } =
+    partitionDeclinedFields(form, response.declinedFields, extractedFields);
+
+  // Project the session forward to decide completion and the next field
+  const now = getReferenceTime(options);
+  const hypotheticalSession: Session = {
+    ...session,
+    fields: mergeDeclinedFields(
+      form,
+      mergeSessionFields(form, session.fields, extractedFields, now),
+      declinedFields,
+      now
+    ),
+  };
 
-  const allCollectedFieldIds = new Set([...existingFieldIds, ...newFieldIds]);
-  const requiredFields = form.fields.filter((f) => f.required);
+  const completion = assessCompletion(form, hypotheticalSession);
 
-  return requiredFields.every((f) => allCollectedFieldIds.has(f.id));
+  return {
+    botResponse: response.botResponse,
+    extractedFields,
+    rawFields,
+    rejectedFields: [
+      ...validated.rejected,
+      ...ungroundedRejections,
+      ...rejectedDeclines,
+    ],
+    correctedFields: findCorrectedFields(form, session, extractedFields),
+    ungroundedFields,
+    suspectedInjection: detectInjection(userMessage, options.injection),
+    declinedFields,
+    ruleViolations: completion.ruleViolations,
+    isComplete: completion.isComplete,
+    nextField: completion.nextField,
+    diagnostics: response.diagnostics,
+    usage: response.usage,
+    attempts: response.attempts,
+  };
 }
 
 /**
@@ -203,86 +277,46 @@ function isFormComplete(
  *
  * This is a pure function that:
  * - Takes current form definition and session state
+ * - Stops without calling the LLM once a session limit is reached
+ * - Optionally screens the message for prompt injection and delimits
+ *   user content
+ * - Optionally answers a bare value for the asked field without the LLM
+ * - Optionally redacts PII before the LLM call and restores it after
  * - Calls LLM to extract fields from user message
- * - Validates extracted fields
- * - Determines if form is complete
+ * - Parses the response (optionally asking the LLM to repair bad output)
+ * - Validates extracted fields, reporting invalid ones as rejected
+ * - Only accepts consent the user's message gives explicitly
+ * - Optionally checks that extracted values appear in the user's words
+ * - Accepts declines of optional fields ("skip", "prefer not to say")
+ * - Checks form-level rules and determines if form is complete
+ *   (from the collected values only, never from the LLM's claims)
  * - Returns result without side effects
  *
  * @param form - Form definition
  * @param session - Current session state (not mutated)
  * @param userMessage - User's message to process
  * @param llmClient - LLM client for completion (dependency injection)
- * @returns OrchestratorResult with bot response, extracted fields, completion status
+ * @param options - Optional behaviour switches (e.g. repair policy)
+ * @returns OrchestratorResult with bot response, accepted/rejected fields, completion status
  * @throws ClientError for invalid LLM responses or unknown fields
  */
 export async function runLlmStep(
   form: FormDefinition,
   session: Session,
   userMessage: string,
-  llmClient: LlmClient
+  llmClient: LlmClient,
+  options: RunLlmStepOptions = {}
 ): Promise<OrchestratorResult> {
-  // Build system prompt with form context
-  const systemPrompt = buildSystemPrompt(form, session);
-
-  // Build conversation history from session turns
-  const conversationHistory = buildConversationHistory(session);
-
-  // Build complete message array for LLM
-  const messages: LlmMessage[] = [
-    { role: 'system', content: systemPrompt },
-    ...conversationHistory,
-    { role: 'user', content: userMessage },
-  ];
-
-  // Call LLM
-  const llmResponse = await llmClient.complete(messages);
-
-  // Parse and validate response
-  const { botResponse, extractedFields } = parseExtractedFields(
-    llmResponse.content,
-    form
-  );
-
-  // Validate extracted field values (User Story 2: reject invalid values)
-  const fieldMap = new Map(form.fields.map((f) => [f.name, f]));
-  for (const [fieldName, fieldValue] of Object.entries(extractedFields)) {
-    const fieldDef = fieldMap.get(fieldName)!;
-    const validationResult = validateField(fieldDef, fieldValue);
-
-    if (!validationResult.valid) {
-      throw new ClientError(
-        validationResult.error,
-        400,
-        'VALIDATION_ERROR',
-        { fieldName, value: fieldValue, formId: form.id }
-      );
-    }
+  const prepared = prepareStep(form, session, userMessage, options);
+  if (prepared.op === 'skip') {
+    return prepared.result;
   }
 
-  // Determine if form is complete
-  const complete = isFormComplete(form, session, extractedFields);
-
-  // Determine next field
-  const hypotheticalSession: Session = {
-    ...session,
-    fields: [
-      ...session.fields,
-      ...Object.entries(extractedFields).map(([name, value]) => ({
-        fieldId: form.fields.find((f) => f.name === name)!.id,
-        value,
-        collectedAt: new Date(),
-      })),
-    ],
-  };
-
-  const nextField = complete
-    ? undefined
-    : determineNextField(form, hypotheticalSession) ?? undefined;
+  // Call LLM and parse response, then put redacted values back
+  const response = restoreResponse(
+    await completeWithRepair(form, prepared.messages, llmClient, options),
+    prepared.placeholders
+  );
 
-  return {
-    botResponse,
-    extractedFields,
-    isComplete: complete,
-    nextField,
-  };
+  return buildStepResult(form, session, userMessage, response, options);
 }
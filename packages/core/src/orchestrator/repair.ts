@@ -0,0 +1,119 @@
+/**
+ * Self-correcting retry helpers for malformed LLM output
+ *
+ * @module repair
+ */
+
+import type { LlmMessage, RepairPolicy } from '../types';
+import { ClientError } from '../types';
+
+/**
+ * Error codes caused by the model's output rather than by the caller.
+ * Only these are worth feeding back to the LLM for another attempt.
+ */
+const REPAIRABLE_ERROR_CODES = new Set(['INVALID_LLM_RESPONSE', 'UNKNOWN_FIELD']);
+
+/**
+ * Resolves the total number of LLM calls allowed for one step
+ *
+ * @param policy - Optional repair policy (undefined means no retries)
+ * @returns Maximum number of attempts (at least 1)
+ * @throws ClientError if maxAttempts is not a positive integer
+ */
+export function resolveMaxAttempts(policy?: RepairPolicy): number {
+  if (policy === undefined) {
+    return 1;
+  }
+
+  if (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1) {
+    throw new ClientError(
+      'Repair policy maxAttempts must be a positive integer',
+      400,
+      'INVALID_OPTIONS',
+      { maxAttempts: policy.maxAttempts }
+    );
+  }
+
+  return policy.maxAttempts;
+}
+
+/**
+ * Checks whether an error was caused by bad LLM output
+ *
+ * @param error - Error thrown while parsing the LLM response
+ * @returns True if another attempt with corrective feedback may succeed
+ */
+export function isRepairableError(error: unknown): error is ClientError {
+  return (
+    error instanceof ClientError && REPAIRABLE_ERROR_CODES.has(error.errorCode)
+  );
+}
+
+/**
+ * Builds the messages appended to the conversation before a retry
+ * Echoes the rejected output back as the assistant turn, followed by
+ * a corrective user message describing what was wrong with it.
+ *
+ * @param rejectedContent - Raw content of the rejected LLM response
+ * @param error - Parse error describing the problem
+ * @returns Messages to append before calling the LLM again
+ */
+export function buildRepairMessages(
+  rejectedContent: string,
+  error: ClientError
+): LlmMessage[] {
+  const fieldName = error.context?.fieldName;
+  const details = typeof fieldName === 'string' ? ` (field: ${fieldName})` : '';
+
+  return [
+    { role: 'assistant', content: rejectedContent },
+    {
+      role: 'user',
+      content: `Your previous response could not be used: ${error.message}${details}.
+Reply again with only a JSON object of the form {"botResponse": string, "extractedFields": object}, using exact field names from the form definition.`,
+    },
+  ];
+}
+
+/**
+ * Re-throws the last repair failure annotated with the attempt count
+ *
+ * @param error - Error from the final attempt
+ * @param attempts - Number of attempts made
+ * @returns Never returns
+ * @throws ClientError with the original message, code and context plus attempts
+ */
+export function throwRepairFailure(error: ClientError, attempts: number): never {
+  throw new ClientError(error.message, error.statusCode, error.errorCode, {
+    ...error.context,
+    attempts,
+  });
+}
+
+/**
+ * Decides how to continue after an attempt's output could not be parsed
+ *
+ * @param conversation - Messages sent for the failed attempt
+ * @param rejectedContent - Raw content of the rejected LLM response
+ * @param error - Error thrown while parsing it
+ * @param attempt - Number of the failed attempt (1-based)
+ * @param maxAttempts - Total number of attempts allowed
+ * @returns Messages to send for the next attempt
+ * @throws The original error if it is not repairable, or a ClientError
+ *   annotated with attempts once every allowed attempt has failed
+ */
+export function continueAfterFailure(
+  conversation: LlmMessage[],
+  rejectedContent: string,
+  error: unknown,
+  attempt: number,
+  maxAttempts: number
+): LlmMessage[] {
+  if (!isRepairableError(error)) {
+    throw error;
+  }
+  if (attempt >= maxAttempts) {
+    throwRepairFailure(error, attempt);
+  }
+  return [...conversation, ...buildRepairMessages(rejectedContent, error)];
+}
@@ -0,0 +1,358 @@
+/**
+ * LLM response parsing utilities
+ *
+ * @module response-parser
+ */
+
+import type {
+  FormDefinition,
+  FormField,
+  FieldValue,
+  ParseDiagnostic,
+  ParsingMode,
+  SimpleFieldValue,
+} from '../types';
+import { ClientError } from '../types';
+import { extractJsonObject, repairJsonSyntax } from './json-repair';
+
+/**
+ * Parsed JSON envelope returned by the LLM
+ */
+export interface ParsedLlmResponse {
+  botResponse: string;
+  extractedFields: Record<string, FieldValue>;
+  /** Optional fields the user declined (empty when the LLM omits the key) */
+  declinedFields: string[];
+  /** Recoveries made in lenient mode (empty in strict mode) */
+  diagnostics: ParseDiagnostic[];
+}
+
+/**
+ * Throws the error for content that cannot be parsed as JSON
+ *
+ * @param llmResponse - Raw response (for error context)
+ * @param error - Error thrown by JSON.parse
+ * @throws ClientError with INVALID_LLM_RESPONSE
+ */
+function throwInvalidJson(llmResponse: string, error: unknown): never {
+  const errorMessage =
+    error instanceof Error ? error.message : 'Unknown parse error';
+  throw new ClientError(
+    'LLM returned invalid JSON',
+    400,
+    'INVALID_LLM_RESPONSE',
+    {
+      response: llmResponse,
+      parseError: errorMessage,
+    }
+  );
+}
+
+/**
+ * Parses the content as JSON, recovering from surrounding text and
+ * common syntax slips
+ *
+ * @param llmResponse - Raw LLM response content
+ * @param diagnostics - Collects a diagnostic for each recovery
+ * @returns Parsed JSON value
+ * @throws ClientError if no JSON object can be recovered
+ */
+function parseLenientJson(
+  llmResponse: string,
+  diagnostics: ParseDiagnostic[]
+): unknown {
+  try {
+    return JSON.parse(llmResponse);
+  } catch (error: unknown) {
+    const extracted = extractJsonObject(llmResponse);
+    if (!extracted) {
+      throwInvalidJson(llmResponse, error);
+    }
+    if (extracted.trimmed) {
+      diagnostics.push({
+        code: 'EXTRACTED_JSON',
+        message: 'Ignored text around the JSON object',
+      });
+    }
+
+    try {
+      return JSON.parse(extracted.json);
+    } catch {
+      const repaired = repairJsonSyntax(extracted.json);
+      try {
+        const parsed: unknown = JSON.parse(repaired.json);
+        diagnostics.push({
+          code: 'REPAIRED_SYNTAX',
+          message: `Repaired JSON syntax: ${repaired.repairs.join(', ')}`,
+        });
+        return parsed;
+      } catch (repairError: unknown) {
+        throwInvalidJson(llmResponse, repairError);
+      }
+    }
+  }
+}
+
+/**
+ * Parses the content as JSON, in the given mode
+ *
+ * @param llmResponse - Raw LLM response content
+ * @param mode - Parsing mode
+ * @param diagnostics - Collects recoveries (lenient mode)
+ * @returns Parsed JSON value
+ * @throws ClientError if the content is not (recoverable) JSON
+ */
+function parseJson(
+  llmResponse: string,
+  mode: ParsingMode,
+  diagnostics: ParseDiagnostic[]
+): unknown {
+  if (mode === 'lenient') {
+    return parseLenientJson(llmResponse, diagnostics);
+  }
+  try {
+    return JSON.parse(llmResponse);
+  } catch (error: unknown) {
+    throwInvalidJson(llmResponse, error);
+  }
+}
+
+/**
+ * Checks that a parsed value is a plain (non-array) object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks that an extracted value is a supported SimpleFieldValue
+ * (strings, finite numbers, booleans, string lists or null; dates
+ * arrive as strings)
+ */
+function isSimpleFieldValue(value: unknown): value is SimpleFieldValue {
+  return (
+    value === null ||
+    typeof value === 'string' ||
+    typeof value === 'boolean' ||
+    (typeof value === 'number' && Number.isFinite(value)) ||
+    (Array.isArray(value) && value.every((item) => typeof item === 'string'))
+  );
+}
+
+/**
+ * Checks whether a parsed JSON value is usable for a field: an object
+ * of simple values (its parts) for fields with sub-fields, otherwise a
+ * simple value; null is accepted for both
+ */
+function isFieldValue(value: unknown, field: FormField): value is FieldValue {
+  if (field.subFields && isRecord(value)) {
+    return Object.values(value).every(isSimpleFieldValue);
+  }
+  return isSimpleFieldValue(value);
+}
+
+/**
+ * Inputs shared by the field readers
+ */
+interface FieldReadContext {
+  form: FormDefinition;
+  mode: ParsingMode;
+  llmResponse: string;
+  diagnostics: ParseDiagnostic[];
+}
+
+/**
+ * Reports a field reference that cannot be used
+ * Throws in strict mode; records a diagnostic in lenient mode.
+ *
+ * @param problem - 'unknown' (not in the form) or 'invalid' (bad value type)
+ * @param fieldName - Field name returned by the LLM
+ * @param context - Mode, form and diagnostics collector
+ * @throws ClientError in strict mode
+ */
+function dropField(
+  problem: 'unknown' | 'invalid',
+  fieldName: string,
+  context: FieldReadContext
+): void {
+  if (context.mode === 'strict') {
+    throw problem === 'unknown'
+      ? new ClientError('Field not in form definition', 400, 'UNKNOWN_FIELD', {
+          fieldName,
+          formId: context.form.id,
+        })
+      : new ClientError(
+          'LLM returned an unsupported value type',
+          400,
+          'INVALID_LLM_RESPONSE',
+          { fieldName, response: context.llmResponse }
+        );
+  }
+
+  context.diagnostics.push(
+    problem === 'unknown'
+      ? {
+          code: 'DROPPED_UNKNOWN_FIELD',
+          message: 'Ignored field not in form definition',
+          fieldName,
+        }
+      : {
+          code: 'DROPPED_INVALID_VALUE',
+          message: 'Ignored value of an unsupported type',
+          fieldName,
+        }
+  );
+}
+
+/**
+ * Reads extractedFields, keeping known fields with supported values
+ *
+ * @param extracted - Parsed extractedFields object
+ * @param context - Mode, form and diagnostics collector
+ * @returns Field values keyed by name
+ * @throws ClientError in strict mode for unknown fields or bad values
+ */
+function readExtractedFields(
+  extracted: Record<string, unknown>,
+  context: FieldReadContext
+): Record<string, FieldValue> {
+  const fieldMap = new Map(context.form.fields.map((f) => [f.name, f]));
+  const fields: Record<string, FieldValue> = {};
+
+  for (const [fieldName, value] of Object.entries(extracted)) {
+    const field = fieldMap.get(fieldName);
+    if (!field) {
+      dropField('unknown', fieldName, context);
+    } else if (!isFieldValue(value, field)) {
+      dropField('invalid', fieldName, context);
+    } else {
+      fields[fieldName] = value;
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Reads the optional declinedFields list from the parsed envelope
+ *
+ * @param parsed - Parsed JSON object
+ * @param context - Mode, form and diagnostics collector
+ * @returns Known declined field names, or empty array when absent
+ * @throws ClientError in strict mode if declinedFields is not an array
+ *   of strings or names an unknown field
+ */
+function readDeclinedFields(
+  parsed: Record<string, unknown>,
+  context: FieldReadContext
+): string[] {
+  const declined = parsed.declinedFields;
+  if (declined === undefined) {
+    return [];
+  }
+
+  if (
+    !Array.isArray(declined) ||
+    !declined.every((name): name is string => typeof name === 'string')
+  ) {
+    if (context.mode === 'lenient') {
+      context.diagnostics.push({
+        code: 'DROPPED_INVALID_VALUE',
+        message: 'Ignored declinedFields that is not a list of field names',
+      });
+      return [];
+    }
+    throw new ClientError(
+      'LLM response declinedFields must be an array of field names',
+      400,
+      'INVALID_LLM_RESPONSE',
+      { response: context.llmResponse }
+    );
+  }
+
+  const validFieldNames = new Set(context.form.fields.map((f) => f.name));
+  return declined.filter((fieldName) => {
+    if (validFieldNames.has(fieldName)) {
+      return true;
+    }
+    dropField('unknown', fieldName, context);
+    return false;
+  });
+}
+
+/**
+ * Checks the envelope's shape and the types of its required members
+ *
+ * @param parsed - Parsed JSON value
+ * @param llmResponse - Raw response (for error context)
+ * @returns The envelope with a string botResponse and object extractedFields
+ * @throws ClientError if members are missing or of the wrong type
+ */
+function assertEnvelope(
+  parsed: unknown,
+  llmResponse: string
+): Record<string, unknown> & {
+  botResponse: string;
+  extractedFields: Record<string, unknown>;
+} {
+  if (
+    !isRecord(parsed) ||
+    !('botResponse' in parsed) ||
+    !('extractedFields' in parsed)
+  ) {
+    throw new ClientError(
+      'LLM response missing required fields (botResponse, extractedFields)',
+      400,
+      'INVALID_LLM_RESPONSE',
+      { response: llmResponse }
+    );
+  }
+
+  const { botResponse, extractedFields } = parsed;
+  if (typeof botResponse !== 'string' || !isRecord(extractedFields)) {
+    throw new ClientError(
+      'LLM response botResponse must be a string and extractedFields an object',
+      400,
+      'INVALID_LLM_RESPONSE',
+      { response: llmResponse }
+    );
+  }
+
+  return { ...parsed, botResponse, extractedFields };
+}
+
+/**
+ * Parses and validates LLM response containing extracted fields
+ *
+ * In strict mode any deviation from the envelope throws. In lenient
+ * mode the first JSON object is recovered from surrounding text,
+ * common syntax slips are repaired, and unknown fields or unusable
+ * values are dropped; each recovery is reported in `diagnostics`.
+ *
+ * @param llmResponse - Raw LLM response content (expected to be JSON)
+ * @param form - Form definition to validate against
+ * @param mode - Parsing mode (default 'strict')
+ * @returns Parsed response with botResponse, extractedFields,
+ *   declinedFields and diagnostics
+ * @throws ClientError if JSON is invalid, members have the wrong type,
+ *   or (strict mode) the response references unknown fields
+ */
+export function parseExtractedFields(
+  llmResponse: string,
+  form: FormDefinition,
+  mode: ParsingMode = 'strict'
+): ParsedLlmResponse {
+  const diagnostics: ParseDiagnostic[] = [];
+  const envelope = assertEnvelope(
+    parseJson(llmResponse, mode, diagnostics),
+    llmResponse
+  );
+  const context: FieldReadContext = { form, mode, llmResponse, diagnostics };
+
+  return {
+    botResponse: envelope.botResponse,
+    extractedFields: readExtractedFields(envelope.extractedFields, context),
+    declinedFields: readDeclinedFields(envelope, context),
+    diagnostics,
+  };
+}
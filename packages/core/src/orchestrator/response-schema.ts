@@ -0,0 +1,149 @@
+/**
+ * JSON Schema for the LLM response envelope (structured-output mode)
+ *
+ * @module response-schema
+ */
+
+import type {
+  FormDefinition,
+  FormField,
+  JsonSchema,
+  LlmCallOptions,
+  LlmClient,
+  SystemPromptOptions,
+} from '../types';
+import { resolveFieldType, toSubFormField } from '../field-types';
+
+/**
+ * Builds the schema for a COMPOSITE value: an object whose properties
+ * are the sub-fields' schemas, all optional since parts may be given
+ * over several turns
+ *
+ * @param field - COMPOSITE field definition
+ * @param options - Registry for custom field types
+ * @returns JSON Schema for the parts object
+ */
+function buildPartsSchema(
+  field: FormField,
+  options: SystemPromptOptions
+): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  for (const subField of field.subFields ?? []) {
+    properties[subField.name] = buildFieldSchema(
+      toSubFormField(field, subField),
+      options
+    );
+  }
+  return { type: 'object', properties, additionalProperties: false };
+}
+
+/**
+ * Builds the schema for one field's value
+ * Uses the type plugin's schema (plain string when it has none) and
+ * describes the field with its label, description and format hint.
+ *
+ * @param field - Field definition
+ * @param options - Registry for custom field types
+ * @returns JSON Schema for the field value
+ */
+function buildFieldSchema(
+  field: FormField,
+  options: SystemPromptOptions
+): JsonSchema {
+  const plugin = resolveFieldType(field, options.fieldTypes);
+  const schema = field.subFields
+    ? buildPartsSchema(field, options)
+    : (plugin.jsonSchema?.(field) ?? { type: 'string' });
+  const description = [
+    field.label,
+    field.description,
+    plugin.promptHint?.(field),
+  ]
+    .filter((part) => part !== undefined && part !== '')
+    .join(' - ');
+
+  return { ...schema, description };
+}
+
+/**
+ * Generates a strict JSON Schema for the response envelope of a form
+ *
+ * The schema mirrors what parseExtractedFields accepts: a botResponse
+ * string, an extractedFields object limited to the form's fields (with
+ * per-field types, ENUM options and min/max), and, when the form has
+ * optional fields, a declinedFields list of their names. Values are
+ * still normalized and validated after parsing.
+ *
+ * @param form - Form definition
+ * @param options - Registry for custom field types
+ * @returns JSON Schema for the LLM response
+ * @throws ClientError if a field's type is not registered
+ *
+ * @example
+ * ```typescript
+ * const schema = buildResponseSchema(form);
+ * // { type: 'object', properties: { botResponse: {...}, extractedFields: {...} }, ... }
+ * ```
+ */
+export function buildResponseSchema(
+  form: FormDefinition,
+  options: SystemPromptOptions = {}
+): JsonSchema {
+  const fieldProperties: Record<string, JsonSchema> = {};
+  for (const field of form.fields) {
+    fieldProperties[field.name] = buildFieldSchema(field, options);
+  }
+
+  const properties: Record<string, JsonSchema> = {
+    botResponse: {
+      type: 'string',
+      description: 'Natural language reply to show the user',
+    },
+    extractedFields: {
+      type: 'object',
+      description: 'Field values mentioned by the user in this message',
+      properties: fieldProperties,
+      additionalProperties: false,
+    },
+  };
+
+  const optionalNames = form.fields
+    .filter((field) => !field.required)
+    .map((field) => field.name);
+  if (optionalNames.length > 0) {
+    properties.declinedFields = {
+      type: 'array',
+      description: 'Optional fields the user explicitly declined to answer',
+      items: { type: 'string', enum: optionalNames },
+      uniqueItems: true,
+    };
+  }
+
+  return {
+    type: 'object',
+    properties,
+    required: ['botResponse', 'extractedFields'],
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Builds the per-call options for the LLM client
+ * Clients that cannot constrain output get no schema and rely on the
+ * JSON format described in the system prompt.
+ *
+ * @param form - Form definition
+ * @param llmClient - LLM client (checked for supportsResponseSchema)
+ * @param options - Registry for custom field types
+ * @returns Call options with the response schema, or undefined
+ */
+export function buildCallOptions(
+  form: FormDefinition,
+  llmClient: LlmClient,
+  options: SystemPromptOptions
+): LlmCallOptions | undefined {
+  if (!llmClient.supportsResponseSchema) {
+    return undefined;
+  }
+  return { responseSchema: buildResponseSchema(form, options) };
+}
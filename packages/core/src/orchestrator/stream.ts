@@ -0,0 +1,216 @@
+/**
+ * Streaming variant of the orchestrator step
+ *
+ * @module stream
+ */
+
+import type {
+  FormDefinition,
+  Session,
+  LlmCallOptions,
+  LlmClient,
+  LlmMessage,
+  LlmStepStreamEvent,
+  RunLlmStepOptions,
+  UsageRecord,
+} from '../types';
+import { toUsageRecord } from '../usage';
+import { buildStepResult, prepareStep } from './orchestrator';
+import type { StepResponse } from './orchestrator';
+import { parseExtractedFields } from './response-parser';
+import { resolveMaxAttempts, continueAfterFailure } from './repair';
+import { buildCallOptions } from './response-schema';
+import { INITIAL_SCAN_STATE, scanEnvelopeChunk } from './envelope-scanner';
+import {
+  restoreResponse,
+  restoreText,
+  splitPlaceholderTail,
+} from '../redaction';
+import type { PlaceholderMap } from '../redaction';
+
+/**
+ * Streams one LLM completion, yielding botResponse deltas
+ * Falls back to complete() when the client cannot stream, yielding
+ * the whole bot response as a single delta.
+ *
+ * @param messages - Messages to send to the LLM
+ * @param llmClient - LLM client (stream() used when available)
+ * @param callOptions - Per-call settings (response schema)
+ * @returns Full response content and its usage once the stream ends
+ */
+async function* streamCompletion(
+  messages: LlmMessage[],
+  llmClient: LlmClient,
+  callOptions: LlmCallOptions | undefined
+): AsyncGenerator<
+  LlmStepStreamEvent,
+  { content: string; usage: UsageRecord | null }
+> {
+  const chunks = llmClient.stream
+    ? llmClient.stream(messages, callOptions)
+    : [await llmClient.complete(messages, callOptions)];
+  let state = INITIAL_SCAN_STATE;
+  let content = '';
+  let usage: UsageRecord | null = null;
+
+  for await (const chunk of chunks) {
+    content += chunk.content;
+    usage = toUsageRecord(chunk) ?? usage;
+    const scanned = scanEnvelopeChunk(state, chunk.content);
+    state = scanned.state;
+    if (scanned.delta !== '') {
+      yield { op: 'delta', text: scanned.delta };
+    }
+  }
+
+  return { content, usage };
+}
+
+/**
+ * Streams and parses the LLM response, retrying with corrective
+ * feedback when a repair policy allows it
+ *
+ * @param form - Form definition
+ * @param messages - Initial message array for the LLM
+ * @param llmClient - LLM client
+ * @param options - Step options (repair policy)
+ * @returns Parsed response plus the attempts used and their usage
+ * @throws ClientError once every allowed attempt has failed
+ */
+async function* streamWithRepair(
+  form: FormDefinition,
+  messages: LlmMessage[],
+  llmClient: LlmClient,
+  options: RunLlmStepOptions
+): AsyncGenerator<LlmStepStreamEvent, StepResponse> {
+  const maxAttempts = resolveMaxAttempts(options.repair);
+  const callOptions = buildCallOptions(form, llmClient, options);
+  const usage: UsageRecord[] = [];
+  let conversation = messages;
+
+  for (let attempt = 1; ; attempt++) {
+    if (attempt > 1) {
+      yield { op: 'retry', attempt };
+    }
+    const completion = yield* streamCompletion(
+      conversation,
+      llmClient,
+      callOptions
+    );
+    if (completion.usage) {
+      usage.push(completion.usage);
+    }
+
+    try {
+      const parsed = parseExtractedFields(
+        completion.content,
+        form,
+        options.parsing
+      );
+      return { ...parsed, attempts: attempt, usage };
+    } catch (error: unknown) {
+      conversation = continueAfterFailure(
+        conversation,
+        completion.content,
+        error,
+        attempt,
+        maxAttempts
+      );
+    }
+  }
+}
+
+/**
+ * Puts redacted values back into streamed events and the final response
+ * A delta ending in what may be the start of a placeholder is held back
+ * until the next delta (or the end of the attempt) completes it.
+ *
+ * @param source - Events and response from streamWithRepair
+ * @param placeholders - Mapping from redactMessages
+ * @returns Events and response with original values restored
+ */
+async function* restoreStream(
+  source: AsyncGenerator<LlmStepStreamEvent, StepResponse>,
+  placeholders: PlaceholderMap
+): AsyncGenerator<LlmStepStreamEvent, StepResponse> {
+  let pending = '';
+  const flush = (): LlmStepStreamEvent | null => {
+    const text = restoreText(pending, placeholders);
+    pending = '';
+    return text === '' ? null : { op: 'delta', text };
+  };
+
+  for (;;) {
+    const next = await source.next();
+    if (next.done) {
+      const last = flush();
+      if (last) {
+        yield last;
+      }
+      return restoreResponse(next.value, placeholders);
+    }
+    if (next.value.op !== 'delta') {
+      // A retry discards the attempt's text, including any held-back tail
+      pending = '';
+      yield next.value;
+      continue;
+    }
+    const split = splitPlaceholderTail(pending + next.value.text);
+    pending = split.pending;
+    if (split.ready !== '') {
+      yield { op: 'delta', text: restoreText(split.ready, placeholders) };
+    }
+  }
+}
+
+/**
+ * Executes one step of form collection, streaming the bot response
+ *
+ * Yields `delta` events with botResponse text as the LLM produces it,
+ * then a single `result` event carrying the same fully validated
+ * OrchestratorResult runLlmStep would return. When a repair policy
+ * triggers another attempt, a `retry` event tells the caller to
+ * discard the text streamed so far.
+ *
+ * @param form - Form definition
+ * @param session - Current session state (not mutated)
+ * @param userMessage - User's message to process
+ * @param llmClient - LLM client; uses stream() when implemented
+ * @param options - Optional behaviour switches (same as runLlmStep)
+ * @returns Async generator of stream events
+ * @throws ClientError for invalid LLM responses or unknown fields
+ *
+ * @example
+ * ```typescript
+ * for await (const event of runLlmStepStream(form, session, message, llm)) {
+ *   if (event.op === 'delta') widget.append(event.text);
+ *   if (event.op === 'retry') widget.clear();
+ *   if (event.op === 'result') session = applyStep(form, session, message, event.result, clock);
+ * }
+ * ```
+ */
+export async function* runLlmStepStream(
+  form: FormDefinition,
+  session: Session,
+  userMessage: string,
+  llmClient: LlmClient,
+  options: RunLlmStepOptions = {}
+): AsyncGenerator<LlmStepStreamEvent, void> {
+  const prepared = prepareStep(form, session, userMessage, options);
+  if (prepared.op === 'skip') {
+    yield { op: 'delta', text: prepared.result.botResponse };
+    yield { op: 'result', result: prepared.result };
+    return;
+  }
+
+  const { messages, placeholders } = prepared;
+  const events = streamWithRepair(form, messages, llmClient, options);
+  const response = yield* placeholders.size > 0
+    ? restoreStream(events, placeholders)
+    : events;
+
+  yield {
+    op: 'result',
+    result: buildStepResult(form, session, userMessage, response, options),
+  };
+}
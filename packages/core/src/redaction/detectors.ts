@@ -0,0 +1,49 @@
+/**
+ * Built-in PII detectors
+ *
+ * @module detectors
+ */
+
+import type { PiiDetector } from '../types';
+import { validateEmail, validatePhone } from '../validation/validators';
+
+/**
+ * Email-like token: local part, "@", domain ending in a letter TLD
+ */
+const EMAIL_CANDIDATE_REGEX =
+  /[^\s@<>()[\]"',;:]+@[^\s@<>()[\]"',;:]+\.[a-z]{2,}/gi;
+
+/**
+ * Phone-like run of digits, spaces and separators
+ */
+const PHONE_CANDIDATE_REGEX = /\+?\(?\d[\d\s\-().]{6,}\d/g;
+
+/**
+ * Detects email addresses accepted by validateEmail
+ */
+export const EMAIL_DETECTOR: PiiDetector = {
+  kind: 'EMAIL',
+  find: (text) =>
+    (text.match(EMAIL_CANDIDATE_REGEX) ?? []).filter(
+      (candidate) => validateEmail(candidate).valid
+    ),
+};
+
+/**
+ * Detects phone numbers accepted by validatePhone
+ */
+export const PHONE_DETECTOR: PiiDetector = {
+  kind: 'PHONE',
+  find: (text) =>
+    (text.match(PHONE_CANDIDATE_REGEX) ?? [])
+      .map((candidate) => candidate.trim())
+      .filter((candidate) => validatePhone(candidate).valid),
+};
+
+/**
+ * Detectors used when a RedactionPolicy does not list its own
+ */
+export const BUILT_IN_PII_DETECTORS: readonly PiiDetector[] = [
+  EMAIL_DETECTOR,
+  PHONE_DETECTOR,
+];
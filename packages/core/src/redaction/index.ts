@@ -0,0 +1,16 @@
+/**
+ * Redaction module barrel export
+ */
+
+export {
+  BUILT_IN_PII_DETECTORS,
+  EMAIL_DETECTOR,
+  PHONE_DETECTOR,
+} from './detectors';
+export {
+  redactMessages,
+  restoreResponse,
+  restoreText,
+  splitPlaceholderTail,
+} from './redact';
+export type { PlaceholderMap } from './redact';
@@ -0,0 +1,214 @@
+/**
+ * Replacement of PII with placeholders in LLM messages, and back
+ *
+ * @module redact
+ */
+
+import type {
+  FieldValue,
+  LlmMessage,
+  PiiDetector,
+  RedactionPolicy,
+  SimpleFieldValue,
+} from '../types';
+import { isCompositeValue } from '../field-types';
+import { BUILT_IN_PII_DETECTORS } from './detectors';
+
+/**
+ * Placeholder format, e.g. "[EMAIL_1]"
+ */
+const PLACEHOLDER_REGEX = /\[[A-Z][A-Z0-9_]*_\d+\]/g;
+
+/**
+ * Longest text that may be an unfinished placeholder in a stream
+ */
+const MAX_PLACEHOLDER_LENGTH = 40;
+
+/**
+ * Instruction appended to the system prompt when placeholders are used
+ */
+const PLACEHOLDER_INSTRUCTION =
+  '\n- Some personal data has been replaced by placeholders such as ' +
+  '[EMAIL_1]; treat each placeholder as the value itself and copy it ' +
+  'verbatim into extractedFields or botResponse\n';
+
+/**
+ * Placeholders keyed by placeholder text, mapping to the original value
+ */
+export type PlaceholderMap = ReadonlyMap<string, string>;
+
+/**
+ * Replaces every detected value in a text, assigning new placeholders
+ * to values not seen before
+ *
+ * @param text - Text to redact
+ * @param detectors - PII detectors, applied in order
+ * @param byValue - Placeholders assigned so far, keyed by value (mutated)
+ * @returns Redacted text
+ */
+function redactText(
+  text: string,
+  detectors: readonly PiiDetector[],
+  byValue: Map<string, string>
+): string {
+  return detectors.reduce((current, detector) => {
+    // Longest first, so a value is not broken up by a shorter match inside it
+    const found = [...new Set(detector.find(current))]
+      .filter((value) => value !== '')
+      .sort((a, b) => b.length - a.length);
+
+    return found.reduce((redacted, value) => {
+      let placeholder = byValue.get(value);
+      if (placeholder === undefined) {
+        const count = [...byValue.values()].filter((p) =>
+          p.startsWith(`[${detector.kind}_`)
+        ).length;
+        placeholder = `[${detector.kind}_${count + 1}]`;
+        byValue.set(value, placeholder);
+      }
+      return redacted.split(value).join(placeholder);
+    }, current);
+  }, text);
+}
+
+/**
+ * Replaces PII in every message with stable placeholders
+ *
+ * Placeholders are numbered in order of first appearance in the
+ * conversation (then the system prompt), so numbering stays the same
+ * from one step to the next as the history grows.
+ *
+ * @param messages - Messages about to be sent to the LLM
+ * @param policy - Redaction policy (undefined leaves messages unchanged)
+ * @returns Redacted messages and the placeholder mapping
+ */
+export function redactMessages(
+  messages: LlmMessage[],
+  policy?: RedactionPolicy
+): { messages: LlmMessage[]; placeholders: PlaceholderMap } {
+  if (!policy) {
+    return { messages, placeholders: new Map() };
+  }
+
+  const detectors = policy.detectors ?? BUILT_IN_PII_DETECTORS;
+  const byValue = new Map<string, string>();
+  const redacted = new Map<LlmMessage, string>();
+  const ordered = [
+    ...messages.filter((m) => m.role !== 'system'),
+    ...messages.filter((m) => m.role === 'system'),
+  ];
+  for (const message of ordered) {
+    redacted.set(message, redactText(message.content, detectors, byValue));
+  }
+
+  const placeholders = new Map(
+    [...byValue].map(([value, placeholder]) => [placeholder, value])
+  );
+  const instruction = placeholders.size > 0 ? PLACEHOLDER_INSTRUCTION : '';
+
+  return {
+    messages: messages.map((message) => ({
+      ...message,
+      content:
+        (redacted.get(message) ?? message.content) +
+        (message.role === 'system' ? instruction : ''),
+    })),
+    placeholders,
+  };
+}
+
+/**
+ * Replaces placeholders in a text with the original values
+ * Unknown placeholders are left as they are.
+ *
+ * @param text - Text produced by the LLM
+ * @param placeholders - Mapping from redactMessages
+ * @returns Text with original values restored
+ */
+export function restoreText(text: string, placeholders: PlaceholderMap): string {
+  if (placeholders.size === 0) {
+    return text;
+  }
+  return text.replace(
+    PLACEHOLDER_REGEX,
+    (placeholder) => placeholders.get(placeholder) ?? placeholder
+  );
+}
+
+/**
+ * Restores original values in every string of a simple field value
+ *
+ * @param value - Value (or composite part) returned by the LLM
+ * @param placeholders - Mapping from redactMessages
+ * @returns Value with placeholders replaced
+ */
+function restoreSimpleValue(
+  value: SimpleFieldValue,
+  placeholders: PlaceholderMap
+): SimpleFieldValue {
+  if (typeof value === 'string') {
+    return restoreText(value, placeholders);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => restoreText(item, placeholders));
+  }
+  return value;
+}
+
+/**
+ * Restores original values in a parsed LLM response
+ *
+ * @param response - Parsed response with botResponse and extractedFields
+ * @param placeholders - Mapping from redactMessages
+ * @returns Copy of the response with placeholders replaced
+ */
+export function restoreResponse<
+  T extends {
+    botResponse: string;
+    extractedFields: Record<string, FieldValue>;
+  },
+>(response: T, placeholders: PlaceholderMap): T {
+  if (placeholders.size === 0) {
+    return response;
+  }
+
+  const extractedFields: Record<string, FieldValue> = {};
+  for (const [name, value] of Object.entries(response.extractedFields)) {
+    extractedFields[name] = isCompositeValue(value)
+      ? Object.fromEntries(
+          Object.entries(value).map(([part, partValue]) => [
+            part,
+            restoreSimpleValue(partValue, placeholders),
+          ])
+        )
+      : restoreSimpleValue(value, placeholders);
+  }
+
+  return {
+    ...response,
+    botResponse: restoreText(response.botResponse, placeholders),
+    extractedFields,
+  };
+}
+
+/**
+ * Splits streamed text into a part that can be restored now and a tail
+ * that may be the start of a placeholder completed by the next delta
+ *
+ * @param text - Pending text plus the new delta
+ * @returns Text ready to restore and text to hold back
+ */
+export function splitPlaceholderTail(text: string): {
+  ready: string;
+  pending: string;
+} {
+  const open = text.lastIndexOf('[');
+  if (
+    open === -1 ||
+    text.includes(']', open) ||
+    text.length - open > MAX_PLACEHOLDER_LENGTH
+  ) {
+    return { ready: text, pending: '' };
+  }
+  return { ready: text.slice(0, open), pending: text.slice(open) };
+}
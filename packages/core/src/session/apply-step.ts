@@ -0,0 +1,285 @@
+/**
+ * Pure session reducer - applies an orchestrator result to a session
+ *
+ * @module apply-step
+ */
+
+import type {
+  Clock,
+  FieldValue,
+  FormDefinition,
+  FormField,
+  OrchestratorResult,
+  Session,
+  SessionField,
+} from '../types';
+import { ClientError, SessionStatus, TurnRole } from '../types';
+import { accumulateUsage } from '../usage';
+import { recordConsent } from './consent';
+import { isCompositeValue, isPartGiven } from '../field-types/composite';
+
+/**
+ * Compares two field values, treating Dates with the same instant,
+ * selections with the same options (in any order) and composites with
+ * the same parts as equal
+ *
+ * @param a - First value
+ * @param b - Second value
+ * @returns True if both values are the same
+ */
+export function isSameFieldValue(a: FieldValue, b: FieldValue): boolean {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    // Selections are sets: the order options were named in does not matter
+    return a.length === b.length && a.every((item) => b.includes(item));
+  }
+  if (isCompositeValue(a) && isCompositeValue(b)) {
+    return isCompositeExtension(a, b) && isCompositeExtension(b, a);
+  }
+  return a === b;
+}
+
+/**
+ * Checks whether a new composite value only adds parts to an earlier
+ * one (filling in an address) rather than changing a part already given
+ *
+ * @param previous - Collected value
+ * @param next - New value
+ * @returns True if both are composites and every given part is unchanged
+ */
+export function isCompositeExtension(
+  previous: FieldValue,
+  next: FieldValue
+): boolean {
+  if (!isCompositeValue(previous) || !isCompositeValue(next)) {
+    return false;
+  }
+  return Object.entries(previous).every(
+    ([name, part]) =>
+      !isPartGiven(part) || isSameFieldValue(part, next[name] ?? null)
+  );
+}
+
+/**
+ * Looks up a field definition by name
+ *
+ * @param form - Form definition
+ * @param fieldName - Field name (FormField.name)
+ * @returns Matching field definition
+ * @throws ClientError if the field is not in the form definition
+ */
+function resolveField(form: FormDefinition, fieldName: string): FormField {
+  const fieldDef = form.fields.find((f) => f.name === fieldName);
+  if (!fieldDef) {
+    throw new ClientError('Field not in form definition', 400, 'UNKNOWN_FIELD', {
+      fieldName,
+      formId: form.id,
+    });
+  }
+  return fieldDef;
+}
+
+/**
+ * Replaces a collected value, moving the old one into the revision history
+ *
+ * @param existing - Currently collected field
+ * @param value - Corrected value
+ * @param collectedAt - Timestamp of the correction
+ * @param turnIndex - Index of the user turn that made the correction
+ * @returns Updated session field
+ */
+function reviseField(
+  existing: SessionField,
+  value: FieldValue,
+  collectedAt: Date,
+  turnIndex?: number
+): SessionField {
+  return {
+    fieldId: existing.fieldId,
+    value,
+    collectedAt,
+    turnIndex,
+    revisions: [
+      ...(existing.revisions ?? []),
+      {
+        value: existing.value,
+        collectedAt: existing.collectedAt,
+        replacedAt: collectedAt,
+        replacedAtTurn: turnIndex,
+      },
+    ],
+  };
+}
+
+/**
+ * Merges newly extracted values into the collected session fields
+ *
+ * - Field names are mapped to FormField.id
+ * - A different value for an already collected field replaces it in place
+ *   and the previous value is kept in `revisions`
+ * - Re-extracting the same value leaves the field untouched
+ * - New parts of a partially collected composite are filled in without
+ *   counting as a correction
+ * - Duplicate entries for the same fieldId collapse to the latest one
+ *
+ * @param form - Form definition used to resolve field names
+ * @param fields - Currently collected session fields
+ * @param extractedFields - New values keyed by field name
+ * @param collectedAt - Timestamp for newly collected values
+ * @param turnIndex - Index of the user turn that supplied the values
+ * @returns New array of session fields (input is not mutated)
+ * @throws ClientError if a field name is not in the form definition
+ */
+export function mergeSessionFields(
+  form: FormDefinition,
+  fields: readonly SessionField[],
+  extractedFields: Record<string, FieldValue>,
+  collectedAt: Date,
+  turnIndex?: number
+): SessionField[] {
+  const merged = new Map<string, SessionField>();
+  for (const field of fields) {
+    merged.set(field.fieldId, field);
+  }
+
+  for (const [fieldName, value] of Object.entries(extractedFields)) {
+    const fieldDef = resolveField(form, fieldName);
+    const existing = merged.get(fieldDef.id);
+    if (!existing) {
+      merged.set(fieldDef.id, {
+        fieldId: fieldDef.id,
+        value,
+        collectedAt,
+        turnIndex,
+      });
+    } else if (isCompositeExtension(existing.value, value)) {
+      merged.set(fieldDef.id, { ...existing, value, collectedAt, turnIndex });
+    } else if (!isSameFieldValue(existing.value, value)) {
+      merged.set(
+        fieldDef.id,
+        reviseField(existing, value, collectedAt, turnIndex)
+      );
+    }
+  }
+
+  return [...merged.values()];
+}
+
+/**
+ * Records fields the user declined to answer
+ *
+ * Declined fields are stored with a null value and `declined: true`.
+ * A value collected earlier is kept in the revision history.
+ *
+ * @param form - Form definition used to resolve field names
+ * @param fields - Currently collected session fields
+ * @param declinedFields - Names of fields the user declined
+ * @param declinedAt - Timestamp of the decline
+ * @param turnIndex - Index of the user turn that declined
+ * @returns New array of session fields (input is not mutated)
+ * @throws ClientError if a field name is not in the form definition
+ */
+export function mergeDeclinedFields(
+  form: FormDefinition,
+  fields: readonly SessionField[],
+  declinedFields: readonly string[],
+  declinedAt: Date,
+  turnIndex?: number
+): SessionField[] {
+  const merged = new Map(fields.map((f) => [f.fieldId, f]));
+
+  for (const fieldName of declinedFields) {
+    const fieldDef = resolveField(form, fieldName);
+    const existing = merged.get(fieldDef.id);
+    if (existing?.declined) {
+      continue;
+    }
+
+    const declined: SessionField = existing
+      ? reviseField(existing, null, declinedAt, turnIndex)
+      : { fieldId: fieldDef.id, value: null, collectedAt: declinedAt, turnIndex };
+    merged.set(fieldDef.id, { ...declined, declined: true });
+  }
+
+  return [...merged.values()];
+}
+
+/**
+ * Applies one orchestrator step to a session
+ *
+ * Pure reducer: appends the user and assistant turns, merges extracted
+ * fields (recording corrections in each field's revision history),
+ * records declined fields and proof of consent for CONSENT fields, adds the step's token usage to the session
+ * total and marks the session COMPLETED (or LIMIT_EXCEEDED) when the
+ * result says so.
+ * All timestamps come from the injected clock, so the output is
+ * deterministic for a given input.
+ *
+ * @param form - Form definition the session belongs to
+ * @param session - Current session state (not mutated)
+ * @param userMessage - User message that produced the result
+ * @param result - Output of runLlmStep for that message
+ * @param clock - Time source for turn and field timestamps
+ * @returns Next session state
+ * @throws ClientError if the result references a field not in the form
+ *
+ * @example
+ * ```typescript
+ * const result = await runLlmStep(form, session, message, llmClient);
+ * session = applyStep(form, session, message, result, () => new Date());
+ * ```
+ */
+export function applyStep(
+  form: FormDefinition,
+  session: Session,
+  userMessage: string,
+  result: OrchestratorResult,
+  clock: Clock
+): Session {
+  const now = clock();
+  const userTurnIndex = session.turns.length;
+
+  const next: Session = {
+    ...session,
+    turns: [
+      ...session.turns,
+      { role: TurnRole.USER, content: userMessage, timestamp: now },
+      { role: TurnRole.ASSISTANT, content: result.botResponse, timestamp: now },
+    ],
+    fields: recordConsent(
+      form,
+      mergeDeclinedFields(
+        form,
+        mergeSessionFields(
+          form,
+          session.fields,
+          result.extractedFields,
+          now,
+          userTurnIndex
+        ),
+        result.declinedFields,
+        now,
+        userTurnIndex
+      ),
+      userMessage,
+      now,
+      userTurnIndex
+    ),
+    usage: accumulateUsage(session.usage, result.usage),
+  };
+
+  if (result.limitExceeded) {
+    return {
+      ...next,
+      status: SessionStatus.LIMIT_EXCEEDED,
+      limitExceeded: result.limitExceeded,
+    };
+  }
+  if (!result.isComplete) {
+    return next;
+  }
+
+  return { ...next, status: SessionStatus.COMPLETED, completedAt: now };
+}
@@ -0,0 +1,67 @@
+/**
+ * Consent records for CONSENT fields
+ *
+ * @module consent
+ */
+
+import type { FormDefinition, SessionField } from '../types';
+import { FieldType } from '../types';
+import { findConsentClauses } from '../field-types/consent';
+
+/**
+ * Attaches proof of consent to CONSENT fields agreed to in a turn
+ *
+ * A field whose value became true in the turn gets a record of the
+ * user's exact message, the clause agreeing to the field (see
+ * findConsentClauses), the terms shown and the time. Records of
+ * earlier turns are kept while the value stays true and dropped once it
+ * no longer is (e.g. after a decline).
+ *
+ * @param form - Form definition (for field types and consent terms)
+ * @param fields - Session fields after merging the turn's values
+ * @param utterance - User message of the turn
+ * @param givenAt - Timestamp of the turn
+ * @param turnIndex - Index of the user turn
+ * @returns New array of session fields (input is not mutated)
+ */
+export function recordConsent(
+  form: FormDefinition,
+  fields: readonly SessionField[],
+  utterance: string,
+  givenAt: Date,
+  turnIndex: number
+): SessionField[] {
+  const consentFields = form.fields.filter(
+    (f) => f.type === FieldType.CONSENT
+  );
+  const agreed = new Set(
+    fields
+      .filter((sf) => sf.turnIndex === turnIndex && sf.value === true)
+      .map((sf) => form.fields.find((f) => f.id === sf.fieldId)?.name ?? '')
+  );
+  const clauses = findConsentClauses(consentFields, agreed, utterance);
+
+  return fields.map((sessionField) => {
+    const field = form.fields.find((f) => f.id === sessionField.fieldId);
+    if (field?.type !== FieldType.CONSENT) {
+      return sessionField;
+    }
+    if (sessionField.value !== true) {
+      const withoutConsent = { ...sessionField };
+      delete withoutConsent.consent;
+      return withoutConsent;
+    }
+    if (sessionField.turnIndex !== turnIndex || !field.consent) {
+      return sessionField;
+    }
+    return {
+      ...sessionField,
+      consent: {
+        utterance,
+        clause: clauses.get(field.name) ?? utterance,
+        terms: { ...field.consent },
+        givenAt,
+      },
+    };
+  });
+}
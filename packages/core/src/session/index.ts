@@ -0,0 +1,13 @@
+/**
+ * Session module barrel export
+ */
+
+export {
+  applyStep,
+  mergeSessionFields,
+  mergeDeclinedFields,
+  isSameFieldValue,
+  isCompositeExtension,
+} from './apply-step';
+export { recordConsent } from './consent';
+export { buildSubmission, getCollectedValues } from './submission';
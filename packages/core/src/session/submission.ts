@@ -0,0 +1,55 @@
+/**
+ * Submission building - turns a session into final form data
+ *
+ * @module submission
+ */
+
+import type { FieldValue, FormDefinition, FormSubmission, Session } from '../types';
+
+/**
+ * Collects the answered values of a session keyed by field name
+ * Declined fields and entries for fields no longer in the form are skipped.
+ *
+ * @param form - Form definition the session belongs to
+ * @param session - Session with collected fields
+ * @returns Answered values keyed by FormField.name
+ */
+export function getCollectedValues(
+  form: FormDefinition,
+  session: Session
+): Record<string, FieldValue> {
+  return buildSubmission(form, session).values;
+}
+
+/**
+ * Builds the submission payload for a session
+ * Values are keyed by field name; declined fields are listed separately
+ * so a user's refusal is never confused with a null value.
+ * Session entries for fields no longer in the form are ignored.
+ *
+ * @param form - Form definition the session belongs to
+ * @param session - Session with collected fields
+ * @returns Submission with values and declined field names
+ */
+export function buildSubmission(
+  form: FormDefinition,
+  session: Session
+): FormSubmission {
+  const values: Record<string, FieldValue> = {};
+  const declined: string[] = [];
+
+  for (const sessionField of session.fields) {
+    const fieldDef = form.fields.find((f) => f.id === sessionField.fieldId);
+    if (!fieldDef) {
+      continue;
+    }
+
+    if (sessionField.declined) {
+      declined.push(fieldDef.name);
+    } else {
+      values[fieldDef.name] = sessionField.value;
+    }
+  }
+
+  return { formId: form.id, sessionId: session.id, values, declined };
+}
@@ -0,0 +1,30 @@
+/**
+ * Consent capture types
+ */
+
+/**
+ * Terms a CONSENT field asks the user to agree to
+ * The text is shown to the user verbatim and stored with the consent.
+ *
+ * @example { text: "I agree to the privacy policy at https://example.com/privacy", version: "2024-03" }
+ */
+export interface ConsentTerms {
+  /** Statement the user agrees to */
+  text: string;
+  /** Version of the policy the statement refers to */
+  version?: string;
+}
+
+/**
+ * Proof of consent recorded on a CONSENT field's SessionField
+ */
+export interface ConsentRecord {
+  /** Exact user message that gave the consent */
+  utterance: string;
+  /** Clause of the message agreeing to these terms ("Yes to the policy") */
+  clause: string;
+  /** Terms shown when the consent was given */
+  terms: ConsentTerms;
+  /** When the consent was given */
+  givenAt: Date;
+}
@@ -0,0 +1,118 @@
+import type { FormField, SimpleFieldValue, ValidationRule } from './field';
+import type { ValidationResult } from './validation';
+import type { JsonSchema } from './json-schema';
+
+/**
+ * Field type plugin types
+ */
+
+/**
+ * Calendar date without a time of day
+ */
+export interface CalendarDate {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+}
+
+/**
+ * Conversation details a field type may need to read a value
+ */
+export interface FieldTypeContext {
+  /** IANA timezone the user's wall-clock times are in (e.g. "UTC") */
+  timeZone: string;
+  /**
+   * Reference time for relative dates ("tomorrow"); without it they are
+   * left unresolved
+   */
+  now?: Date;
+}
+
+/**
+ * Definition of a field type: how its values are normalized,
+ * validated and described to the LLM
+ *
+ * Built-in types (FieldType) are defined the same way, so a plugin
+ * for a custom type is a first-class citizen.
+ *
+ * @example
+ * ```typescript
+ * const vatNumber: FieldTypePlugin = {
+ *   type: 'VAT_NUMBER',
+ *   normalize: (value) => String(value).replace(/\s/g, '').toUpperCase(),
+ *   validate: (value) =>
+ *     /^[A-Z]{2}[0-9A-Z]{8,12}$/.test(String(value))
+ *       ? { valid: true }
+ *       : { valid: false, error: 'Invalid VAT number' },
+ *   promptHint: () => 'EU VAT number with country prefix, e.g. DE123456789',
+ * };
+ * ```
+ */
+export interface FieldTypePlugin {
+  /** Name used in FormField.type (e.g. "VAT_NUMBER") */
+  type: string;
+
+  /**
+   * Validates a non-null value
+   * Required, visibility, pattern and custom message handling are
+   * applied generically by validateField.
+   */
+  validate(
+    value: SimpleFieldValue,
+    field: FormField,
+    context: FieldTypeContext
+  ): ValidationResult;
+
+  /**
+   * Converts the value returned by the LLM into canonical form
+   * Runs before validation; return the input unchanged if unsure.
+   */
+  normalize?(
+    value: SimpleFieldValue,
+    field: FormField,
+    context: FieldTypeContext
+  ): SimpleFieldValue;
+
+  /**
+   * Whether a value returned by the LLM appears in what the user wrote
+   * Used by the grounding check; defaults to isTextGrounded (the value
+   * occurs in the text, ignoring case and whitespace). The context's
+   * reference time lets relative phrases ("tomorrow") ground dates.
+   */
+  isGrounded?(
+    value: SimpleFieldValue,
+    text: string,
+    field: FormField,
+    context: FieldTypeContext
+  ): boolean;
+
+  /**
+   * Format hint appended to the field's line in the system prompt
+   */
+  promptHint?(field: FormField): string;
+
+  /**
+   * JSON Schema for the field's value in the response envelope
+   * (structured-output mode); defaults to a plain string
+   */
+  jsonSchema?(field: FormField): JsonSchema;
+
+  /**
+   * Values are lists of strings (like MULTI_SELECT) rather than single
+   * values; validateField rejects the other shape before validate runs
+   */
+  multiValue?: boolean;
+
+  /**
+   * ValidationRule keys this type understands (`message` is always allowed)
+   * Any other key on FormField.validation is a configuration error.
+   */
+  supportedRules?: readonly (keyof ValidationRule)[];
+}
+
+/**
+ * Field type plugins keyed by type name
+ * Build one with createFieldTypeRegistry()
+ */
+export type FieldTypeRegistry = ReadonlyMap<string, FieldTypePlugin>;
@@ -2,6 +2,8 @@
  * Field type definitions for conversational forms
  */
 
+import type { ConsentTerms } from './consent';
+
 /**
  * Supported field types for form fields
  */
@@ -13,25 +15,125 @@ export enum FieldType {
   DATE = 'DATE',
   ENUM = 'ENUM',
   LONG_TEXT = 'LONG_TEXT',
+  MULTI_SELECT = 'MULTI_SELECT',
+  COMPOSITE = 'COMPOSITE',
+  BOOLEAN = 'BOOLEAN',
+  CONSENT = 'CONSENT',
+  DATETIME = 'DATETIME',
+  TIME = 'TIME',
+}
+
+/**
+ * Name of a field type: a built-in FieldType, or a custom type
+ * registered through a FieldTypeRegistry (e.g. "VAT_NUMBER")
+ */
+export type FieldTypeName = FieldType | (string & {});
+
+/**
+ * Value of any field that is not COMPOSITE
+ * String lists hold the selected options of MULTI_SELECT fields;
+ * booleans answer BOOLEAN and CONSENT fields. DATETIME values are
+ * strings with an offset and zone
+ * ("2024-03-05T15:30:00-05:00[America/New_York]"), TIME values "HH:MM".
+ */
+export type SimpleFieldValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | string[]
+  | null;
+
+/**
+ * Value of a COMPOSITE field: its parts keyed by SubField.name
+ * Parts not collected yet are absent (or null).
+ * @example { street: "1 Main St", city: "Springfield" }
+ */
+export interface CompositeValue {
+  [part: string]: SimpleFieldValue;
 }
 
 /**
  * Union type for all possible field values
  */
-export type FieldValue = string | number | Date | null;
+export type FieldValue = SimpleFieldValue | CompositeValue;
+
+/**
+ * Declarative visibility condition over other fields' values
+ *
+ * Leaf conditions reference another field by FormField.name. A field that
+ * has not been answered (or was declined) never satisfies a leaf condition.
+ * A MULTI_SELECT answer satisfies `equals` and `in` when any of its
+ * selected options matches.
+ *
+ * @example
+ * ```typescript
+ * // Only ask companySize when role is "Business" and age >= 18
+ * const visibleWhen: FieldCondition = {
+ *   op: 'and',
+ *   conditions: [
+ *     { op: 'equals', field: 'role', value: 'Business' },
+ *     { op: 'gte', field: 'age', value: 18 },
+ *   ],
+ * };
+ * ```
+ */
+export type FieldCondition =
+  | { op: 'equals'; field: string; value: string | number | boolean }
+  | { op: 'in'; field: string; values: (string | number)[] }
+  | { op: 'gt' | 'gte' | 'lt' | 'lte'; field: string; value: number }
+  | { op: 'and'; conditions: FieldCondition[] }
+  | { op: 'or'; conditions: FieldCondition[] }
+  | { op: 'not'; condition: FieldCondition };
 
 /**
  * Optional validation constraints for fields
  */
 export interface ValidationRule {
-  /** For NUMBER: minimum value; For TEXT: min length */
+  /**
+   * For NUMBER: minimum value; For TEXT/LONG_TEXT: min length;
+   * For MULTI_SELECT: fewest options to select
+   */
   min?: number;
-  /** For NUMBER: maximum value; For TEXT: max length */
+  /**
+   * For NUMBER: maximum value; For TEXT/LONG_TEXT: max length;
+   * For MULTI_SELECT: most options to select
+   */
   max?: number;
-  /** Custom regex pattern (advanced use case) */
+  /**
+   * Custom regex pattern for TEXT, LONG_TEXT, EMAIL and PHONE
+   * (advanced use case). Tested with RegExp.test, so anchor it
+   * (`^...$`) to match the whole value.
+   * @example "^\d{5}(-\d{4})?$" // US ZIP code
+   */
   pattern?: string;
-  /** For ENUM: allowed values */
+  /** For ENUM and MULTI_SELECT: allowed values */
   options?: string[];
+  /**
+   * Error shown instead of the generic validator message when any of
+   * this rule's constraints fails (not used for missing required values)
+   * @example "Please enter a 5-digit ZIP code"
+   */
+  message?: string;
+}
+
+/**
+ * One part of a COMPOSITE field (e.g. the city of an address)
+ * Validated with its own type and rule, like a field of its own.
+ */
+export interface SubField {
+  /** Part name, the key in the CompositeValue (e.g. "city") */
+  name: string;
+  /** Human-readable label (e.g. "City") */
+  label: string;
+  /** Field type (any type except COMPOSITE) */
+  type: FieldTypeName;
+  /** Must this part be given before the field counts as collected? */
+  required: boolean;
+  /** Optional validation constraints */
+  validation?: ValidationRule;
+  /** Optional help text */
+  description?: string;
 }
 
 /**
@@ -44,8 +146,8 @@ export interface FormField {
   name: string;
   /** Human-readable label (e.g., "Email Address") */
   label: string;
-  /** Field type */
-  type: FieldType;
+  /** Field type (built-in FieldType or a registered custom type) */
+  type: FieldTypeName;
   /** Is this field required? */
   required: boolean;
   /** Optional validation constraints */
@@ -54,4 +156,19 @@ export interface FormField {
   order: number;
   /** Optional help text for users */
   description?: string;
+  /**
+   * Only ask for this field when the condition holds
+   * Hidden fields are never prompted for and never block completion
+   */
+  visibleWhen?: FieldCondition;
+  /**
+   * For COMPOSITE: the parts the value is made of
+   * @example [{ name: "city", label: "City", type: "TEXT", required: true }]
+   */
+  subFields?: SubField[];
+  /**
+   * For CONSENT: the terms shown to the user and recorded with consent
+   * @example { text: "I agree to the privacy policy", version: "2024-03" }
+   */
+  consent?: ConsentTerms;
 }
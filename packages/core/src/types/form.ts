@@ -1,9 +1,26 @@
 import type { FormField } from './field';
+import type { SessionLimits } from './limits';
 
 /**
  * Form definition type
  */
 
+/**
+ * Form-level validation rule spanning several fields
+ * Fields are referenced by FormField.name. `message` overrides the
+ * default error text shown to the user.
+ *
+ * - `after`: `field` must be strictly greater than `reference`
+ *   (dates or numbers), e.g. endDate after startDate
+ * - `equals`: `field` must equal `reference`, e.g. confirmEmail
+ * - `atLeastOne`: at least one of `fields` must be answered;
+ *   checked once every required field is collected
+ */
+export type FormRule =
+  | { op: 'after'; field: string; reference: string; message?: string }
+  | { op: 'equals'; field: string; reference: string; message?: string }
+  | { op: 'atLeastOne'; fields: string[]; message?: string };
+
 /**
  * Represents the complete form structure
  */
@@ -16,6 +33,15 @@ export interface FormDefinition {
   description?: string;
   /** Immutable field list */
   fields: readonly FormField[];
+  /** Optional cross-field validation rules */
+  rules?: readonly FormRule[];
+  /** Optional caps on turns, tokens and spend per session */
+  limits?: SessionLimits;
+  /**
+   * IANA timezone for DATETIME answers (e.g. "America/New_York")
+   * Session.timeZone takes precedence; defaults to "UTC".
+   */
+  timeZone?: string;
   /** Form creation timestamp */
   createdAt: Date;
   /** Last modification timestamp */
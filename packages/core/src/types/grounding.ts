@@ -0,0 +1,36 @@
+/**
+ * Grounding check types
+ */
+
+/**
+ * What to do with an extracted value that does not appear in the
+ * user's recent messages
+ *
+ * - `accept`: skip the check for this field type
+ * - `flag`: accept the value but list it in ungroundedFields
+ * - `reject`: report the value in rejectedFields instead of accepting it
+ */
+export type GroundingAction = 'accept' | 'flag' | 'reject';
+
+/**
+ * Opt-in check that each extracted value was actually written by the
+ * user, guarding against values the LLM made up
+ *
+ * @example
+ * ```typescript
+ * const grounding: GroundingPolicy = {
+ *   actions: { EMAIL: 'reject', PHONE: 'reject', ENUM: 'accept' },
+ *   defaultAction: 'flag',
+ * };
+ * ```
+ */
+export interface GroundingPolicy {
+  /** Action per field type name (e.g. "EMAIL"); overrides defaultAction */
+  actions?: Readonly<Record<string, GroundingAction>>;
+  /** Action for field types not listed in actions (default 'flag') */
+  defaultAction?: GroundingAction;
+  /**
+   * Earlier user turns searched besides the current message (default 2)
+   */
+  recentTurns?: number;
+}
@@ -2,18 +2,92 @@
  * Type definitions barrel export
  */
 
-export type { FieldValue, FormField, ValidationRule } from './field';
+export type {
+  CompositeValue,
+  FieldCondition,
+  FieldTypeName,
+  FieldValue,
+  FormField,
+  SimpleFieldValue,
+  SubField,
+  ValidationRule,
+} from './field';
 export { FieldType } from './field';
 
-export type { FormDefinition } from './form';
+export type {
+  CalendarDate,
+  FieldTypeContext,
+  FieldTypePlugin,
+  FieldTypeRegistry,
+} from './field-type';
 
-export type { Session, SessionField, SessionTurn } from './session';
+export type { FormDefinition, FormRule } from './form';
+
+export type { SessionLimitName, SessionLimits } from './limits';
+
+export type { PiiDetector, RedactionPolicy } from './redaction';
+
+export type { GroundingAction, GroundingPolicy } from './grounding';
+
+export type { ConsentRecord, ConsentTerms } from './consent';
+
+export type { LocalExtractionPolicy } from './local-extraction';
+
+export type {
+  InjectionAction,
+  InjectionPattern,
+  InjectionPolicy,
+} from './injection';
+
+export type {
+  Clock,
+  FieldRevision,
+  Session,
+  SessionField,
+  SessionTurn,
+} from './session';
 export { SessionStatus, TurnRole } from './session';
 
-export type { ValidationResult } from './validation';
+export type { FormSubmission } from './submission';
+
+export type {
+  RuleViolation,
+  ValidationContext,
+  ValidationResult,
+} from './validation';
+
+export type { JsonSchema } from './json-schema';
+
+export type {
+  LlmCallOptions,
+  LlmClient,
+  LlmMessage,
+  LlmResponse,
+  LlmStreamChunk,
+} from './llm';
 
-export type { LlmClient, LlmMessage, LlmResponse } from './llm';
+export type {
+  HistoryBudget,
+  LlmStepStreamEvent,
+  NextFieldOptions,
+  OrchestratorResult,
+  ParseDiagnostic,
+  ParsingMode,
+  RejectedField,
+  RepairPolicy,
+  RunLlmStepOptions,
+  SystemPromptOptions,
+  TokenEstimator,
+} from './orchestrator';
 
-export type { OrchestratorResult } from './orchestrator';
+export type {
+  LlmUsage,
+  ModelPrice,
+  PriceTable,
+  SessionUsage,
+  UsageCost,
+  UsageRecord,
+  UsageTotals,
+} from './usage';
 
 export { ClientError } from './errors';
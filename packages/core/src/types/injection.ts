@@ -0,0 +1,46 @@
+/**
+ * Prompt-injection hardening types
+ */
+
+/**
+ * A phrasing commonly used to steer the LLM away from its instructions
+ *
+ * @example
+ * ```typescript
+ * const pattern: InjectionPattern = {
+ *   name: 'SKIP_VALIDATION',
+ *   pattern: /skip (the )?validation/i,
+ * };
+ * ```
+ */
+export interface InjectionPattern {
+  /** Name reported in OrchestratorResult.suspectedInjection */
+  name: string;
+  /** Matched against the user message (flags other than "g" respected) */
+  pattern: RegExp;
+}
+
+/**
+ * What to do with a user message that matches an injection pattern
+ *
+ * - `flag`: send it as usual and report the matches
+ * - `refuse`: do not call the LLM; reply with the refusal message
+ * - `strip`: remove the matching text before sending the message
+ */
+export type InjectionAction = 'flag' | 'refuse' | 'strip';
+
+/**
+ * Opt-in hardening against prompt injection in user messages
+ *
+ * With a policy, user messages are wrapped in <user_message> tags that
+ * the system prompt tells the LLM to treat as data, and each new
+ * message is checked against the injection patterns.
+ */
+export interface InjectionPolicy {
+  /** Action for a message matching any pattern (default 'flag') */
+  action?: InjectionAction;
+  /** Patterns to check (defaults to BUILT_IN_INJECTION_PATTERNS) */
+  patterns?: readonly InjectionPattern[];
+  /** Bot response when a message is refused (action 'refuse') */
+  refusalMessage?: string;
+}
@@ -0,0 +1,34 @@
+/**
+ * JSON Schema types
+ */
+
+/**
+ * Subset of JSON Schema (draft 2020-12) used to describe the LLM
+ * response envelope for schema-constrained output
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  /** Object: property schemas keyed by name */
+  properties?: Record<string, JsonSchema>;
+  /** Object: property names that must be present */
+  required?: string[];
+  /** Object: whether unlisted properties are allowed */
+  additionalProperties?: boolean;
+  /** Array: schema of each item */
+  items?: JsonSchema;
+  /** Array: whether items must be distinct */
+  uniqueItems?: boolean;
+  minItems?: number;
+  maxItems?: number;
+  /** Allowed values */
+  enum?: (string | number)[];
+  /** String: semantic format (e.g. "email", "date") */
+  format?: string;
+  /** String: ECMA-262 regular expression the value must match */
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+}
@@ -0,0 +1,41 @@
+import type { PriceTable } from './usage';
+
+/**
+ * Session limit types
+ */
+
+/**
+ * Caps on how much a single session may consume
+ *
+ * Checked before each LLM call; once a limit is reached the
+ * orchestrator stops calling the LLM and closes the session.
+ *
+ * @example
+ * ```typescript
+ * const limits: SessionLimits = {
+ *   maxTurns: 30,
+ *   maxCost: 0.05,
+ *   prices: { 'gpt-4o-mini': { promptPerMillion: 0.15, completionPerMillion: 0.6 } },
+ * };
+ * ```
+ */
+export interface SessionLimits {
+  /** Maximum number of user messages answered by the LLM */
+  maxTurns?: number;
+  /** Maximum total tokens (Session.usage.totalTokens) */
+  maxTokens?: number;
+  /**
+   * Maximum spend, priced with `prices`
+   * (usage of models missing from the table is not counted)
+   */
+  maxCost?: number;
+  /** Price table for maxCost (required when maxCost is set) */
+  prices?: PriceTable;
+  /** Message shown to the user when a limit is reached */
+  closingMessage?: string;
+}
+
+/**
+ * Name of the limit that stopped a session
+ */
+export type SessionLimitName = 'maxTurns' | 'maxTokens' | 'maxCost';
@@ -1,3 +1,6 @@
+import type { JsonSchema } from './json-schema';
+import type { LlmUsage } from './usage';
+
 /**
  * LLM client interface types
  */
@@ -10,16 +13,38 @@ export interface LlmMessage {
   content: string;
 }
 
+/**
+ * Optional per-call settings passed to LlmClient
+ */
+export interface LlmCallOptions {
+  /**
+   * JSON Schema the response content must conform to
+   * Only passed to clients with supportsResponseSchema set; map it to
+   * the provider's structured-output or tool-call feature.
+   */
+  responseSchema?: JsonSchema;
+}
+
 /**
  * Response from LLM completion API
  */
 export interface LlmResponse {
   content: string;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  usage?: LlmUsage;
+  /** Model that produced the response (used to price the usage) */
+  model?: string;
+}
+
+/**
+ * One piece of a streamed LLM completion
+ */
+export interface LlmStreamChunk {
+  /** Text delta appended to the response content */
+  content: string;
+  /** Usage of the whole call (usually sent with the last chunk) */
+  usage?: LlmUsage;
+  /** Model that produced the response */
+  model?: string;
 }
 
 /**
@@ -42,12 +67,38 @@ export interface LlmResponse {
  * ```
  */
 export interface LlmClient {
+  /**
+   * Set when the provider can constrain output to a JSON Schema
+   * The orchestrator then passes the response envelope schema in
+   * LlmCallOptions; otherwise it relies on the prompt alone.
+   */
+  supportsResponseSchema?: boolean;
+
   /**
    * Complete a conversation with the LLM
    *
    * @param messages - Array of conversation messages
+   * @param options - Per-call settings (e.g. response schema)
    * @returns Promise resolving to LLM response
    * @throws ServerError on LLM API failures (provider's responsibility to retry)
    */
-  complete(messages: LlmMessage[]): Promise<LlmResponse>;
+  complete(
+    messages: LlmMessage[],
+    options?: LlmCallOptions
+  ): Promise<LlmResponse>;
+
+  /**
+   * Stream a completion as content deltas (optional)
+   * Concatenating every chunk's content must yield the same text
+   * complete() would return. Used by runLlmStepStream when present.
+   *
+   * @param messages - Array of conversation messages
+   * @param options - Per-call settings (e.g. response schema)
+   * @returns Async iterable of content chunks
+   * @throws ServerError on LLM API failures (provider's responsibility to retry)
+   */
+  stream?(
+    messages: LlmMessage[],
+    options?: LlmCallOptions
+  ): AsyncIterable<LlmStreamChunk>;
 }
@@ -0,0 +1,36 @@
+/**
+ * Local (rule-based) extraction types
+ */
+
+import type { FieldTypeName } from './field';
+
+/**
+ * Opt-in policy for answering simple turns without calling the LLM
+ *
+ * When the user's whole message is a valid value for the field being
+ * asked for (e.g. just an email address after "What's your email?"),
+ * the value is accepted locally and the bot replies from a template.
+ *
+ * @example
+ * ```typescript
+ * const localExtraction: LocalExtractionPolicy = {
+ *   fieldTypes: ['EMAIL', 'PHONE'],
+ *   followUpTemplate: 'Got it. And your {label}?',
+ * };
+ * ```
+ */
+export interface LocalExtractionPolicy {
+  /**
+   * Field types eligible for local extraction
+   * Defaults to EMAIL, PHONE, NUMBER, DATE, ENUM and BOOLEAN; free text is
+   * excluded because any message would pass as a value.
+   */
+  fieldTypes?: readonly FieldTypeName[];
+  /**
+   * Reply asking for the next field; "{label}" is replaced by its label
+   * @example "Thanks! What is your {label}?" // default
+   */
+  followUpTemplate?: string;
+  /** Reply when the value completes the form */
+  completionMessage?: string;
+}
@@ -1,9 +1,154 @@
 import type { FieldValue } from './field';
+import type { FieldTypeRegistry } from './field-type';
+import type { RuleViolation } from './validation';
+import type { UsageRecord } from './usage';
+import type { SessionLimitName, SessionLimits } from './limits';
+import type { RedactionPolicy } from './redaction';
+import type { GroundingPolicy } from './grounding';
+import type { InjectionPolicy } from './injection';
+import type { LocalExtractionPolicy } from './local-extraction';
+import type { Clock } from './session';
 
 /**
  * Orchestrator result types
  */
 
+/**
+ * Opt-in policy for recovering from malformed LLM output
+ *
+ * When enabled, the orchestrator feeds a parse error or an unknown field
+ * name back to the LLM as a corrective message and asks it to try
+ * again. Invalid field values are not retried: they are reported in
+ * OrchestratorResult.rejectedFields.
+ */
+export interface RepairPolicy {
+  /**
+   * Total number of LLM calls allowed, including the first one
+   * @example 3 // one initial call plus up to two repair attempts
+   */
+  maxAttempts: number;
+}
+
+/**
+ * Estimates how many tokens a piece of text uses
+ * Plug in the provider's tokenizer for exact counts.
+ */
+export type TokenEstimator = (text: string) => number;
+
+/**
+ * Token budget for the messages sent to the LLM on each step
+ *
+ * The system prompt and the current user message are always sent.
+ * The most recent turns are kept verbatim while they fit; older turns
+ * are replaced by a short summary of the fields collected in them.
+ */
+export interface HistoryBudget {
+  /**
+   * Maximum tokens for all messages (system prompt, history, user message)
+   * @example 4000
+   */
+  maxTokens: number;
+  /** Token estimator (defaults to estimateTokens: ~4 characters per token) */
+  estimateTokens?: TokenEstimator;
+}
+
+/**
+ * How forgiving parseExtractedFields is with the LLM's JSON envelope
+ *
+ * - `strict`: the content must be exactly the JSON envelope; any
+ *   deviation throws (default)
+ * - `lenient`: recovers the first JSON object from surrounding prose or
+ *   markdown fences, repairs common syntax slips, and drops unknown
+ *   fields or unusable values; every recovery is reported as a
+ *   ParseDiagnostic
+ */
+export type ParsingMode = 'strict' | 'lenient';
+
+/**
+ * A recovery made while leniently parsing the LLM response
+ */
+export interface ParseDiagnostic {
+  /**
+   * What was recovered:
+   * - EXTRACTED_JSON: text around the JSON object was discarded
+   * - REPAIRED_SYNTAX: malformed JSON was fixed before parsing
+   * - DROPPED_UNKNOWN_FIELD: a field not in the form was ignored
+   * - DROPPED_INVALID_VALUE: a value of an unusable type was ignored
+   */
+  code:
+    | 'EXTRACTED_JSON'
+    | 'REPAIRED_SYNTAX'
+    | 'DROPPED_UNKNOWN_FIELD'
+    | 'DROPPED_INVALID_VALUE';
+  /** Human-readable description */
+  message: string;
+  /** Field concerned, for the DROPPED_* codes */
+  fieldName?: string;
+}
+
+/**
+ * Optional inputs for buildSystemPrompt
+ */
+export interface SystemPromptOptions {
+  /** Registry for custom field types and their prompt hints */
+  fieldTypes?: FieldTypeRegistry;
+  /**
+   * Reference time for today's date and relative dates ("tomorrow");
+   * defaults to the current time. Inject a fixed clock in tests.
+   */
+  clock?: Clock;
+  /** BCP 47 locale for the date shown to the LLM (default "en-US") */
+  locale?: string;
+}
+
+/**
+ * Optional behaviour switches for runLlmStep
+ */
+export interface RunLlmStepOptions extends SystemPromptOptions {
+  /** Retry with corrective feedback instead of failing on first bad output */
+  repair?: RepairPolicy;
+  /** How forgiving to be with malformed output (default 'strict') */
+  parsing?: ParsingMode;
+  /** Limit prompt size by summarizing older turns (default: send all) */
+  history?: HistoryBudget;
+  /** Session caps; each key overrides the same key in FormDefinition.limits */
+  limits?: SessionLimits;
+  /** Replace PII with placeholders before calling the LLM (default: off) */
+  redaction?: RedactionPolicy;
+  /** Check extracted values against the user's words (default: off) */
+  grounding?: GroundingPolicy;
+  /** Delimit user content and screen it for injection (default: off) */
+  injection?: InjectionPolicy;
+  /** Answer simple turns without the LLM when confident (default: off) */
+  localExtraction?: LocalExtractionPolicy;
+}
+
+/**
+ * Options for determineNextField
+ */
+export interface NextFieldOptions {
+  /**
+   * Also return optional fields that are neither collected nor declined
+   * (after earlier required fields, respecting field order)
+   */
+  includeOptional?: boolean;
+}
+
+/**
+ * An extracted value that failed field validation
+ */
+export interface RejectedField {
+  /**
+   * Field name (matching FormField.name); "<field>.<part>" for an
+   * invalid part of a COMPOSITE value
+   */
+  fieldName: string;
+  /** Raw value returned by the LLM (before normalization) */
+  value: FieldValue;
+  /** Validator error message */
+  error: string;
+}
+
 /**
  * Output from runLlmStep function
  */
@@ -15,14 +160,65 @@ export interface OrchestratorResult {
   botResponse: string;
 
   /**
-   * Fields extracted from user's message this turn
+   * Valid fields extracted from user's message this turn
    * Keys are field names (matching FormField.name)
    * @example { fullName: "John Doe", email: "john@example.com" }
    */
   extractedFields: Record<string, FieldValue>;
 
   /**
-   * Whether all required fields are collected and valid
+   * Values of the accepted fields exactly as returned by the LLM,
+   * before normalization (extractedFields holds the normalized values)
+   * @example { phone: "(555) 123-4567" } // extractedFields.phone is "+15551234567"
+   */
+  rawFields: Record<string, FieldValue>;
+
+  /**
+   * Extracted values that failed validation and were NOT accepted
+   * Lets the bot ask the user to fix just these fields
+   * @example [{ fieldName: "email", value: "john@", error: "Invalid email format" }]
+   */
+  rejectedFields: RejectedField[];
+
+  /**
+   * Accepted fields that replace a different, already collected value
+   * (user corrections such as "actually, my email is ...")
+   * @example ["email"]
+   */
+  correctedFields: string[];
+
+  /**
+   * Accepted fields whose value does not appear in the user's recent
+   * messages (GroundingPolicy action 'flag'); worth confirming with the
+   * user. Always empty without a grounding policy
+   * @example ["email"]
+   */
+  ungroundedFields: string[];
+
+  /**
+   * Injection patterns matched by the user message
+   * (InjectionPolicy); always empty without a policy
+   * @example ["IGNORE_INSTRUCTIONS"]
+   */
+  suspectedInjection: string[];
+
+  /**
+   * Optional fields the user declined to answer this turn
+   * ("skip", "prefer not to say"); they will not be asked again
+   * @example ["phone"]
+   */
+  declinedFields: string[];
+
+  /**
+   * Form-level rules (FormDefinition.rules) broken by the collected values
+   * The form is not complete while any violation remains
+   * @example [{ fields: ["endDate", "startDate"], error: "endDate must be after startDate" }]
+   */
+  ruleViolations: RuleViolation[];
+
+  /**
+   * Whether all required fields are collected and valid,
+   * and no form-level rule is violated
    * When true, form submission is complete
    */
   isComplete: boolean;
@@ -32,4 +228,50 @@ export interface OrchestratorResult {
    * @example "email"
    */
   nextField?: string;
+
+  /**
+   * Recoveries made while parsing the LLM response (lenient parsing)
+   * Always empty in strict mode
+   * @example [{ code: "DROPPED_UNKNOWN_FIELD", fieldName: "nickname", message: "..." }]
+   */
+  diagnostics: ParseDiagnostic[];
+
+  /**
+   * Set when a session limit was reached: the LLM was not called,
+   * botResponse is the closing message and nothing was extracted
+   * applyStep then moves the session to LIMIT_EXCEEDED
+   */
+  limitExceeded?: SessionLimitName;
+
+  /**
+   * Set when the value was extracted locally (LocalExtractionPolicy):
+   * the LLM was not called and botResponse comes from a template
+   */
+  extractedLocally?: boolean;
+
+  /**
+   * Token usage of each LLM call made this step, including repair
+   * attempts (calls whose response carried no usage are omitted)
+   * @example [{ model: "gpt-4o-mini", promptTokens: 812, completionTokens: 64, totalTokens: 876 }]
+   */
+  usage: UsageRecord[];
+
+  /**
+   * Number of LLM calls it took to get a usable response
+   * Always 1 unless a RepairPolicy allowed retries
+   */
+  attempts: number;
 }
+
+/**
+ * Event yielded by runLlmStepStream
+ *
+ * - `delta`: next piece of the bot response text, as it arrives
+ * - `retry`: the previous attempt was unusable and a repair attempt
+ *   starts; discard the text streamed so far
+ * - `result`: final, fully validated result (always the last event)
+ */
+export type LlmStepStreamEvent =
+  | { op: 'delta'; text: string }
+  | { op: 'retry'; attempt: number }
+  | { op: 'result'; result: OrchestratorResult };
@@ -0,0 +1,39 @@
+/**
+ * PII redaction types
+ */
+
+/**
+ * Finds one kind of personal data in free text
+ *
+ * @example
+ * ```typescript
+ * const ssnDetector: PiiDetector = {
+ *   kind: 'SSN',
+ *   find: (text) => text.match(/\b\d{3}-\d{2}-\d{4}\b/g) ?? [],
+ * };
+ * ```
+ */
+export interface PiiDetector {
+  /**
+   * Upper-case label used in placeholders ("EMAIL" -> "[EMAIL_1]")
+   */
+  kind: string;
+  /** Returns every occurrence of this kind of PII in the text */
+  find(text: string): string[];
+}
+
+/**
+ * Opt-in policy for replacing PII with placeholders before messages
+ * are sent to the LLM provider
+ *
+ * Placeholders are stable within a step (the same value always gets
+ * the same placeholder) and are mapped back to the original values in
+ * botResponse and extractedFields.
+ */
+export interface RedactionPolicy {
+  /**
+   * Detectors to apply, in order
+   * Defaults to the built-in email and phone detectors.
+   */
+  detectors?: readonly PiiDetector[];
+}
@@ -1,4 +1,7 @@
 import type { FieldValue } from './field';
+import type { ConsentRecord } from './consent';
+import type { SessionUsage } from './usage';
+import type { SessionLimitName } from './limits';
 
 /**
  * Session and conversation types
@@ -11,6 +14,8 @@ export enum SessionStatus {
   ACTIVE = 'ACTIVE',
   COMPLETED = 'COMPLETED',
   ABANDONED = 'ABANDONED',
+  /** Stopped because a SessionLimits cap was reached */
+  LIMIT_EXCEEDED = 'LIMIT_EXCEEDED',
 }
 
 /**
@@ -33,16 +38,38 @@ export interface SessionTurn {
   timestamp: Date;
 }
 
+/**
+ * A previous value of a field that was later corrected by the user
+ */
+export interface FieldRevision {
+  /** Value before the correction */
+  value: FieldValue;
+  /** When this value was originally collected */
+  collectedAt: Date;
+  /** When the correction replaced it */
+  replacedAt: Date;
+  /** Index in Session.turns of the user turn that made the correction */
+  replacedAtTurn?: number;
+}
+
 /**
  * Represents a collected field value
  */
 export interface SessionField {
   /** Must match FormField.id */
   fieldId: string;
-  /** Collected value (string | number | Date) */
+  /** Collected value (see FieldValue) */
   value: FieldValue;
   /** When field was collected */
   collectedAt: Date;
+  /** Index in Session.turns of the user turn that supplied the value */
+  turnIndex?: number;
+  /** Earlier values replaced by corrections, oldest first (audit trail) */
+  revisions?: readonly FieldRevision[];
+  /** True when the user declined to answer (value is null) */
+  declined?: boolean;
+  /** For CONSENT fields: proof of the consent (while value is true) */
+  consent?: ConsentRecord;
 }
 
 /**
@@ -53,7 +80,7 @@ export interface Session {
   id: string;
   /** References FormDefinition.id */
   formId: string;
-  /** ACTIVE, COMPLETED, or ABANDONED */
+  /** ACTIVE, COMPLETED, ABANDONED or LIMIT_EXCEEDED */
   status: SessionStatus;
   /** Conversation history (immutable) */
   turns: readonly SessionTurn[];
@@ -63,4 +90,19 @@ export interface Session {
   startedAt: Date;
   /** Session completion time (if completed) */
   completedAt?: Date;
+  /** LLM token usage accumulated by applyStep */
+  usage?: SessionUsage;
+  /** Limit that stopped the session (status LIMIT_EXCEEDED) */
+  limitExceeded?: SessionLimitName;
+  /**
+   * IANA timezone of the user (e.g. "Europe/Paris"); overrides
+   * FormDefinition.timeZone for DATETIME answers
+   */
+  timeZone?: string;
 }
+
+/**
+ * Time source injected into pure functions that need timestamps
+ * Pass `() => new Date()` in production, a fixed date in tests
+ */
+export type Clock = () => Date;
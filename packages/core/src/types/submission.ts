@@ -0,0 +1,22 @@
+import type { FieldValue } from './field';
+
+/**
+ * Submission types
+ */
+
+/**
+ * Final collected data for a session, keyed by field name
+ */
+export interface FormSubmission {
+  /** References FormDefinition.id */
+  formId: string;
+  /** References Session.id */
+  sessionId: string;
+  /**
+   * Collected values keyed by FormField.name
+   * A null here is a value the user actually gave, not a decline
+   */
+  values: Record<string, FieldValue>;
+  /** Names of optional fields the user declined to answer */
+  declined: string[];
+}
@@ -0,0 +1,67 @@
+/**
+ * Token usage and cost accounting types
+ */
+
+/**
+ * Token counts reported by an LLM provider
+ */
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Usage of a single LLM call
+ */
+export interface UsageRecord extends LlmUsage {
+  /** Model that served the call (LlmResponse.model), if reported */
+  model?: string;
+}
+
+/**
+ * Token totals for one model, or for a whole session
+ */
+export interface UsageTotals extends LlmUsage {
+  /** Number of LLM calls that reported usage */
+  calls: number;
+}
+
+/**
+ * Accumulated usage of a session (or of several sessions, via sumUsage)
+ */
+export interface SessionUsage extends UsageTotals {
+  /**
+   * Totals per model; calls that did not report a model are kept
+   * under "unknown"
+   */
+  byModel: Readonly<Record<string, UsageTotals>>;
+}
+
+/**
+ * Price of a model in a currency of your choice
+ * @example { promptPerMillion: 2.5, completionPerMillion: 10 } // USD per 1M tokens
+ */
+export interface ModelPrice {
+  /** Price per million prompt (input) tokens */
+  promptPerMillion: number;
+  /** Price per million completion (output) tokens */
+  completionPerMillion: number;
+}
+
+/**
+ * Model prices keyed by model name (matching LlmResponse.model)
+ */
+export type PriceTable = Readonly<Record<string, ModelPrice>>;
+
+/**
+ * Cost of some usage under a PriceTable
+ */
+export interface UsageCost {
+  /** Cost of all priced models */
+  total: number;
+  /** Cost per priced model */
+  byModel: Record<string, number>;
+  /** Models with usage but no entry in the price table (not in total) */
+  unpricedModels: string[];
+}
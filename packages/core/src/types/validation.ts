@@ -1,3 +1,6 @@
+import type { FieldValue } from './field';
+import type { FieldTypeRegistry } from './field-type';
+
 /**
  * Validation result types
  */
@@ -18,3 +21,29 @@
 export type ValidationResult =
   | { valid: true }
   | { valid: false; error: string };
+
+/**
+ * A failed form-level rule, naming every field involved
+ * so the user can be asked to resolve the conflict
+ */
+export interface RuleViolation {
+  /** Field names involved in the rule (FormField.name) */
+  fields: string[];
+  /** Error message (rule's custom message or a default) */
+  error: string;
+}
+
+/**
+ * Optional context for validateField
+ */
+export interface ValidationContext {
+  /**
+   * Answered values of other fields keyed by FormField.name
+   * When given, the field's visibleWhen condition is enforced
+   */
+  values?: Record<string, FieldValue>;
+  /** Registry for resolving custom field types (defaults to built-ins) */
+  fieldTypes?: FieldTypeRegistry;
+  /** IANA timezone for wall-clock checks of DATETIME values (default "UTC") */
+  timeZone?: string;
+}
@@ -0,0 +1,12 @@
+/**
+ * Usage module barrel export
+ */
+
+export {
+  accumulateUsage,
+  calculateCost,
+  sumUsage,
+  toUsageRecord,
+  EMPTY_USAGE,
+  UNKNOWN_MODEL,
+} from './usage';
@@ -0,0 +1,156 @@
+/**
+ * Token usage accumulation and cost calculation
+ *
+ * @module usage
+ */
+
+import type {
+  LlmUsage,
+  PriceTable,
+  SessionUsage,
+  UsageCost,
+  UsageRecord,
+  UsageTotals,
+} from '../types';
+
+/**
+ * Key for usage whose response did not name a model
+ */
+export const UNKNOWN_MODEL = 'unknown';
+
+/**
+ * Usage with no calls recorded
+ */
+export const EMPTY_USAGE: SessionUsage = {
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  calls: 0,
+  byModel: {},
+};
+
+/**
+ * Reads the usage of one LLM call from a response or stream chunk
+ *
+ * @param response - LLM response (or final stream chunk)
+ * @returns Usage record, or null when the provider reported no usage
+ */
+export function toUsageRecord(response: {
+  usage?: LlmUsage;
+  model?: string;
+}): UsageRecord | null {
+  if (!response.usage) {
+    return null;
+  }
+  return response.model === undefined
+    ? { ...response.usage }
+    : { ...response.usage, model: response.model };
+}
+
+/**
+ * Adds two token totals
+ */
+function addTotals(a: UsageTotals, b: UsageTotals): UsageTotals {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    calls: a.calls + b.calls,
+  };
+}
+
+/**
+ * Adds two accumulated usages, merging their per-model totals
+ */
+function mergeUsage(a: SessionUsage, b: SessionUsage): SessionUsage {
+  const byModel: Record<string, UsageTotals> = { ...a.byModel };
+  for (const [model, totals] of Object.entries(b.byModel)) {
+    const existing = byModel[model];
+    byModel[model] = existing ? addTotals(existing, totals) : totals;
+  }
+  return { ...addTotals(a, b), byModel };
+}
+
+/**
+ * Adds the usage of a step's LLM calls to a session's running total
+ *
+ * @param usage - Usage accumulated so far (undefined for none)
+ * @param records - Usage of each call (OrchestratorResult.usage)
+ * @returns New accumulated usage (inputs are not mutated)
+ *
+ * @example
+ * ```typescript
+ * const usage = accumulateUsage(session.usage, result.usage);
+ * ```
+ */
+export function accumulateUsage(
+  usage: SessionUsage | undefined,
+  records: readonly UsageRecord[]
+): SessionUsage {
+  return records.reduce<SessionUsage>((total, record) => {
+    const totals: UsageTotals = {
+      promptTokens: record.promptTokens,
+      completionTokens: record.completionTokens,
+      totalTokens: record.totalTokens,
+      calls: 1,
+    };
+    return mergeUsage(total, {
+      ...totals,
+      byModel: { [record.model ?? UNKNOWN_MODEL]: totals },
+    });
+  }, usage ?? EMPTY_USAGE);
+}
+
+/**
+ * Adds up the usage of several sessions (e.g. every session of a form)
+ *
+ * @param usages - Accumulated usages (undefined entries are skipped)
+ * @returns Combined usage
+ */
+export function sumUsage(
+  usages: readonly (SessionUsage | undefined)[]
+): SessionUsage {
+  return usages.reduce<SessionUsage>(
+    (total, usage) => (usage ? mergeUsage(total, usage) : total),
+    EMPTY_USAGE
+  );
+}
+
+/**
+ * Prices accumulated usage with a per-model price table
+ * Models missing from the table are listed in unpricedModels and
+ * left out of the total rather than guessed.
+ *
+ * @param usage - Accumulated usage (e.g. Session.usage)
+ * @param prices - Prices per million tokens, keyed by model
+ * @returns Total cost, cost per model and unpriced models
+ *
+ * @example
+ * ```typescript
+ * const cost = calculateCost(session.usage ?? EMPTY_USAGE, {
+ *   'gpt-4o-mini': { promptPerMillion: 0.15, completionPerMillion: 0.6 },
+ * });
+ * ```
+ */
+export function calculateCost(
+  usage: SessionUsage,
+  prices: PriceTable
+): UsageCost {
+  const cost: UsageCost = { total: 0, byModel: {}, unpricedModels: [] };
+
+  for (const [model, totals] of Object.entries(usage.byModel)) {
+    const price = prices[model];
+    if (!price) {
+      cost.unpricedModels.push(model);
+      continue;
+    }
+    const modelCost =
+      (totals.promptTokens * price.promptPerMillion +
+        totals.completionTokens * price.completionPerMillion) /
+      1_000_000;
+    cost.byModel[model] = modelCost;
+    cost.total += modelCost;
+  }
+
+  return cost;
+}
@@ -7,6 +7,16 @@ export {
   validatePhone,
   validateNumber,
   validateDate,
+  validateDateTime,
+  validateTime,
   validateEnum,
+  validateMultiSelect,
+  validateConsent,
+  validateText,
 } from './validators';
-export { validateField } from './validate-field';
+export { validateField, validatePart } from './validate-field';
+export {
+  validateFormRuleDefinitions,
+  validateFormRules,
+} from './validate-form-rules';
+export { validateFieldDefinition, validatePattern } from './rules';
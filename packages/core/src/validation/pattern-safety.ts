@@ -0,0 +1,260 @@
+/**
+ * Static check of user-supplied regex patterns for catastrophic
+ * (exponential) backtracking
+ *
+ * Walks the pattern's groups instead of matching its source with a
+ * regex, so nesting depth does not hide a risky shape.
+ *
+ * @module pattern-safety
+ */
+
+/**
+ * A single-character element of a pattern
+ */
+interface Atom {
+  /** Regex source of the element (`a`, `\d`, `[a-z]`, `.`) */
+  source: string;
+  /** The character matched, when the element is a plain literal */
+  literal?: string;
+}
+
+/**
+ * Bounds of a quantifier (`+` is 1 to Infinity)
+ */
+interface Quantifier {
+  min: number;
+  max: number;
+  end: number;
+}
+
+/**
+ * State of a group while its contents are scanned
+ */
+interface GroupFrame {
+  /** First element of each alternative; null when it is a group */
+  firsts: (Atom | null)[];
+  /** Whether the current alternative has no element yet */
+  atStart: boolean;
+  /** Whether the group can match the same text in more than one way */
+  ambiguous: boolean;
+}
+
+/**
+ * "{3}", "{1,3}", "{2,}"
+ */
+const QUANTIFIER_REGEX = /^\{(\d+)(,(\d*))?\}/;
+
+/**
+ * Group openers longest first: non-capturing, lookarounds, named
+ */
+const GROUP_PREFIX_REGEX = /^\?(?::|=|!|<=|<!|<[A-Za-z_$][\w$]*>)/;
+
+function newFrame(): GroupFrame {
+  return { firsts: [], atStart: true, ambiguous: false };
+}
+
+/**
+ * Reads the quantifier at a position, if any (a lazy `?` is skipped)
+ */
+function readQuantifier(pattern: string, index: number): Quantifier | null {
+  const char = pattern[index];
+  let quantifier: Quantifier | null = null;
+  if (char === '*' || char === '+' || char === '?') {
+    const min = char === '+' ? 1 : 0;
+    const max = char === '?' ? 1 : Infinity;
+    quantifier = { min, max, end: index + 1 };
+  } else if (char === '{') {
+    const match = QUANTIFIER_REGEX.exec(pattern.slice(index));
+    if (match) {
+      const min = Number(match[1]);
+      const max =
+        match[2] === undefined ? min : match[3] ? Number(match[3]) : Infinity;
+      quantifier = { min, max, end: index + match[0].length };
+    }
+  }
+  if (quantifier && pattern[quantifier.end] === '?') {
+    quantifier.end++;
+  }
+  return quantifier;
+}
+
+/**
+ * Reads one element (escape, character class or character)
+ *
+ * @returns The element and the index after it
+ */
+function readAtom(pattern: string, index: number): { atom: Atom; end: number } {
+  const char = pattern[index]!;
+  if (char === '\\') {
+    const escaped = pattern[index + 1] ?? '';
+    const literal = /[A-Za-z0-9]/.test(escaped) ? undefined : escaped;
+    return { atom: { source: `\\${escaped}`, literal }, end: index + 2 };
+  }
+  if (char === '[') {
+    let end = index + 1;
+    // A "]" right after "[" or "[^" is a literal member
+    end += pattern[end] === '^' ? 1 : 0;
+    end += pattern[end] === ']' ? 1 : 0;
+    while (end < pattern.length && pattern[end] !== ']') {
+      end += pattern[end] === '\\' ? 2 : 1;
+    }
+    return { atom: { source: pattern.slice(index, end + 1) }, end: end + 1 };
+  }
+  const special = '.^$'.includes(char);
+  return {
+    atom: { source: char, literal: special ? undefined : char },
+    end: index + 1,
+  };
+}
+
+/**
+ * Whether two elements may match the same character
+ * Compares literals exactly and literals against classes; two classes
+ * are assumed to overlap.
+ */
+function atomsOverlap(a: Atom | null, b: Atom | null): boolean {
+  if (!a || !b) {
+    return true;
+  }
+  if (a.literal !== undefined && b.literal !== undefined) {
+    return a.literal === b.literal;
+  }
+  const literal = a.literal ?? b.literal;
+  const other = a.literal === undefined ? a : b;
+  if (literal === undefined) {
+    return true;
+  }
+  try {
+    return new RegExp(`^(?:${other.source})$`).test(literal);
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Whether two alternatives of a group may start with the same character
+ * (`a|aa`), letting a repeated group split the input in many ways
+ */
+function hasOverlappingAlternatives(frame: GroupFrame): boolean {
+  return frame.firsts.some((first, i) =>
+    frame.firsts.slice(i + 1).some((other) => atomsOverlap(first, other))
+  );
+}
+
+/**
+ * Records the first element of the current alternative
+ */
+function noteElement(frame: GroupFrame, atom: Atom | null): void {
+  if (frame.atStart) {
+    frame.firsts.push(atom);
+    frame.atStart = false;
+  }
+}
+
+/**
+ * Closes a group: decides whether it is ambiguous and whether the
+ * quantifier after it repeats that ambiguity
+ *
+ * @returns Whether the pattern is a backtracking risk
+ */
+function closeGroup(
+  group: GroupFrame,
+  parent: GroupFrame,
+  quantifier: Quantifier | null
+): boolean {
+  // An empty last alternative (`(a|)`) makes the group optional
+  const hasEmpty = group.atStart && group.firsts.length > 0;
+  const ambiguous =
+    group.ambiguous || hasEmpty || hasOverlappingAlternatives(group);
+  if (ambiguous && quantifier && quantifier.max > 1) {
+    return true;
+  }
+  parent.ambiguous ||=
+    ambiguous || (quantifier !== null && quantifier.min !== quantifier.max);
+  return false;
+}
+
+/**
+ * Sentinel index returned by a scan step that found a risk
+ */
+const RISK = -1;
+
+/**
+ * Scans a group opener and starts a frame for its contents
+ *
+ * @returns Index after the opener
+ */
+function openGroup(pattern: string, index: number, stack: GroupFrame[]): number {
+  noteElement(stack[stack.length - 1]!, null);
+  stack.push(newFrame());
+  const prefix = GROUP_PREFIX_REGEX.exec(pattern.slice(index + 1));
+  return index + 1 + (prefix?.[0].length ?? 0);
+}
+
+/**
+ * Scans a group closer and the quantifier after it
+ *
+ * @returns Index after the quantifier, or RISK
+ */
+function endGroup(pattern: string, index: number, stack: GroupFrame[]): number {
+  const group = stack.pop()!;
+  const quantifier = readQuantifier(pattern, index + 1);
+  if (closeGroup(group, stack[stack.length - 1]!, quantifier)) {
+    return RISK;
+  }
+  return quantifier?.end ?? index + 1;
+}
+
+/**
+ * Scans one element and its quantifier
+ *
+ * @returns Index after the quantifier, or RISK for a backreference
+ */
+function scanAtom(pattern: string, index: number, frame: GroupFrame): number {
+  if (/^\\[1-9]/.test(pattern.slice(index))) {
+    return RISK;
+  }
+  const { atom, end } = readAtom(pattern, index);
+  noteElement(frame, atom);
+  const quantifier = readQuantifier(pattern, end);
+  frame.ambiguous ||= quantifier !== null && quantifier.min !== quantifier.max;
+  return quantifier?.end ?? end;
+}
+
+/**
+ * Checks a pattern for shapes with exponential backtracking
+ *
+ * A group is ambiguous when it contains a variable quantifier (`+`,
+ * `*`, `?`, `{1,3}`) at any depth, an empty alternative, or two
+ * alternatives that may start with the same character. Repeating an
+ * ambiguous group (`(a+)+`, `((a+)b?)+`, `(a|aa)+`) is refused, as are
+ * backreferences. Safe patterns may be refused too: the check is
+ * deliberately conservative.
+ *
+ * @param pattern - Regex source
+ * @returns True if the pattern may backtrack catastrophically
+ */
+export function isBacktrackingRisk(pattern: string): boolean {
+  const stack: GroupFrame[] = [newFrame()];
+  let index = 0;
+  while (index < pattern.length) {
+    const frame = stack[stack.length - 1]!;
+    const char = pattern[index]!;
+    if (char === '(') {
+      index = openGroup(pattern, index, stack);
+    } else if (char === '|') {
+      // An empty alternative (`(|a)`) makes the group optional
+      frame.ambiguous ||= frame.atStart;
+      frame.atStart = true;
+      index++;
+    } else if (char === ')' && stack.length > 1) {
+      index = endGroup(pattern, index, stack);
+    } else {
+      index = scanAtom(pattern, index, frame);
+    }
+    if (index === RISK) {
+      return true;
+    }
+  }
+  return false;
+}
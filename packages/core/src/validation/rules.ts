@@ -0,0 +1,215 @@
+/**
+ * ValidationRule enforcement - rule/type compatibility, safe regex
+ * compilation and string length limits
+ *
+ * @module rules
+ */
+
+import type {
+  FieldTypeRegistry,
+  FormField,
+  ValidationResult,
+  ValidationRule,
+} from '../types';
+import { ClientError, FieldType } from '../types';
+import { resolveFieldType, toSubFormField } from '../field-types';
+import { isBacktrackingRisk } from './pattern-safety';
+
+/**
+ * Longest pattern source accepted from a field definition
+ */
+const MAX_PATTERN_LENGTH = 500;
+
+/**
+ * Longest value a pattern is tested against
+ * Bounds the work any pattern can do on user input
+ */
+const MAX_PATTERN_INPUT_LENGTH = 10_000;
+
+/**
+ * Compiles a user-supplied regex pattern, refusing unsafe ones
+ *
+ * @param pattern - Regex source from ValidationRule.pattern
+ * @returns Compiled RegExp, or an error describing why it was refused
+ */
+export function compilePattern(
+  pattern: string
+): { valid: true; regex: RegExp } | { valid: false; error: string } {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return {
+      valid: false,
+      error: `Pattern is longer than ${MAX_PATTERN_LENGTH} characters`,
+    };
+  }
+
+  if (isBacktrackingRisk(pattern)) {
+    return {
+      valid: false,
+      error: 'Pattern may cause catastrophic backtracking',
+    };
+  }
+
+  try {
+    return { valid: true, regex: new RegExp(pattern) };
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Invalid pattern';
+    return { valid: false, error: message };
+  }
+}
+
+/**
+ * Checks that a field's validation rule is usable for its type
+ *
+ * Reports rule keys the type's plugin does not support, inverted
+ * min/max bounds, invalid or unsafe patterns, misdeclared sub-fields
+ * and missing or misplaced consent terms.
+ *
+ * @param field - Field definition to check
+ * @param fieldTypes - Registry for custom types (defaults to built-ins)
+ * @returns ValidationResult describing the first problem found
+ * @throws ClientError if the field's type is not registered
+ */
+export function validateFieldDefinition(
+  field: FormField,
+  fieldTypes?: FieldTypeRegistry
+): ValidationResult {
+  const plugin = resolveFieldType(field, fieldTypes);
+  const subFieldsResult = checkSubFields(field, fieldTypes);
+  if (!subFieldsResult.valid) {
+    return subFieldsResult;
+  }
+  const termsResult = checkConsentTerms(field);
+  const rules = field.validation;
+  if (!termsResult.valid || !rules) {
+    return termsResult;
+  }
+
+  const supported = plugin.supportedRules ?? [];
+  const keys = (Object.keys(rules) as (keyof ValidationRule)[]).filter(
+    (key) => key !== 'message' && rules[key] !== undefined
+  );
+  const unsupported = keys.find((key) => !supported.includes(key));
+  if (unsupported) {
+    return {
+      valid: false,
+      error: `Validation rule '${unsupported}' is not supported for ${field.type} fields`,
+    };
+  }
+
+  if (rules.min !== undefined && rules.max !== undefined && rules.min > rules.max) {
+    return { valid: false, error: 'Validation rule min must not exceed max' };
+  }
+
+  if (rules.pattern !== undefined) {
+    const compiled = compilePattern(rules.pattern);
+    if (!compiled.valid) {
+      return { valid: false, error: compiled.error };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Checks that sub-fields are declared exactly for COMPOSITE fields,
+ * are not nested, and are valid definitions themselves
+ *
+ * @param field - Field definition to check
+ * @param fieldTypes - Registry for custom types (defaults to built-ins)
+ * @returns ValidationResult describing the first problem found
+ */
+function checkSubFields(
+  field: FormField,
+  fieldTypes?: FieldTypeRegistry
+): ValidationResult {
+  const subFields = field.subFields ?? [];
+  const isComposite = field.type === FieldType.COMPOSITE;
+  if (isComposite ? subFields.length === 0 : field.subFields !== undefined) {
+    return {
+      valid: false,
+      error: 'COMPOSITE fields, and only they, must declare subFields',
+    };
+  }
+
+  for (const subField of subFields) {
+    if (subField.type === FieldType.COMPOSITE) {
+      return { valid: false, error: 'Sub-fields cannot be COMPOSITE' };
+    }
+    const result = validateFieldDefinition(
+      toSubFormField(field, subField),
+      fieldTypes
+    );
+    if (!result.valid) {
+      return { valid: false, error: `${subField.label}: ${result.error}` };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Checks that consent terms are declared exactly for CONSENT fields
+ * and have text to show the user
+ *
+ * @param field - Field definition to check
+ * @returns ValidationResult describing the problem found, if any
+ */
+function checkConsentTerms(field: FormField): ValidationResult {
+  if (field.type !== FieldType.CONSENT) {
+    return field.consent === undefined
+      ? { valid: true }
+      : { valid: false, error: 'Only CONSENT fields can declare consent terms' };
+  }
+  if (!field.consent || field.consent.text.trim() === '') {
+    return { valid: false, error: 'CONSENT fields must declare consent terms' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Throws if a field's validation rule cannot be enforced
+ * A broken rule is a form configuration problem, not bad user input.
+ *
+ * @param field - Field definition to check
+ * @param fieldTypes - Registry for custom types (defaults to built-ins)
+ * @throws ClientError with INVALID_FIELD_DEFINITION
+ */
+export function assertFieldDefinition(
+  field: FormField,
+  fieldTypes?: FieldTypeRegistry
+): void {
+  const result = validateFieldDefinition(field, fieldTypes);
+  if (!result.valid) {
+    throw new ClientError(result.error, 400, 'INVALID_FIELD_DEFINITION', {
+      fieldName: field.name,
+      validation: field.validation,
+    });
+  }
+}
+
+/**
+ * Tests a value against a (previously checked) pattern
+ *
+ * @param value - String value to test
+ * @param pattern - Regex source from ValidationRule.pattern
+ * @returns ValidationResult indicating success or failure with error message
+ */
+export function validatePattern(
+  value: string,
+  pattern: string
+): ValidationResult {
+  const compiled = compilePattern(pattern);
+  if (!compiled.valid) {
+    return { valid: false, error: compiled.error };
+  }
+
+  if (value.length > MAX_PATTERN_INPUT_LENGTH) {
+    return { valid: false, error: 'Value is too long' };
+  }
+
+  if (!compiled.regex.test(value)) {
+    return { valid: false, error: 'Value does not match the required format' };
+  }
+
+  return { valid: true };
+}
@@ -1,18 +1,27 @@
 /**
- * Field validation dispatcher - delegates to type-specific validators
+ * Field validation dispatcher - delegates to the field type's plugin
  *
  * @module validate-field
  */
 
-import type { FormField, FieldValue, ValidationResult } from '../types';
-import { FieldType } from '../types';
+import type {
+  CompositeValue,
+  FieldTypePlugin,
+  FormField,
+  FieldValue,
+  SimpleFieldValue,
+  ValidationContext,
+  ValidationResult,
+} from '../types';
+import { isFieldVisible } from '../conditions';
 import {
-  validateEmail,
-  validatePhone,
-  validateNumber,
-  validateDate,
-  validateEnum,
-} from './validators';
+  DEFAULT_TIME_ZONE,
+  isCompositeValue,
+  isEmptyCompositeValue,
+  resolveFieldType,
+  toSubFormField,
+} from '../field-types';
+import { assertFieldDefinition, validatePattern } from './rules';
 
 /**
  * Checks if a value satisfies the required constraint
@@ -25,7 +34,11 @@ function checkRequired(
   field: FormField,
   value: FieldValue
 ): ValidationResult | null {
-  const isNull = value === null || value === undefined;
+  const isNull =
+    value === null ||
+    value === undefined ||
+    (Array.isArray(value) && value.length === 0) ||
+    isEmptyCompositeValue(value);
 
   if (field.required && isNull) {
     return { valid: false, error: 'Field is required' };
@@ -39,84 +52,212 @@ function checkRequired(
 }
 
 /**
- * Validates a NUMBER field value
+ * Checks a value against the field's visibility condition
+ * A hidden field is never required, and must not receive a value.
+ *
+ * @param field - Field definition
+ * @param value - Value to check
+ * @param values - Other answered values keyed by field name
+ * @returns ValidationResult for hidden fields, or null if the field is visible
  */
-function validateNumberField(
+function checkVisibility(
+  field: FormField,
   value: FieldValue,
-  validation?: { min?: number; max?: number }
+  values: Record<string, FieldValue>
+): ValidationResult | null {
+  if (isFieldVisible(field, values)) {
+    return null;
+  }
+
+  if (value === null || value === undefined) {
+    return { valid: true };
+  }
+
+  return {
+    valid: false,
+    error: 'Field does not apply to the answers given so far',
+  };
+}
+
+/**
+ * Error for each shape a value can be expected to have
+ */
+const SHAPE_ERRORS = {
+  single: 'Value must be a single value',
+  list: 'Value must be a list of options',
+  parts: 'Value must be an object of named parts',
+} as const;
+
+/**
+ * Returns the shape of a value
+ */
+function shapeOf(value: FieldValue): keyof typeof SHAPE_ERRORS {
+  if (isCompositeValue(value)) {
+    return 'parts';
+  }
+  return Array.isArray(value) ? 'list' : 'single';
+}
+
+/**
+ * Checks that a value has the shape its field expects: parts for
+ * fields with sub-fields, a list for multi-value types, else a single value
+ *
+ * @param field - Field definition
+ * @param plugin - Field type plugin
+ * @param value - Non-null value to check
+ * @returns ValidationResult for a value of the wrong shape, or null
+ */
+function checkValueShape(
+  field: FormField,
+  plugin: FieldTypePlugin,
+  value: FieldValue
+): ValidationResult | null {
+  let expected: keyof typeof SHAPE_ERRORS = 'single';
+  if (field.subFields) {
+    expected = 'parts';
+  } else if (plugin.multiValue) {
+    expected = 'list';
+  }
+
+  return shapeOf(value) === expected
+    ? null
+    : { valid: false, error: SHAPE_ERRORS[expected] };
+}
+
+/**
+ * Validates one part of a COMPOSITE value with its sub-field's type and
+ * rule; a null part counts as not given yet and is valid
+ *
+ * @param field - COMPOSITE field definition
+ * @param name - Part name (matching SubField.name)
+ * @param part - Part value
+ * @param context - Field type registry and timezone
+ * @returns ValidationResult with the error prefixed by the part's label
+ * @throws ClientError if the sub-field's type is not registered
+ */
+export function validatePart(
+  field: FormField,
+  name: string,
+  part: SimpleFieldValue,
+  context: ValidationContext = {}
 ): ValidationResult {
-  const numValue = typeof value === 'number' ? value : Number(value);
-  const rules = validation || {};
-  return validateNumber(numValue, {
-    min: rules.min,
-    max: rules.max,
+  const subField = field.subFields?.find((s) => s.name === name);
+  if (!subField) {
+    return { valid: false, error: `Unknown part: ${name}` };
+  }
+  const result = validateField(toSubFormField(field, subField), part, {
+    fieldTypes: context.fieldTypes,
+    timeZone: context.timeZone,
   });
+  if (!result.valid && part !== null) {
+    return { valid: false, error: `${subField.label}: ${result.error}` };
+  }
+  return { valid: true };
 }
 
 /**
- * Validates a DATE field value
+ * Validates each given part of a COMPOSITE value with its sub-field's
+ * type and rule; missing parts are allowed (collected over several turns)
+ *
+ * @param field - COMPOSITE field definition
+ * @param value - Composite value
+ * @param context - Field type registry and timezone
+ * @returns First failing part's error prefixed with its label, or valid
  */
-function validateDateField(value: FieldValue): ValidationResult {
-  if (value instanceof Date || typeof value === 'string') {
-    return validateDate(value);
+function validateParts(
+  field: FormField,
+  value: CompositeValue,
+  context: ValidationContext
+): ValidationResult {
+  for (const [name, part] of Object.entries(value)) {
+    const result = validatePart(field, name, part, context);
+    if (!result.valid) {
+      return result;
+    }
   }
-  return { valid: false, error: 'Invalid date format' };
+  return { valid: true };
 }
 
 /**
- * Validates an ENUM field value
+ * Runs the type plugin's validator on a simple value, then the rule's
+ * `pattern`
+ *
+ * @param field - Field definition
+ * @param plugin - Field type plugin
+ * @param value - Non-null value of the expected shape
+ * @param timeZone - IANA timezone of the user
+ * @returns ValidationResult from the first failing check, or valid
  */
-function validateEnumField(
-  value: FieldValue,
-  validation?: { options?: string[] }
+function validateSimpleValue(
+  field: FormField,
+  plugin: FieldTypePlugin,
+  value: SimpleFieldValue,
+  timeZone: string
 ): ValidationResult {
-  const strValue = String(value);
-  const options = validation?.options || [];
-  return validateEnum(strValue, options);
+  const result = plugin.validate(value, field, { timeZone });
+  const pattern = field.validation?.pattern;
+  if (result.valid && pattern !== undefined) {
+    return validatePattern(String(value), pattern);
+  }
+  return result;
 }
 
 /**
  * Validates a field value against its field definition
- * Dispatches to appropriate type-specific validator
+ * Resolves the field's type plugin (built-in or custom) and runs its
+ * validator, then applies the rule's `pattern`. When the rule defines a
+ * custom `message`, it replaces the validator's error text. The parts
+ * of a COMPOSITE value are validated with their sub-fields' types.
+ *
+ * When `context.values` is given, the field's `visibleWhen` condition is
+ * evaluated against it first: hidden fields are optional and reject
+ * any non-null value.
  *
  * @param field - Field definition with type and validation rules
  * @param value - Value to validate
+ * @param context - Optional other answers, field type registry and
+ *   timezone
  * @returns ValidationResult indicating success or failure with error message
+ * @throws ClientError if the type is not registered or its rule is unusable
  */
 export function validateField(
   field: FormField,
-  value: FieldValue
+  value: FieldValue,
+  context: ValidationContext = {}
 ): ValidationResult {
+  // Check visibility condition
+  if (context.values !== undefined) {
+    const visibilityResult = checkVisibility(field, value, context.values);
+    if (visibilityResult !== null) {
+      return visibilityResult;
+    }
+  }
+
   // Check required constraint
   const requiredResult = checkRequired(field, value);
   if (requiredResult !== null) {
     return requiredResult;
   }
 
-  // Dispatch to type-specific validators
-  switch (field.type) {
-    case FieldType.EMAIL:
-      return validateEmail(String(value));
-
-    case FieldType.PHONE:
-      return validatePhone(String(value));
-
-    case FieldType.NUMBER:
-      return validateNumberField(value, field.validation);
-
-    case FieldType.DATE:
-      return validateDateField(value);
+  // Refuse types and rules that cannot be enforced (configuration error)
+  assertFieldDefinition(field, context.fieldTypes);
+  const plugin = resolveFieldType(field, context.fieldTypes);
 
-    case FieldType.ENUM:
-      return validateEnumField(value, field.validation);
+  const result =
+    checkValueShape(field, plugin, value) ??
+    (isCompositeValue(value)
+      ? validateParts(field, value, context)
+      : validateSimpleValue(
+          field,
+          plugin,
+          value,
+          context.timeZone ?? DEFAULT_TIME_ZONE
+        ));
 
-    case FieldType.TEXT:
-    case FieldType.LONG_TEXT:
-      return { valid: true };
-
-    default: {
-      const exhaustiveCheck: never = field.type;
-      return exhaustiveCheck;
-    }
+  const message = field.validation?.message;
+  if (!result.valid && message !== undefined) {
+    return { valid: false, error: message };
   }
+
+  return result;
 }
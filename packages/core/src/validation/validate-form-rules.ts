@@ -0,0 +1,225 @@
+/**
+ * Form-level (cross-field) validation rules
+ *
+ * @module validate-form-rules
+ */
+
+import type {
+  FieldValue,
+  FormDefinition,
+  FormRule,
+  RuleViolation,
+  ValidationResult,
+} from '../types';
+import { ClientError } from '../types';
+import { isSameFieldValue } from '../session';
+import { parseZonedDateTime } from '../field-types';
+
+/**
+ * "HH:MM" as stored for TIME fields
+ */
+const TIME_VALUE_REGEX = /^(\d{2}):(\d{2})$/;
+
+/**
+ * Converts a date or number value to a comparable number
+ * DATETIME values compare by instant, whatever their zones; TIME
+ * values by minutes since midnight.
+ *
+ * @param value - Field value
+ * @returns Numeric value, or null if the value is not comparable
+ */
+function toComparable(value: FieldValue | undefined): number | null {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  if (typeof value === 'string') {
+    const zoned = parseZonedDateTime(value);
+    if (zoned) {
+      return zoned.instant.getTime();
+    }
+    const clock = TIME_VALUE_REGEX.exec(value);
+    if (clock) {
+      return Number(clock[1]) * 60 + Number(clock[2]);
+    }
+    const time = Date.parse(value);
+    return isNaN(time) ? null : time;
+  }
+  return null;
+}
+
+/**
+ * Checks whether a field has an answered (non-null) value
+ */
+function isAnswered(value: FieldValue | undefined): boolean {
+  return value !== null && value !== undefined;
+}
+
+/**
+ * Checks an `after` rule (field strictly greater than reference)
+ */
+function checkAfterRule(
+  rule: Extract<FormRule, { op: 'after' }>,
+  values: Record<string, FieldValue>
+): RuleViolation | null {
+  const value = toComparable(values[rule.field]);
+  const reference = toComparable(values[rule.reference]);
+  if (value === null || reference === null || value > reference) {
+    return null;
+  }
+  return {
+    fields: [rule.field, rule.reference],
+    error: rule.message ?? `${rule.field} must be after ${rule.reference}`,
+  };
+}
+
+/**
+ * Checks an `equals` rule (field matches reference)
+ */
+function checkEqualsRule(
+  rule: Extract<FormRule, { op: 'equals' }>,
+  values: Record<string, FieldValue>
+): RuleViolation | null {
+  const value = values[rule.field];
+  const reference = values[rule.reference];
+  if (!isAnswered(value) || !isAnswered(reference)) {
+    return null;
+  }
+  if (isSameFieldValue(value ?? null, reference ?? null)) {
+    return null;
+  }
+  return {
+    fields: [rule.field, rule.reference],
+    error: rule.message ?? `${rule.field} must match ${rule.reference}`,
+  };
+}
+
+/**
+ * Checks an `atLeastOne` rule (only once all required fields are in)
+ */
+function checkAtLeastOneRule(
+  rule: Extract<FormRule, { op: 'atLeastOne' }>,
+  values: Record<string, FieldValue>,
+  final: boolean
+): RuleViolation | null {
+  if (!final || rule.fields.some((name) => isAnswered(values[name]))) {
+    return null;
+  }
+  return {
+    fields: [...rule.fields],
+    error:
+      rule.message ?? `At least one of ${rule.fields.join(', ')} is required`,
+  };
+}
+
+/**
+ * Evaluates a single rule
+ *
+ * @param rule - Rule to check
+ * @param values - Answered values keyed by field name
+ * @param final - Whether all required fields are collected
+ * @returns Violation, or null if the rule holds or cannot be judged yet
+ */
+function checkRule(
+  rule: FormRule,
+  values: Record<string, FieldValue>,
+  final: boolean
+): RuleViolation | null {
+  switch (rule.op) {
+    case 'after':
+      return checkAfterRule(rule, values);
+
+    case 'equals':
+      return checkEqualsRule(rule, values);
+
+    case 'atLeastOne':
+      return checkAtLeastOneRule(rule, values, final);
+
+    default: {
+      const exhaustiveCheck: never = rule;
+      return exhaustiveCheck;
+    }
+  }
+}
+
+/**
+ * Lists the field names a rule refers to
+ */
+function getRuleFieldNames(rule: FormRule): readonly string[] {
+  return rule.op === 'atLeastOne' ? rule.fields : [rule.field, rule.reference];
+}
+
+/**
+ * Checks that a form's cross-field rules can be enforced
+ *
+ * Every field name in a rule must be a field of the form: a misspelled
+ * name would leave an `after` or `equals` rule silently unchecked, and
+ * an `atLeastOne` rule impossible to satisfy.
+ *
+ * @param form - Form definition with optional rules
+ * @returns ValidationResult describing the first problem found
+ */
+export function validateFormRuleDefinitions(
+  form: FormDefinition
+): ValidationResult {
+  const names = new Set(form.fields.map((f) => f.name));
+  for (const rule of form.rules ?? []) {
+    const fieldNames = getRuleFieldNames(rule);
+    if (fieldNames.length === 0) {
+      return {
+        valid: false,
+        error: `Form rule '${rule.op}' must name at least one field`,
+      };
+    }
+    const unknown = fieldNames.find((name) => !names.has(name));
+    if (unknown !== undefined) {
+      return {
+        valid: false,
+        error: `Form rule '${rule.op}' refers to unknown field '${unknown}'`,
+      };
+    }
+  }
+  return { valid: true };
+}
+
+/**
+ * Throws if a form's cross-field rules cannot be enforced
+ * A broken rule is a form configuration problem, not bad user input.
+ *
+ * @param form - Form definition with optional rules
+ * @throws ClientError with INVALID_FORM_RULE
+ */
+function assertFormRuleDefinitions(form: FormDefinition): void {
+  const result = validateFormRuleDefinitions(form);
+  if (!result.valid) {
+    throw new ClientError(result.error, 400, 'INVALID_FORM_RULE', {
+      formId: form.id,
+    });
+  }
+}
+
+/**
+ * Validates the form's cross-field rules against the answers so far
+ *
+ * Pairwise rules (`after`, `equals`) are only judged once both fields
+ * are answered. `atLeastOne` is only judged when `final` is true, i.e.
+ * once every required field has been collected.
+ *
+ * @param form - Form definition with optional rules
+ * @param values - Answered values keyed by FormField.name
+ * @param final - Whether all required fields are collected
+ * @returns Every violated rule (empty when all rules hold)
+ * @throws ClientError if a rule names a field the form does not have
+ */
+export function validateFormRules(
+  form: FormDefinition,
+  values: Record<string, FieldValue>,
+  final: boolean
+): RuleViolation[] {
+  assertFormRuleDefinitions(form);
+  return (form.rules ?? [])
+    .map((rule) => checkRule(rule, values, final))
+    .filter((violation): violation is RuleViolation => violation !== null);
+}
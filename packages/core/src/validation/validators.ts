@@ -5,6 +5,7 @@
  */
 
 import type { ValidationResult } from '../types';
+import { parseZonedDateTime } from '../field-types/zoned-time';
 
 /**
  * Standard email regex pattern
@@ -164,6 +165,69 @@ export function validateDate(value: Date | string): ValidationResult {
   return { valid: true };
 }
 
+/**
+ * Time of day in 24-hour "HH:MM" form
+ */
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Validates a time of day ("HH:MM", 24-hour)
+ *
+ * @param value - Time to validate
+ * @returns ValidationResult indicating success or failure with error message
+ */
+export function validateTime(value: string): ValidationResult {
+  if (!TIME_REGEX.test(value)) {
+    return { valid: false, error: 'Invalid time; use HH:MM' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates a date and time with its timezone
+ * The offset must match the zone at that time, so the instant and the
+ * wall-clock time agree.
+ *
+ * @param value - Date and time, e.g. "2024-03-05T15:30:00-05:00[America/New_York]"
+ * @returns ValidationResult indicating success or failure with error message
+ */
+export function validateDateTime(value: string): ValidationResult {
+  if (!parseZonedDateTime(value)) {
+    return { valid: false, error: 'Invalid date and time' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates text length against min/max character constraints
+ *
+ * @param value - Text to validate
+ * @param rules - Validation rules with optional min and max length
+ * @returns ValidationResult indicating success or failure with error message
+ */
+export function validateText(
+  value: string,
+  rules: { min?: number; max?: number }
+): ValidationResult {
+  if (rules.min !== undefined && value.length < rules.min) {
+    return {
+      valid: false,
+      error: `Must be at least ${rules.min} characters`,
+    };
+  }
+
+  if (rules.max !== undefined && value.length > rules.max) {
+    return {
+      valid: false,
+      error: `Must be at most ${rules.max} characters`,
+    };
+  }
+
+  return { valid: true };
+}
+
 /**
  * Validates that a value is one of the allowed enum options
  *
@@ -184,3 +248,59 @@ export function validateEnum(
 
   return { valid: true };
 }
+
+/**
+ * Validates a list of selected options
+ *
+ * @param value - Selected options
+ * @param options - Array of allowed values
+ * @param rules - Fewest (min) and most (max) selections allowed
+ * @returns ValidationResult indicating success or failure with error message
+ */
+export function validateMultiSelect(
+  value: string[],
+  options: string[],
+  rules: { min?: number; max?: number }
+): ValidationResult {
+  const unknown = value.filter((item) => !options.includes(item));
+  if (unknown.length > 0) {
+    return {
+      valid: false,
+      error: `Values must be among: ${options.join(', ')}`,
+    };
+  }
+
+  if (new Set(value).size !== value.length) {
+    return { valid: false, error: 'Each option may be selected only once' };
+  }
+
+  if (rules.min !== undefined && value.length < rules.min) {
+    return {
+      valid: false,
+      error: `Select at least ${rules.min} options`,
+    };
+  }
+
+  if (rules.max !== undefined && value.length > rules.max) {
+    return {
+      valid: false,
+      error: `Select at most ${rules.max} options`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates an answer to a CONSENT field: only agreement is accepted
+ *
+ * @param value - Answer (true when the user agreed)
+ * @returns ValidationResult indicating success or failure with error message
+ */
+export function validateConsent(value: boolean): ValidationResult {
+  if (!value) {
+    return { valid: false, error: 'Consent was not given' };
+  }
+
+  return { valid: true };
+}
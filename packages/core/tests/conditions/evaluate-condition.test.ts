@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateCondition, isFieldVisible } from '../../src/conditions';
+import type { FieldCondition } from '../../src/types';
+import { FieldType } from '../../src/types';
+
+describe('evaluateCondition', () => {
+  const values = { role: 'Business', age: 30, country: 'BR' };
+
+  it('should evaluate equals', () => {
+    expect(
+      evaluateCondition({ op: 'equals', field: 'role', value: 'Business' }, values)
+    ).toBe(true);
+    expect(
+      evaluateCondition({ op: 'equals', field: 'role', value: 'Personal' }, values)
+    ).toBe(false);
+  });
+
+  it('should evaluate in', () => {
+    expect(
+      evaluateCondition(
+        { op: 'in', field: 'country', values: ['BR', 'PT'] },
+        values
+      )
+    ).toBe(true);
+    expect(
+      evaluateCondition({ op: 'in', field: 'country', values: ['US'] }, values)
+    ).toBe(false);
+  });
+
+  it('should evaluate numeric comparisons', () => {
+    expect(evaluateCondition({ op: 'gt', field: 'age', value: 29 }, values)).toBe(true);
+    expect(evaluateCondition({ op: 'gte', field: 'age', value: 30 }, values)).toBe(true);
+    expect(evaluateCondition({ op: 'lt', field: 'age', value: 30 }, values)).toBe(false);
+    expect(evaluateCondition({ op: 'lte', field: 'age', value: 30 }, values)).toBe(true);
+  });
+
+  it('should never match numeric comparisons on non-numbers', () => {
+    expect(evaluateCondition({ op: 'gt', field: 'role', value: 0 }, values)).toBe(false);
+  });
+
+  it('should treat unanswered fields as not matching', () => {
+    expect(
+      evaluateCondition({ op: 'equals', field: 'missing', value: 'x' }, values)
+    ).toBe(false);
+    expect(
+      evaluateCondition({ op: 'in', field: 'missing', values: ['x'] }, values)
+    ).toBe(false);
+    expect(evaluateCondition({ op: 'lt', field: 'missing', value: 5 }, values)).toBe(false);
+  });
+
+  it('should combine conditions with and/or/not', () => {
+    const condition: FieldCondition = {
+      op: 'and',
+      conditions: [
+        { op: 'equals', field: 'role', value: 'Business' },
+        {
+          op: 'or',
+          conditions: [
+            { op: 'gte', field: 'age', value: 65 },
+            { op: 'not', condition: { op: 'equals', field: 'country', value: 'US' } },
+          ],
+        },
+      ],
+    };
+
+    expect(evaluateCondition(condition, values)).toBe(true);
+    expect(evaluateCondition(condition, { ...values, country: 'US' })).toBe(false);
+  });
+});
+
+describe('isFieldVisible', () => {
+  const field = {
+    id: 'companySize',
+    name: 'companySize',
+    label: 'Company Size',
+    type: FieldType.NUMBER,
+    required: true,
+    order: 1,
+  };
+
+  it('should show fields without a condition', () => {
+    expect(isFieldVisible(field, {})).toBe(true);
+  });
+
+  it('should hide fields whose condition does not hold', () => {
+    const conditional = {
+      ...field,
+      visibleWhen: { op: 'equals', field: 'role', value: 'Business' } as const,
+    };
+
+    expect(isFieldVisible(conditional, { role: 'Personal' })).toBe(false);
+    expect(isFieldVisible(conditional, { role: 'Business' })).toBe(true);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { findConsentClauses } from '../../src/field-types';
+import type { FormField } from '../../src/types';
+import { FieldType } from '../../src/types';
+
+function consentField(name: string, label: string): FormField {
+  return {
+    id: name,
+    name,
+    label,
+    type: FieldType.CONSENT,
+    required: false,
+    order: 0,
+    consent: { text: label },
+  };
+}
+
+const fields = [
+  consentField('privacy', 'Privacy policy'),
+  consentField('marketing', 'Marketing emails'),
+];
+const both = new Set(['privacy', 'marketing']);
+
+describe('findConsentClauses', () => {
+  it('should tie each consent to the clause naming it', () => {
+    expect(
+      findConsentClauses(
+        fields,
+        both,
+        'Yes to the privacy policy, no to marketing'
+      )
+    ).toEqual(new Map([['privacy', 'Yes to the privacy policy']]));
+    expect(
+      findConsentClauses(
+        fields,
+        both,
+        'I accept the privacy policy but not the marketing emails'
+      )
+    ).toEqual(new Map([['privacy', 'I accept the privacy policy']]));
+  });
+
+  it('should give a generic agreement to one consent only', () => {
+    expect(findConsentClauses(fields, both, 'Yes!')).toEqual(
+      new Map([['privacy', 'Yes']])
+    );
+    expect(
+      findConsentClauses(fields, new Set(['marketing']), 'I agree')
+    ).toEqual(new Map([['marketing', 'I agree']]));
+  });
+
+  it('should not guess when a generic clause refuses', () => {
+    expect(findConsentClauses(fields, both, 'Yes, no')).toEqual(new Map());
+    expect(
+      findConsentClauses(fields, both, "Yes, I agree. I'll read it later")
+    ).toEqual(new Map([['privacy', 'Yes']]));
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isBooleanGrounded,
+  isConsentGrounded,
+  isDateGrounded,
+  isDateTimeGrounded,
+  isNumberGrounded,
+  isPhoneGrounded,
+  isTextGrounded,
+  isTimeGrounded,
+} from '../../src/field-types';
+
+describe('grounding matchers', () => {
+  it('should match text ignoring case and whitespace', () => {
+    expect(isTextGrounded('John  Doe', 'my name is john doe')).toBe(true);
+    expect(isTextGrounded('john@example.com', 'my name is john')).toBe(false);
+    expect(isTextGrounded('', 'anything')).toBe(false);
+  });
+
+  it('should match phone numbers in any format', () => {
+    const text = 'You can reach me at 555.123.4567 after six';
+
+    expect(isPhoneGrounded('(555) 123-4567', text)).toBe(true);
+    expect(isPhoneGrounded('+15551234567', text)).toBe(true);
+    expect(isPhoneGrounded('555-123-9999', text)).toBe(false);
+  });
+
+  it('should match dates in any supported format', () => {
+    const text = 'I was born on March 5th, 2024, I think';
+
+    expect(isDateGrounded('2024-03-05', text)).toBe(true);
+    expect(isDateGrounded('5 March 2024', text)).toBe(true);
+    expect(isDateGrounded('2024-03-06', text)).toBe(false);
+  });
+
+  it('should match relative dates against today', () => {
+    const today = { year: 2024, month: 3, day: 7 };
+
+    expect(isDateGrounded('2024-03-08', 'tomorrow works', today)).toBe(true);
+    expect(isDateGrounded('2024-03-09', 'tomorrow works', today)).toBe(false);
+    expect(isDateGrounded('2024-03-08', 'tomorrow works')).toBe(false);
+    expect(
+      isDateTimeGrounded('2024-03-12T09:00', 'next Tuesday at 9am', today)
+    ).toBe(true);
+  });
+
+  it('should fall back to text matching for unparsed dates', () => {
+    expect(isDateGrounded('next Friday', 'see you next friday')).toBe(true);
+  });
+
+  it('should match numbers with or without separators', () => {
+    const text = 'About 1,200, maybe 30 more';
+
+    expect(isNumberGrounded(1200, text)).toBe(true);
+    expect(isNumberGrounded('30', text)).toBe(true);
+    expect(isNumberGrounded(12, text)).toBe(false);
+  });
+
+  it('should match yes/no answers at the start of a clause', () => {
+    expect(isBooleanGrounded(true, 'Yes I have a car.')).toBe(true);
+    expect(isBooleanGrounded(false, 'Hmm. Nope, never')).toBe(true);
+    expect(isBooleanGrounded(true, 'I sold it, no car now')).toBe(false);
+    expect(isBooleanGrounded('maybe', 'maybe')).toBe(false);
+  });
+
+  it('should require explicit agreement for consent', () => {
+    expect(isConsentGrounded(true, 'Yes, I agree')).toBe(true);
+    expect(isConsentGrounded(true, 'sure')).toBe(false);
+    expect(isConsentGrounded(false, 'no')).toBe(true);
+  });
+
+  it('should match times written in any format', () => {
+    expect(isTimeGrounded('15:30', 'around 3:30pm please')).toBe(true);
+    expect(isTimeGrounded('12:00', 'at noon')).toBe(true);
+    expect(isTimeGrounded('15:00', 'at 3')).toBe(false);
+  });
+
+  it('should require both the date and the time of a date and time', () => {
+    const text = 'March 5th 2024, 3:30pm';
+
+    expect(
+      isDateTimeGrounded('2024-03-05T15:30:00-05:00[America/New_York]', text)
+    ).toBe(true);
+    expect(isDateTimeGrounded('2024-03-05T15:30', text)).toBe(true);
+    expect(isDateTimeGrounded('2024-03-05T16:30', text)).toBe(false);
+    expect(isDateTimeGrounded('2024-03-06T15:30', text)).toBe(false);
+  });
+});
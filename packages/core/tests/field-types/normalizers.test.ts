@@ -0,0 +1,255 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isExplicitConsent,
+  normalizeBoolean,
+  normalizeConsent,
+  normalizeDate,
+  normalizeDateTime,
+  normalizeEnum,
+  normalizeMultiSelect,
+  normalizeNumber,
+  normalizePhone,
+  normalizeTime,
+} from '../../src/field-types/normalizers';
+import type { FormField } from '../../src/types';
+import { FieldType } from '../../src/types';
+
+describe('normalizePhone', () => {
+  it('should convert national numbers to E.164 with the default code', () => {
+    expect(normalizePhone('(555) 123-4567')).toBe('+15551234567');
+    expect(normalizePhone('555.123.4567')).toBe('+15551234567');
+    expect(normalizePhone(5551234567)).toBe('+15551234567');
+  });
+
+  it('should keep an explicit country code', () => {
+    expect(normalizePhone('+44 20 7123 4567')).toBe('+442071234567');
+    expect(normalizePhone('0044 20 7123 4567')).toBe('+442071234567');
+    expect(normalizePhone('1-555-123-4567')).toBe('+15551234567');
+  });
+
+  it('should leave unrecognised values unchanged', () => {
+    expect(normalizePhone('555-1234')).toBe('555-1234');
+    expect(normalizePhone('call me maybe')).toBe('call me maybe');
+    expect(normalizePhone('+1234567890123456')).toBe('+1234567890123456');
+  });
+});
+
+describe('normalizeDate', () => {
+  it('should convert ISO strings to a UTC midnight Date', () => {
+    expect(normalizeDate('2024-03-03')).toEqual(new Date('2024-03-03'));
+    expect(normalizeDate('2024-03-03T15:30:00Z')).toEqual(
+      new Date('2024-03-03')
+    );
+  });
+
+  it('should understand month names and ordinals', () => {
+    expect(normalizeDate('March 3rd, 2024')).toEqual(new Date('2024-03-03'));
+    expect(normalizeDate('Mar 3 2024')).toEqual(new Date('2024-03-03'));
+    expect(normalizeDate('3rd of March 2024')).toEqual(new Date('2024-03-03'));
+    expect(normalizeDate('21 Sept. 2024')).toBe('21 Sept. 2024');
+  });
+
+  it('should leave impossible or incomplete dates unchanged', () => {
+    expect(normalizeDate('2024-02-30')).toBe('2024-02-30');
+    expect(normalizeDate('March 3rd')).toBe('March 3rd');
+    expect(normalizeDate('Smarch 3, 2024')).toBe('Smarch 3, 2024');
+  });
+
+  it('should resolve relative dates only when given today', () => {
+    const today = { year: 2024, month: 3, day: 7 };
+
+    expect(normalizeDate('tomorrow', today)).toEqual(new Date('2024-03-08'));
+    expect(normalizeDate('2024-03-03', today)).toEqual(new Date('2024-03-03'));
+    expect(normalizeDate('tomorrow')).toBe('tomorrow');
+  });
+});
+
+describe('normalizeNumber', () => {
+  it('should convert numeric strings to numbers', () => {
+    expect(normalizeNumber('42')).toBe(42);
+    expect(normalizeNumber(' -3.5 ')).toBe(-3.5);
+    expect(normalizeNumber('1,200.50')).toBe(1200.5);
+  });
+
+  it('should leave non-numeric strings unchanged', () => {
+    expect(normalizeNumber('forty-two')).toBe('forty-two');
+    expect(normalizeNumber('12,34')).toBe('12,34');
+    expect(normalizeNumber('')).toBe('');
+  });
+});
+
+describe('normalizeEnum', () => {
+  const field: FormField = {
+    id: 'agree',
+    name: 'agree',
+    label: 'Agree',
+    type: FieldType.ENUM,
+    required: true,
+    validation: { options: ['Yes', 'No'] },
+    order: 0,
+  };
+
+  it('should map to the canonical option ignoring case', () => {
+    expect(normalizeEnum('yes', field)).toBe('Yes');
+    expect(normalizeEnum(' NO ', field)).toBe('No');
+  });
+
+  it('should leave unknown options unchanged', () => {
+    expect(normalizeEnum('maybe', field)).toBe('maybe');
+  });
+});
+
+describe('normalizeMultiSelect', () => {
+  const field: FormField = {
+    id: 'channels',
+    name: 'channels',
+    label: 'Channels',
+    type: FieldType.MULTI_SELECT,
+    required: true,
+    validation: { options: ['Email', 'SMS', 'Phone call'] },
+    order: 0,
+  };
+
+  it('should map list items to canonical options', () => {
+    expect(normalizeMultiSelect(['email', 'SMS', 'email'], field)).toEqual([
+      'Email',
+      'SMS',
+    ]);
+  });
+
+  it('should split a single string into options', () => {
+    expect(normalizeMultiSelect('email, sms and phone call', field)).toEqual([
+      'Email',
+      'SMS',
+      'Phone call',
+    ]);
+  });
+
+  it('should not split option names that contain a separator', () => {
+    const departments: FormField = {
+      ...field,
+      validation: { options: ['Research and Development', 'R&D', 'Sales'] },
+    };
+
+    expect(
+      normalizeMultiSelect('research and development', departments)
+    ).toEqual(['Research and Development']);
+    expect(normalizeMultiSelect('R&D', departments)).toEqual(['R&D']);
+    expect(normalizeMultiSelect('r&d, sales', departments)).toEqual([
+      'R&D',
+      'Sales',
+    ]);
+  });
+
+  it('should keep unknown items for validation to reject', () => {
+    expect(normalizeMultiSelect('email; fax', field)).toEqual(['Email', 'fax']);
+    expect(normalizeMultiSelect(3, field)).toBe(3);
+  });
+});
+
+describe('normalizeBoolean', () => {
+  it('should read natural yes and no answers', () => {
+    expect(normalizeBoolean('Yep!')).toBe(true);
+    expect(normalizeBoolean('Yes, I do')).toBe(true);
+    expect(normalizeBoolean('of course')).toBe(true);
+    expect(normalizeBoolean('No thanks.')).toBe(false);
+    expect(normalizeBoolean("I  don't")).toBe(false);
+    expect(normalizeBoolean(false)).toBe(false);
+  });
+
+  it('should leave ambiguous answers unchanged', () => {
+    expect(normalizeBoolean('maybe')).toBe('maybe');
+    expect(normalizeBoolean('not sure')).toBe('not sure');
+    expect(normalizeBoolean(1)).toBe(1);
+  });
+});
+
+describe('normalizeConsent', () => {
+  it('should only turn explicit agreement into true', () => {
+    expect(normalizeConsent('Yes, I agree')).toBe(true);
+    expect(normalizeConsent('I consent to this')).toBe(true);
+    expect(normalizeConsent('sure')).toBe('sure');
+    expect(normalizeConsent('ok')).toBe('ok');
+    expect(normalizeConsent('no')).toBe(false);
+    expect(normalizeConsent('yes, maybe later')).toBe('yes, maybe later');
+  });
+
+  it('should treat negations and hedges as not explicit', () => {
+    expect(isExplicitConsent('I agree to the privacy policy.')).toBe(true);
+    expect(isExplicitConsent('I do not agree')).toBe(false);
+    expect(isExplicitConsent('yes maybe later')).toBe(false);
+    expect(isExplicitConsent('yesterday was fine')).toBe(false);
+  });
+
+  it('should only look for negations in the agreeing clause', () => {
+    expect(
+      isExplicitConsent('Yes to the privacy policy, no to marketing')
+    ).toBe(true);
+    expect(
+      isExplicitConsent("Yes, I agree. I'll read the details later")
+    ).toBe(true);
+    expect(isExplicitConsent('No, I do not agree')).toBe(false);
+  });
+});
+
+describe('normalizeTime', () => {
+  it('should convert times of day to HH:MM', () => {
+    expect(normalizeTime('3pm')).toBe('15:00');
+    expect(normalizeTime('3:30 p.m.')).toBe('15:30');
+    expect(normalizeTime('12am')).toBe('00:00');
+    expect(normalizeTime('9:05')).toBe('09:05');
+    expect(normalizeTime('noon')).toBe('12:00');
+  });
+
+  it('should leave bare hours and impossible times unchanged', () => {
+    expect(normalizeTime('3')).toBe('3');
+    expect(normalizeTime('25:00')).toBe('25:00');
+    expect(normalizeTime('13pm')).toBe('13pm');
+  });
+});
+
+describe('normalizeDateTime', () => {
+  const zone = 'America/New_York';
+
+  it('should read wall-clock times in the given timezone', () => {
+    expect(normalizeDateTime('2024-03-05T15:30', zone)).toBe(
+      '2024-03-05T15:30:00-05:00[America/New_York]'
+    );
+    expect(normalizeDateTime('July 4th, 2024 at 9am', zone)).toBe(
+      '2024-07-04T09:00:00-04:00[America/New_York]'
+    );
+    expect(normalizeDateTime('2024-03-05 15:30')).toBe(
+      '2024-03-05T15:30:00+00:00[UTC]'
+    );
+  });
+
+  it('should show instants with an offset in the given timezone', () => {
+    expect(normalizeDateTime('2024-03-05T20:30:00Z', zone)).toBe(
+      '2024-03-05T15:30:00-05:00[America/New_York]'
+    );
+    expect(normalizeDateTime(new Date('2024-03-05T20:30:00Z'), zone)).toBe(
+      '2024-03-05T15:30:00-05:00[America/New_York]'
+    );
+  });
+
+  it('should keep the zone of a value that already has one', () => {
+    const value = '2024-03-05T15:30:00+01:00[Europe/Paris]';
+
+    expect(normalizeDateTime(value, zone)).toBe(value);
+  });
+
+  it('should resolve repeated times to their first occurrence', () => {
+    expect(normalizeDateTime('2024-11-03T01:30', zone)).toBe(
+      '2024-11-03T01:30:00-04:00[America/New_York]'
+    );
+  });
+
+  it('should leave skipped and unrecognised times unchanged', () => {
+    expect(normalizeDateTime('2024-03-10T02:30', zone)).toBe(
+      '2024-03-10T02:30'
+    );
+    expect(normalizeDateTime('tomorrow evening', zone)).toBe(
+      'tomorrow evening'
+    );
+  });
+});
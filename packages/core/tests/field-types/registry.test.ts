@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BUILT_IN_FIELD_TYPES,
+  createFieldTypeRegistry,
+  resolveFieldType,
+} from '../../src/field-types';
+import { runLlmStep, buildSystemPrompt } from '../../src/orchestrator';
+import { validateField } from '../../src/validation';
+import type {
+  FieldTypePlugin,
+  FormDefinition,
+  FormField,
+} from '../../src/types';
+import { ClientError, FieldType } from '../../src/types';
+import { clientReturning, createSession } from '../helpers';
+
+const vatNumber: FieldTypePlugin = {
+  type: 'VAT_NUMBER',
+  normalize: (value) => String(value).replace(/\s/g, '').toUpperCase(),
+  validate: (value) =>
+    /^[A-Z]{2}[0-9A-Z]{8,12}$/.test(String(value))
+      ? { valid: true }
+      : { valid: false, error: 'Invalid VAT number' },
+  promptHint: () => 'EU VAT number with country prefix, e.g. DE123456789',
+};
+
+const vatField: FormField = {
+  id: 'vat',
+  name: 'vat',
+  label: 'VAT Number',
+  type: 'VAT_NUMBER',
+  required: true,
+  order: 0,
+};
+
+const form: FormDefinition = {
+  id: 'form1',
+  name: 'Billing',
+  fields: [vatField],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const session = createSession();
+
+describe('createFieldTypeRegistry', () => {
+  it('should register every built-in FieldType', () => {
+    const registry = createFieldTypeRegistry();
+
+    for (const type of Object.values(FieldType)) {
+      expect(registry.get(type)).toBeDefined();
+    }
+    expect(registry.size).toBe(BUILT_IN_FIELD_TYPES.length);
+  });
+
+  it('should add custom plugins alongside the built-ins', () => {
+    const registry = createFieldTypeRegistry([vatNumber]);
+
+    expect(registry.get('VAT_NUMBER')).toBe(vatNumber);
+    expect(registry.get(FieldType.EMAIL)).toBeDefined();
+  });
+
+  it('should refuse to register a type twice', () => {
+    expect(() =>
+      createFieldTypeRegistry([{ ...vatNumber, type: FieldType.EMAIL }])
+    ).toThrow('Field type is already registered');
+  });
+});
+
+describe('resolveFieldType', () => {
+  it('should throw ClientError for an unregistered type', () => {
+    let error: unknown;
+    try {
+      resolveFieldType(vatField);
+    } catch (e: unknown) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ClientError);
+    expect((error as ClientError).errorCode).toBe('UNKNOWN_FIELD_TYPE');
+  });
+});
+
+describe('custom field types', () => {
+  const fieldTypes = createFieldTypeRegistry([vatNumber]);
+
+  it('should validate through the plugin', () => {
+    expect(validateField(vatField, 'DE123456789', { fieldTypes })).toEqual({
+      valid: true,
+    });
+    expect(validateField(vatField, 'nope', { fieldTypes })).toEqual({
+      valid: false,
+      error: 'Invalid VAT number',
+    });
+  });
+
+  it('should reject validation rules the plugin does not declare', () => {
+    const withRule = { ...vatField, validation: { min: 3 } };
+
+    expect(() => validateField(withRule, 'DE123456789', { fieldTypes })).toThrow(
+      "Validation rule 'min' is not supported for VAT_NUMBER fields"
+    );
+  });
+
+  it('should include the plugin hint in the system prompt', () => {
+    const prompt = buildSystemPrompt(form, session, { fieldTypes });
+
+    expect(prompt).toContain(
+      '(vat, VAT_NUMBER) [REQUIRED] (format: EU VAT number with country prefix'
+    );
+  });
+
+  it('should normalize and validate extracted values in runLlmStep', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      'My VAT is de 123 456 789',
+      clientReturning({ vat: 'de 123 456 789' }),
+      { fieldTypes }
+    );
+
+    expect(result.extractedFields).toEqual({ vat: 'DE123456789' });
+    expect(result.isComplete).toBe(true);
+  });
+
+  it('should fail runLlmStep when the custom type is not registered', async () => {
+    await expect(
+      runLlmStep(form, session, 'Hi', clientReturning({}))
+    ).rejects.toThrow('Field type is not registered');
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findRelativeDates,
+  getCalendarDate,
+  resolveRelativeDate,
+} from '../../src/field-types/relative-dates';
+import type { CalendarDate } from '../../src/types';
+
+// A Thursday
+const today: CalendarDate = { year: 2024, month: 3, day: 7 };
+
+describe('resolveRelativeDate', () => {
+  it('should resolve fixed expressions', () => {
+    expect(resolveRelativeDate('Today', today)).toEqual(today);
+    expect(resolveRelativeDate('tomorrow.', today)).toEqual({
+      year: 2024,
+      month: 3,
+      day: 8,
+    });
+    expect(resolveRelativeDate('the day before yesterday', today)).toEqual({
+      year: 2024,
+      month: 3,
+      day: 5,
+    });
+  });
+
+  it('should resolve spans forwards and backwards', () => {
+    expect(resolveRelativeDate('in two weeks', today)).toEqual({
+      year: 2024,
+      month: 3,
+      day: 21,
+    });
+    expect(resolveRelativeDate('30 days from now', today)).toEqual({
+      year: 2024,
+      month: 4,
+      day: 6,
+    });
+    expect(resolveRelativeDate('a year ago', today)).toEqual({
+      year: 2023,
+      month: 3,
+      day: 7,
+    });
+  });
+
+  it('should clamp month steps to the end of shorter months', () => {
+    const endOfJanuary = { year: 2024, month: 1, day: 31 };
+
+    expect(resolveRelativeDate('in a month', endOfJanuary)).toEqual({
+      year: 2024,
+      month: 2,
+      day: 29,
+    });
+    expect(resolveRelativeDate('2 months ago', endOfJanuary)).toEqual({
+      year: 2023,
+      month: 11,
+      day: 30,
+    });
+  });
+
+  it('should resolve weekdays relative to today', () => {
+    expect(resolveRelativeDate('next Tuesday', today)).toEqual({
+      year: 2024,
+      month: 3,
+      day: 12,
+    });
+    expect(resolveRelativeDate('Thursday', today)).toEqual({
+      year: 2024,
+      month: 3,
+      day: 14,
+    });
+    expect(resolveRelativeDate('this Thursday', today)).toEqual(today);
+    expect(resolveRelativeDate('last Friday', today)).toEqual({
+      year: 2024,
+      month: 3,
+      day: 1,
+    });
+  });
+
+  it('should not guess at other text', () => {
+    expect(resolveRelativeDate('two weeks', today)).toBeNull();
+    expect(resolveRelativeDate('in two weeks ago', today)).toBeNull();
+    expect(resolveRelativeDate('next week', today)).toBeNull();
+    expect(resolveRelativeDate('2024-03-05', today)).toBeNull();
+  });
+});
+
+describe('findRelativeDates', () => {
+  it('should resolve relative phrases inside free text', () => {
+    expect(
+      findRelativeDates('Tomorrow works, or next Tuesday at the latest', today)
+    ).toEqual([
+      { year: 2024, month: 3, day: 8 },
+      { year: 2024, month: 3, day: 12 },
+    ]);
+    expect(findRelativeDates('maybe in two weeks?', today)).toEqual([
+      { year: 2024, month: 3, day: 21 },
+    ]);
+    expect(findRelativeDates('room 2, on the second floor', today)).toEqual(
+      []
+    );
+  });
+});
+
+describe('getCalendarDate', () => {
+  it('should read the date in the given timezone', () => {
+    const now = new Date('2024-03-08T02:00:00Z');
+
+    expect(getCalendarDate(now, 'UTC')).toEqual({
+      year: 2024,
+      month: 3,
+      day: 8,
+    });
+    expect(getCalendarDate(now, 'America/New_York')).toEqual(today);
+  });
+});
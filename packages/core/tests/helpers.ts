@@ -0,0 +1,45 @@
+/**
+ * Shared fixtures for tests that run orchestrator steps
+ */
+
+import type { LlmClient, Session, SessionField } from '../src/types';
+import { SessionStatus } from '../src/types';
+
+/**
+ * Creates an active session for the form "form1"
+ *
+ * @param fields - Fields collected so far
+ * @returns Session with no turns
+ */
+export function createSession(fields: SessionField[] = []): Session {
+  return {
+    id: 'session1',
+    formId: 'form1',
+    status: SessionStatus.ACTIVE,
+    turns: [],
+    fields,
+    startedAt: new Date(),
+  };
+}
+
+/**
+ * Creates an LLM client mock that always returns the same response
+ *
+ * @param extractedFields - Extracted fields of the response envelope
+ * @param envelope - Other envelope properties (e.g. declinedFields)
+ * @returns Client whose complete() resolves to the JSON envelope
+ */
+export function clientReturning(
+  extractedFields: object,
+  envelope: object = {}
+): LlmClient {
+  return {
+    complete: async () => ({
+      content: JSON.stringify({
+        botResponse: 'Noted!',
+        extractedFields,
+        ...envelope,
+      }),
+    }),
+  };
+}
@@ -0,0 +1,326 @@
+import { describe, it, expect } from 'vitest';
+import {
+  runLlmStep,
+  buildResponseSchema,
+  buildSystemPrompt,
+  determineNextField,
+} from '../../src/orchestrator';
+import { applyStep } from '../../src/session';
+import { validateField, validateFieldDefinition } from '../../src/validation';
+import type { FormDefinition, FormField, Session } from '../../src/types';
+import { FieldType } from '../../src/types';
+import { clientReturning, createSession } from '../helpers';
+
+const address: FormField = {
+  id: 'address',
+  name: 'address',
+  label: 'Address',
+  type: FieldType.COMPOSITE,
+  required: true,
+  order: 0,
+  subFields: [
+    { name: 'street', label: 'Street', type: FieldType.TEXT, required: true },
+    { name: 'city', label: 'City', type: FieldType.TEXT, required: true },
+    {
+      name: 'postcode',
+      label: 'Postcode',
+      type: FieldType.TEXT,
+      required: true,
+      validation: { pattern: '^\\d{5}$', message: 'Use 5 digits' },
+    },
+    { name: 'phone', label: 'Phone', type: FieldType.PHONE, required: false },
+  ],
+};
+
+const form: FormDefinition = {
+  id: 'form1',
+  name: 'Delivery',
+  fields: [
+    address,
+    {
+      id: 'email',
+      name: 'email',
+      label: 'Email',
+      type: FieldType.EMAIL,
+      required: true,
+      order: 1,
+    },
+  ],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const session = createSession();
+
+const clock = (): Date => new Date('2024-01-01T00:00:00Z');
+
+describe('COMPOSITE fields', () => {
+  it('should validate each given part with its sub-field', () => {
+    expect(validateField(address, { street: '1 Main St' })).toEqual({
+      valid: true,
+    });
+    expect(validateField(address, { postcode: 'ABC' })).toEqual({
+      valid: false,
+      error: 'Postcode: Use 5 digits',
+    });
+    expect(validateField(address, { floor: '2' })).toEqual({
+      valid: false,
+      error: 'Unknown part: floor',
+    });
+    expect(validateField(address, '1 Main St, Springfield')).toEqual({
+      valid: false,
+      error: 'Value must be an object of named parts',
+    });
+    expect(validateField(address, { street: '', city: null })).toEqual({
+      valid: false,
+      error: 'Field is required',
+    });
+  });
+
+  it('should reject misdeclared sub-fields', () => {
+    const bare: FormField = { ...address };
+    delete bare.subFields;
+    const nested: FormField = {
+      ...address,
+      subFields: [{ ...address.subFields![0]!, type: FieldType.COMPOSITE }],
+    };
+    const badRule: FormField = {
+      ...address,
+      subFields: [
+        { ...address.subFields![0]!, validation: { options: ['a'] } },
+      ],
+    };
+
+    expect(validateFieldDefinition(bare).valid).toBe(false);
+    expect(validateFieldDefinition({ ...address, subFields: [] }).valid).toBe(
+      false
+    );
+    expect(
+      validateFieldDefinition({ ...form.fields[1]!, subFields: [] })
+    ).toEqual({
+      valid: false,
+      error: 'COMPOSITE fields, and only they, must declare subFields',
+    });
+    expect(validateFieldDefinition(nested)).toEqual({
+      valid: false,
+      error: 'Sub-fields cannot be COMPOSITE',
+    });
+    expect(validateFieldDefinition(badRule)).toEqual({
+      valid: false,
+      error:
+        "Street: Validation rule 'options' is not supported for TEXT fields",
+    });
+  });
+
+  it('should describe the parts in the prompt and schema', () => {
+    const schema = buildResponseSchema(form);
+    const parts = schema.properties?.extractedFields?.properties?.address;
+
+    expect(buildSystemPrompt(form, session)).toContain(
+      'object with parts street (TEXT), city (TEXT), postcode (TEXT),' +
+        ' phone (PHONE, optional)'
+    );
+    expect(parts?.type).toBe('object');
+    expect(Object.keys(parts?.properties ?? {})).toEqual([
+      'street',
+      'city',
+      'postcode',
+      'phone',
+    ]);
+    expect(parts?.properties?.postcode?.description).toBe('Postcode');
+    expect(parts?.required).toBeUndefined();
+  });
+
+  it('should collect parts over several turns', async () => {
+    const first = await runLlmStep(
+      form,
+      session,
+      '1 Main St, Springfield',
+      clientReturning({ address: { street: '1 Main St', city: 'Springfield' } })
+    );
+    const partial = applyStep(
+      form,
+      session,
+      '1 Main St, Springfield',
+      first,
+      clock
+    );
+
+    expect(first.isComplete).toBe(false);
+    expect(first.nextField).toBe('address');
+    expect(determineNextField(form, partial)).toBe('address');
+    expect(buildSystemPrompt(form, partial)).toContain(
+      '- address: { street: 1 Main St; city: Springfield }' +
+        ' (still missing: postcode)'
+    );
+
+    const second = await runLlmStep(
+      form,
+      partial,
+      'Postcode 12345, phone (555) 123-4567',
+      clientReturning({
+        address: { postcode: '12345', phone: '(555) 123-4567' },
+      })
+    );
+    const full = applyStep(
+      form,
+      partial,
+      'Postcode 12345, phone (555) 123-4567',
+      second,
+      clock
+    );
+
+    expect(second.extractedFields.address).toEqual({
+      street: '1 Main St',
+      city: 'Springfield',
+      postcode: '12345',
+      phone: '+15551234567',
+    });
+    expect(second.correctedFields).toEqual([]);
+    expect(full.fields).toHaveLength(1);
+    expect(full.fields[0]?.revisions).toBeUndefined();
+    expect(determineNextField(form, full)).toBe('email');
+  });
+
+  it('should treat a changed part as a correction', async () => {
+    const answered: Session = {
+      ...session,
+      fields: [
+        {
+          fieldId: 'address',
+          value: { street: '1 Main St', city: 'Springfield' },
+          collectedAt: new Date(),
+        },
+      ],
+    };
+    const result = await runLlmStep(
+      form,
+      answered,
+      'Sorry, the city is Shelbyville',
+      clientReturning({ address: { city: 'Shelbyville' } })
+    );
+    const next = applyStep(
+      form,
+      answered,
+      'Sorry, the city is Shelbyville',
+      result,
+      clock
+    );
+
+    expect(result.correctedFields).toEqual(['address']);
+    expect(next.fields[0]?.value).toEqual({
+      street: '1 Main St',
+      city: 'Shelbyville',
+    });
+    expect(next.fields[0]?.revisions).toHaveLength(1);
+  });
+
+  it('should reject invalid parts', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      'Postcode ABC',
+      clientReturning({ address: { postcode: 'ABC' } })
+    );
+
+    expect(result.extractedFields).toEqual({});
+    expect(result.rejectedFields).toEqual([
+      {
+        fieldName: 'address.postcode',
+        value: 'ABC',
+        error: 'Postcode: Use 5 digits',
+      },
+    ]);
+
+    const mixed = await runLlmStep(
+      form,
+      session,
+      '1 Main St, Springfield, postcode ABC, phone 12',
+      clientReturning({
+        address: {
+          street: '1 Main St',
+          city: 'Springfield',
+          postcode: 'ABC',
+          phone: '12',
+        },
+      })
+    );
+
+    expect(mixed.extractedFields).toEqual({
+      address: { street: '1 Main St', city: 'Springfield' },
+    });
+    expect(mixed.rawFields).toEqual({
+      address: { street: '1 Main St', city: 'Springfield' },
+    });
+    expect(mixed.rejectedFields).toEqual([
+      {
+        fieldName: 'address.postcode',
+        value: 'ABC',
+        error: 'Postcode: Use 5 digits',
+      },
+      {
+        fieldName: 'address.phone',
+        value: '12',
+        error: 'Phone: Invalid phone format',
+      },
+    ]);
+  });
+
+  it('should keep the collected part when its correction is invalid', async () => {
+    const answered: Session = {
+      ...session,
+      fields: [
+        {
+          fieldId: 'address',
+          value: { street: '1 Main St', postcode: '12345' },
+          collectedAt: new Date(),
+        },
+      ],
+    };
+    const result = await runLlmStep(
+      form,
+      answered,
+      'City is Springfield, postcode ABC',
+      clientReturning({ address: { city: 'Springfield', postcode: 'ABC' } })
+    );
+
+    expect(result.extractedFields.address).toEqual({
+      street: '1 Main St',
+      postcode: '12345',
+      city: 'Springfield',
+    });
+    expect(result.rejectedFields.map((r) => r.fieldName)).toEqual([
+      'address.postcode',
+    ]);
+  });
+
+  it('should ground each part with its sub-field type', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      '1 Main St, call 555.123.4567',
+      clientReturning({
+        address: {
+          street: '1 Main St',
+          city: 'Springfield',
+          phone: '+15551234567',
+        },
+      }),
+      { grounding: { defaultAction: 'flag' } }
+    );
+
+    expect(result.ungroundedFields).toEqual(['address']);
+
+    const grounded = await runLlmStep(
+      form,
+      session,
+      '1 Main St, call 555.123.4567',
+      clientReturning({
+        address: { street: '1 Main St', phone: '+15551234567' },
+      }),
+      { grounding: { defaultAction: 'flag' } }
+    );
+
+    expect(grounded.ungroundedFields).toEqual([]);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+  runLlmStep,
+  buildSystemPrompt,
+  determineNextField,
+} from '../../src/orchestrator';
+import { validateField } from '../../src/validation';
+import type { FormDefinition, Session } from '../../src/types';
+import { FieldType } from '../../src/types';
+import { clientReturning, createSession } from '../helpers';
+
+const form: FormDefinition = {
+  id: 'form1',
+  name: 'Signup',
+  fields: [
+    {
+      id: 'role',
+      name: 'role',
+      label: 'Account Type',
+      type: FieldType.ENUM,
+      required: true,
+      order: 0,
+      validation: { options: ['Business', 'Personal'] },
+    },
+    {
+      id: 'companySize',
+      name: 'companySize',
+      label: 'Company Size',
+      type: FieldType.NUMBER,
+      required: true,
+      order: 1,
+      visibleWhen: { op: 'equals', field: 'role', value: 'Business' },
+    },
+    {
+      id: 'email',
+      name: 'email',
+      label: 'Email',
+      type: FieldType.EMAIL,
+      required: true,
+      order: 2,
+    },
+  ],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+function sessionWith(values: Record<string, string | number>): Session {
+  return createSession(
+    Object.entries(values).map(([fieldId, value]) => ({
+      fieldId,
+      value,
+      collectedAt: new Date(),
+    }))
+  );
+}
+
+describe('Conditional fields', () => {
+  it('should ask for a conditional field once its condition holds', () => {
+    expect(determineNextField(form, sessionWith({ role: 'Business' }))).toBe(
+      'companySize'
+    );
+  });
+
+  it('should skip a hidden required field', () => {
+    expect(determineNextField(form, sessionWith({ role: 'Personal' }))).toBe(
+      'email'
+    );
+  });
+
+  it('should not let a hidden required field block completion', async () => {
+    const result = await runLlmStep(
+      form,
+      sessionWith({ role: 'Personal' }),
+      'me@example.com',
+      clientReturning({ email: 'me@example.com' })
+    );
+
+    expect(result.isComplete).toBe(true);
+    expect(result.nextField).toBeUndefined();
+  });
+
+  it('should leave hidden fields out of the system prompt', () => {
+    const hidden = buildSystemPrompt(form, sessionWith({ role: 'Personal' }));
+    const shown = buildSystemPrompt(form, sessionWith({ role: 'Business' }));
+
+    expect(hidden).not.toContain('companySize');
+    expect(shown).toContain('companySize');
+  });
+
+  it('should accept a conditional value unlocked in the same message', async () => {
+    const result = await runLlmStep(
+      form,
+      sessionWith({}),
+      'Business account, 50 people',
+      clientReturning({ role: 'Business', companySize: 50 })
+    );
+
+    expect(result.extractedFields).toEqual({ role: 'Business', companySize: 50 });
+    expect(result.nextField).toBe('email');
+  });
+
+  it('should reject a value for a hidden field', async () => {
+    const result = await runLlmStep(
+      form,
+      sessionWith({ role: 'Personal' }),
+      'We are 50 people',
+      clientReturning({ companySize: 50 })
+    );
+
+    expect(result.extractedFields).toEqual({});
+    expect(result.rejectedFields).toEqual([
+      {
+        fieldName: 'companySize',
+        value: 50,
+        error: 'Field does not apply to the answers given so far',
+      },
+    ]);
+  });
+});
+
+describe('validateField - visibility', () => {
+  const companySize = form.fields[1]!;
+
+  it('should treat a hidden required field as optional', () => {
+    expect(validateField(companySize, null, { values: { role: 'Personal' } })).toEqual({
+      valid: true,
+    });
+  });
+
+  it('should validate normally when the field is visible', () => {
+    expect(validateField(companySize, null, { values: { role: 'Business' } })).toEqual({
+      valid: false,
+      error: 'Field is required',
+    });
+  });
+
+  it('should ignore visibility when no values are given', () => {
+    expect(validateField(companySize, 10)).toEqual({ valid: true });
+  });
+});
@@ -0,0 +1,314 @@
+import { describe, it, expect } from 'vitest';
+import {
+  runLlmStep,
+  buildResponseSchema,
+  buildSystemPrompt,
+} from '../../src/orchestrator';
+import { applyStep } from '../../src/session';
+import { validateField, validateFieldDefinition } from '../../src/validation';
+import type {
+  FormDefinition,
+  FormField,
+  LlmClient,
+  Session,
+  SessionField,
+} from '../../src/types';
+import { FieldType, SessionStatus } from '../../src/types';
+import { clientReturning, createSession } from '../helpers';
+
+const hasCar: FormField = {
+  id: 'hasCar',
+  name: 'hasCar',
+  label: 'Owns a car',
+  type: FieldType.BOOLEAN,
+  required: true,
+  order: 0,
+};
+
+const privacy: FormField = {
+  id: 'privacy',
+  name: 'privacy',
+  label: 'Privacy policy',
+  type: FieldType.CONSENT,
+  required: true,
+  order: 2,
+  consent: {
+    text: 'I agree to the privacy policy at https://example.com/privacy',
+    version: '2024-03',
+  },
+};
+
+const form: FormDefinition = {
+  id: 'form1',
+  name: 'Insurance quote',
+  fields: [
+    hasCar,
+    {
+      id: 'carModel',
+      name: 'carModel',
+      label: 'Car model',
+      type: FieldType.TEXT,
+      required: true,
+      order: 1,
+      visibleWhen: { op: 'equals', field: 'hasCar', value: true },
+    },
+    privacy,
+    {
+      id: 'marketing',
+      name: 'marketing',
+      label: 'Marketing emails',
+      type: FieldType.CONSENT,
+      required: false,
+      order: 3,
+      consent: { text: 'Send me offers by email' },
+    },
+  ],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const session = createSession();
+
+const clock = (): Date => new Date('2024-01-01T00:00:00Z');
+
+describe('BOOLEAN fields', () => {
+  it('should normalize natural yes/no answers', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      'Yep',
+      clientReturning({ hasCar: 'yep' })
+    );
+
+    expect(result.extractedFields).toEqual({ hasCar: true });
+    expect(result.nextField).toBe('carModel');
+  });
+
+  it('should reject answers that are not yes or no', () => {
+    expect(validateField(hasCar, false)).toEqual({ valid: true });
+    expect(validateField(hasCar, 'maybe')).toEqual({
+      valid: false,
+      error: 'Value must be yes or no',
+    });
+  });
+
+  it('should skip fields conditioned on the other answer', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      'No, I take the bus',
+      clientReturning({ hasCar: false })
+    );
+
+    expect(result.extractedFields).toEqual({ hasCar: false });
+    expect(result.nextField).toBe('privacy');
+  });
+
+  it('should be answered locally from a bare yes or no', async () => {
+    const llm: LlmClient = {
+      complete: async () => {
+        throw new Error('LLM should not be called');
+      },
+    };
+    const result = await runLlmStep(form, session, 'Nope.', llm, {
+      localExtraction: {},
+    });
+
+    expect(result.extractedLocally).toBe(true);
+    expect(result.extractedFields).toEqual({ hasCar: false });
+  });
+});
+
+describe('CONSENT fields', () => {
+  const asked: Session = {
+    ...session,
+    fields: [{ fieldId: 'hasCar', value: false, collectedAt: new Date() }],
+  };
+
+  it('should show the terms in the prompt and schema', () => {
+    const prompt = buildSystemPrompt(form, session);
+    const schema = buildResponseSchema(form);
+
+    expect(prompt).toContain(
+      '"I agree to the privacy policy at https://example.com/privacy"' +
+        ' (version 2024-03)'
+    );
+    expect(
+      schema.properties?.extractedFields?.properties?.privacy?.type
+    ).toBe('boolean');
+  });
+
+  it('should require consent terms on CONSENT fields only', () => {
+    const noTerms: FormField = { ...privacy };
+    delete noTerms.consent;
+
+    expect(validateFieldDefinition(noTerms)).toEqual({
+      valid: false,
+      error: 'CONSENT fields must declare consent terms',
+    });
+    expect(
+      validateFieldDefinition({ ...hasCar, consent: privacy.consent })
+    ).toEqual({
+      valid: false,
+      error: 'Only CONSENT fields can declare consent terms',
+    });
+  });
+
+  it('should accept and record explicit consent', async () => {
+    const message = 'Yes, I agree to the privacy policy';
+    const result = await runLlmStep(
+      form,
+      asked,
+      message,
+      clientReturning({ privacy: true })
+    );
+    const next = applyStep(form, asked, message, result, clock);
+
+    expect(result.extractedFields).toEqual({ privacy: true });
+    expect(next.fields.find((f) => f.fieldId === 'privacy')?.consent).toEqual(
+      {
+        utterance: message,
+        clause: 'I agree to the privacy policy',
+        terms: privacy.consent,
+        givenAt: clock(),
+      }
+    );
+  });
+
+  it('should reject consent the message does not give explicitly', async () => {
+    const result = await runLlmStep(
+      form,
+      asked,
+      'sure, whatever',
+      clientReturning({ privacy: true })
+    );
+
+    expect(result.extractedFields).toEqual({});
+    expect(result.rejectedFields).toEqual([
+      {
+        fieldName: 'privacy',
+        value: true,
+        error: 'Consent must be given explicitly',
+      },
+    ]);
+    expect(result.isComplete).toBe(false);
+  });
+
+  it('should accept consent given in a clause of its own', async () => {
+    const result = await runLlmStep(
+      form,
+      asked,
+      "Yes, I agree. I'll read the details later",
+      clientReturning({ privacy: true })
+    );
+
+    expect(result.extractedFields).toEqual({ privacy: true });
+    expect(result.rejectedFields).toEqual([]);
+  });
+
+  it('should tell two consents answered in one message apart', async () => {
+    const result = await runLlmStep(
+      form,
+      asked,
+      'Yes to the privacy policy, no to marketing',
+      clientReturning({ privacy: true, marketing: false })
+    );
+
+    expect(result.extractedFields).toEqual({ privacy: true });
+    expect(result.rejectedFields).toEqual([
+      {
+        fieldName: 'marketing',
+        value: false,
+        error: 'Consent was not given',
+      },
+    ]);
+  });
+
+  it('should reject consent the LLM reads into a refused field', async () => {
+    const message = 'Yes to the privacy policy, no to marketing';
+    const result = await runLlmStep(
+      form,
+      asked,
+      message,
+      clientReturning({ privacy: true, marketing: true })
+    );
+    const next = applyStep(form, asked, message, result, clock);
+
+    expect(result.extractedFields).toEqual({ privacy: true });
+    expect(result.rejectedFields).toEqual([
+      {
+        fieldName: 'marketing',
+        value: true,
+        error: 'Consent must be given explicitly',
+      },
+    ]);
+    expect(
+      next.fields.find((f) => f.fieldId === 'privacy')?.consent?.clause
+    ).toBe('Yes to the privacy policy');
+  });
+
+  it('should accept a bare yes for a single consent only', async () => {
+    const result = await runLlmStep(
+      form,
+      asked,
+      'Yes',
+      clientReturning({ privacy: true, marketing: true })
+    );
+
+    expect(result.extractedFields).toEqual({ privacy: true });
+    expect(result.rejectedFields.map((r) => r.fieldName)).toEqual([
+      'marketing',
+    ]);
+  });
+
+  it('should reject a refusal', async () => {
+    const result = await runLlmStep(
+      form,
+      asked,
+      'No, I do not agree',
+      clientReturning({ privacy: 'no' })
+    );
+
+    expect(result.rejectedFields).toEqual([
+      { fieldName: 'privacy', value: 'no', error: 'Consent was not given' },
+    ]);
+  });
+
+  it('should keep the record until the consent is withdrawn', async () => {
+    const message = 'I agree to the privacy policy and marketing emails';
+    const agreed = applyStep(
+      form,
+      asked,
+      message,
+      await runLlmStep(
+        form,
+        asked,
+        message,
+        clientReturning({ privacy: true, marketing: true })
+      ),
+      clock
+    );
+    const withdrawn = applyStep(
+      form,
+      agreed,
+      'Actually, skip the marketing emails',
+      await runLlmStep(
+        form,
+        agreed,
+        'Actually, skip the marketing emails',
+        clientReturning({}, { declinedFields: ['marketing'] })
+      ),
+      clock
+    );
+    const byId = (id: string): SessionField | undefined =>
+      withdrawn.fields.find((f) => f.fieldId === id);
+
+    expect(
+      agreed.fields.find((f) => f.fieldId === 'marketing')?.consent?.clause
+    ).toBe(message);
+    expect(byId('privacy')?.consent?.utterance).toBe(message);
+    expect(byId('marketing')?.declined).toBe(true);
+    expect(byId('marketing')?.consent).toBeUndefined();
+    expect(withdrawn.status).toBe(SessionStatus.COMPLETED);
+  });
+});
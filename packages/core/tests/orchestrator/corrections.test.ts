@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { runLlmStep, buildSystemPrompt } from '../../src/orchestrator';
+import type { FormDefinition, Session } from '../../src/types';
+import { FieldType } from '../../src/types';
+import { clientReturning, createSession } from '../helpers';
+
+const form: FormDefinition = {
+  id: 'form1',
+  name: 'Contact Form',
+  fields: [
+    {
+      id: 'name',
+      name: 'name',
+      label: 'Full Name',
+      type: FieldType.TEXT,
+      required: true,
+      order: 0,
+    },
+    {
+      id: 'email',
+      name: 'email',
+      label: 'Email',
+      type: FieldType.EMAIL,
+      required: true,
+      order: 1,
+    },
+  ],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const session = createSession([
+  { fieldId: 'name', value: 'John Doe', collectedAt: new Date() },
+  { fieldId: 'email', value: 'old@example.com', collectedAt: new Date() },
+]);
+
+describe('Field corrections', () => {
+  it('should tell the model that collected values may be corrected', () => {
+    const prompt = buildSystemPrompt(form, session);
+
+    expect(prompt).toContain('correct a value that was already collected');
+  });
+
+  it('should report a changed value as corrected', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      'Actually, my email is new@example.com',
+      clientReturning({ email: 'new@example.com' })
+    );
+
+    expect(result.extractedFields).toEqual({ email: 'new@example.com' });
+    expect(result.correctedFields).toEqual(['email']);
+    expect(result.isComplete).toBe(true);
+  });
+
+  it('should not report a repeated identical value as corrected', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      'My name is John Doe',
+      clientReturning({ name: 'John Doe' })
+    );
+
+    expect(result.correctedFields).toEqual([]);
+  });
+
+  it('should not report first-time values as corrected', async () => {
+    const fresh: Session = { ...session, fields: [] };
+
+    const result = await runLlmStep(
+      form,
+      fresh,
+      'I am John Doe',
+      clientReturning({ name: 'John Doe' })
+    );
+
+    expect(result.correctedFields).toEqual([]);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import {
+  runLlmStep,
+  buildResponseSchema,
+  buildSystemPrompt,
+} from '../../src/orchestrator';
+import { validateField } from '../../src/validation';
+import type { FormDefinition, FormField, Session } from '../../src/types';
+import { FieldType } from '../../src/types';
+import { clientReturning, createSession } from '../helpers';
+
+const pickup: FormField = {
+  id: 'pickup',
+  name: 'pickup',
+  label: 'Pickup',
+  type: FieldType.DATETIME,
+  required: true,
+  order: 0,
+};
+
+const form: FormDefinition = {
+  id: 'form1',
+  name: 'Car rental',
+  timeZone: 'America/New_York',
+  fields: [
+    pickup,
+    {
+      id: 'dropoff',
+      name: 'dropoff',
+      label: 'Drop-off',
+      type: FieldType.DATETIME,
+      required: true,
+      order: 1,
+    },
+    {
+      id: 'callTime',
+      name: 'callTime',
+      label: 'Best time to call',
+      type: FieldType.TIME,
+      required: false,
+      order: 2,
+    },
+  ],
+  rules: [{ op: 'after', field: 'dropoff', reference: 'pickup' }],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const session = createSession();
+
+describe('DATETIME and TIME fields', () => {
+  it('should store wall-clock answers with the offset of the timezone', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      'Pick up March 5th 2024 at 3:30pm, call me at 9am',
+      clientReturning({ pickup: '2024-03-05T15:30', callTime: '9am' })
+    );
+
+    expect(result.extractedFields).toEqual({
+      pickup: '2024-03-05T15:30:00-05:00[America/New_York]',
+      callTime: '09:00',
+    });
+  });
+
+  it('should prefer the session timezone to the form one', async () => {
+    const result = await runLlmStep(
+      form,
+      { ...session, timeZone: 'Europe/Paris' },
+      'March 5th at 15:30',
+      clientReturning({ pickup: '2024-03-05T15:30' })
+    );
+
+    expect(result.extractedFields.pickup).toBe(
+      '2024-03-05T15:30:00+01:00[Europe/Paris]'
+    );
+  });
+
+  it('should show instants given with an offset in the timezone', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      '20:30 UTC',
+      clientReturning({ pickup: '2024-03-05T20:30:00Z' })
+    );
+
+    expect(result.extractedFields.pickup).toBe(
+      '2024-03-05T15:30:00-05:00[America/New_York]'
+    );
+  });
+
+  it('should reject times skipped by a clock change', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      'March 10th at 2:30am',
+      clientReturning({ pickup: '2024-03-10T02:30' })
+    );
+
+    expect(result.extractedFields).toEqual({});
+    expect(result.rejectedFields).toEqual([
+      {
+        fieldName: 'pickup',
+        value: '2024-03-10T02:30',
+        error: 'Time does not exist in America/New_York (clock change)',
+      },
+    ]);
+    expect(validateField(pickup, 'soon')).toEqual({
+      valid: false,
+      error: 'Invalid date and time',
+    });
+  });
+
+  it('should refuse an unknown timezone', async () => {
+    const step = runLlmStep(
+      form,
+      { ...session, timeZone: 'Mars/Olympus' },
+      'March 5th at 3pm',
+      clientReturning({ pickup: '2024-03-05T15:00' })
+    );
+
+    await expect(step).rejects.toMatchObject({
+      errorCode: 'INVALID_TIMEZONE',
+      statusCode: 400,
+    });
+  });
+
+  it('should name the timezone in the prompt and schema', () => {
+    const schema = buildResponseSchema(form);
+
+    expect(buildSystemPrompt(form, session)).toContain(
+      "User's timezone: America/New_York"
+    );
+    expect(
+      schema.properties?.extractedFields?.properties?.pickup?.description
+    ).toBe(
+      'Pickup - local date and time as YYYY-MM-DDTHH:MM, without a timezone' +
+        ' offset, or a relative one ("tomorrow at 3pm") as the user wrote it'
+    );
+  });
+
+  it('should compare date and times by instant in form rules', async () => {
+    const answered: Session = {
+      ...session,
+      fields: [
+        {
+          fieldId: 'pickup',
+          value: '2024-03-05T15:30:00-05:00[America/New_York]',
+          collectedAt: new Date(),
+        },
+      ],
+    };
+    const result = await runLlmStep(
+      form,
+      answered,
+      'Drop off 2024-03-05 at 21:00 Paris time',
+      clientReturning({ dropoff: '2024-03-05T21:00:00+01:00[Europe/Paris]' })
+    );
+
+    expect(result.ruleViolations).toEqual([
+      {
+        fields: ['dropoff', 'pickup'],
+        error: 'dropoff must be after pickup',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import {
+  runLlmStep,
+  buildSystemPrompt,
+  determineNextField,
+} from '../../src/orchestrator';
+import type { FormDefinition, Session } from '../../src/types';
+import { FieldType } from '../../src/types';
+import { clientReturning, createSession } from '../helpers';
+
+const form: FormDefinition = {
+  id: 'form1',
+  name: 'Contact Form',
+  fields: [
+    {
+      id: 'name',
+      name: 'name',
+      label: 'Full Name',
+      type: FieldType.TEXT,
+      required: true,
+      order: 0,
+    },
+    {
+      id: 'phone',
+      name: 'phone',
+      label: 'Phone',
+      type: FieldType.PHONE,
+      required: false,
+      order: 1,
+    },
+    {
+      id: 'company',
+      name: 'company',
+      label: 'Company',
+      type: FieldType.TEXT,
+      required: false,
+      order: 2,
+    },
+  ],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const session = createSession([
+  { fieldId: 'name', value: 'John Doe', collectedAt: new Date() },
+]);
+
+describe('Declined optional fields', () => {
+  it('should report an optional field the model detected as declined', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      "I'd rather not share my phone",
+      clientReturning({}, { declinedFields: ['phone'] })
+    );
+
+    expect(result.declinedFields).toEqual(['phone']);
+    expect(result.rejectedFields).toEqual([]);
+    expect(result.isComplete).toBe(true);
+  });
+
+  it('should default to no declines when the model omits the key', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      'Hello',
+      clientReturning({})
+    );
+
+    expect(result.declinedFields).toEqual([]);
+  });
+
+  it('should reject a decline of a required field', async () => {
+    const fresh: Session = { ...session, fields: [] };
+
+    const result = await runLlmStep(
+      form,
+      fresh,
+      'Skip the name',
+      clientReturning({}, { declinedFields: ['name'] })
+    );
+
+    expect(result.declinedFields).toEqual([]);
+    expect(result.rejectedFields).toEqual([
+      {
+        fieldName: 'name',
+        value: null,
+        error: 'Field is required and cannot be declined',
+      },
+    ]);
+    expect(result.nextField).toBe('name');
+  });
+
+  it('should prefer an extracted value over a decline for the same field', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      '555-123-4567, no wait, skip it... actually keep it',
+      clientReturning({ phone: '555-123-4567' }, { declinedFields: ['phone'] })
+    );
+
+    expect(result.extractedFields).toEqual({ phone: '+15551234567' });
+    expect(result.declinedFields).toEqual([]);
+  });
+
+  it('should throw ClientError for a malformed declinedFields value', async () => {
+    await expect(
+      runLlmStep(
+        form,
+        session,
+        'skip',
+        clientReturning({}, { declinedFields: 'phone' })
+      )
+    ).rejects.toThrow('declinedFields must be an array');
+  });
+
+  it('should throw ClientError for an unknown declined field', async () => {
+    await expect(
+      runLlmStep(
+        form,
+        session,
+        'skip',
+        clientReturning({}, { declinedFields: ['fax'] })
+      )
+    ).rejects.toThrow('Field not in form definition');
+  });
+
+  it('should list declined fields separately in the system prompt', () => {
+    const declined: Session = {
+      ...session,
+      fields: [
+        ...session.fields,
+        {
+          fieldId: 'phone',
+          value: null,
+          collectedAt: new Date(),
+          declined: true,
+        },
+      ],
+    };
+
+    const prompt = buildSystemPrompt(form, declined);
+
+    expect(prompt).toContain('Declined by user (do not ask again):\n- phone');
+    expect(prompt).not.toContain('- phone: null');
+    expect(prompt).toContain('declinedFields');
+  });
+});
+
+describe('determineNextField - optional fields', () => {
+  it('should skip optional fields by default', () => {
+    expect(determineNextField(form, session)).toBeNull();
+  });
+
+  it('should return unresolved optional fields when requested', () => {
+    expect(
+      determineNextField(form, session, { includeOptional: true })
+    ).toBe('phone');
+  });
+
+  it('should treat declined optional fields as resolved', () => {
+    const declined: Session = {
+      ...session,
+      fields: [
+        ...session.fields,
+        {
+          fieldId: 'phone',
+          value: null,
+          collectedAt: new Date(),
+          declined: true,
+        },
+      ],
+    };
+
+    expect(
+      determineNextField(form, declined, { includeOptional: true })
+    ).toBe('company');
+  });
+
+  it('should not treat a declined required field as resolved', () => {
+    const declined: Session = {
+      ...session,
+      fields: [
+        { fieldId: 'name', value: null, collectedAt: new Date(), declined: true },
+      ],
+    };
+
+    expect(determineNextField(form, declined)).toBe('name');
+  });
+});
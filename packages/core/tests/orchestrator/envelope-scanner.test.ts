@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  INITIAL_SCAN_STATE,
+  scanEnvelopeChunk,
+} from '../../src/orchestrator/envelope-scanner';
+
+function scanAll(chunks: string[]): string[] {
+  let state = INITIAL_SCAN_STATE;
+  const deltas: string[] = [];
+  for (const chunk of chunks) {
+    const scanned = scanEnvelopeChunk(state, chunk);
+    state = scanned.state;
+    deltas.push(scanned.delta);
+  }
+  return deltas;
+}
+
+describe('scanEnvelopeChunk', () => {
+  it('should yield botResponse text as it arrives', () => {
+    const deltas = scanAll([
+      '{"botRes',
+      'ponse": "Hello ',
+      'there!", "extractedFields": {}}',
+    ]);
+
+    expect(deltas).toEqual(['', 'Hello ', 'there!']);
+  });
+
+  it('should ignore other properties and nested strings', () => {
+    const content = JSON.stringify({
+      extractedFields: { botResponse: 'nested', name: 'John' },
+      declinedFields: ['botResponse'],
+      botResponse: 'Thanks John',
+    });
+
+    expect(scanAll([content]).join('')).toBe('Thanks John');
+  });
+
+  it('should decode escapes split across chunks', () => {
+    const deltas = scanAll([
+      '{"botResponse": "Line 1\\',
+      'nSay \\"hi\\" \\u00',
+      'e9t\\u00e9 \\ud83d\\ude00"}',
+    ]);
+
+    expect(deltas.join('')).toBe('Line 1\nSay "hi" été 😀');
+  });
+
+  it('should not mutate the state passed in', () => {
+    const state = { ...INITIAL_SCAN_STATE };
+
+    scanEnvelopeChunk(state, '{"botResponse": "Hi');
+
+    expect(state).toEqual(INITIAL_SCAN_STATE);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { runLlmStep } from '../../src/orchestrator';
+import type { FormDefinition } from '../../src/types';
+import { FieldType } from '../../src/types';
+import { clientReturning, createSession } from '../helpers';
+
+const form: FormDefinition = {
+  id: 'form1',
+  name: 'Booking',
+  fields: [
+    {
+      id: 'startDate',
+      name: 'startDate',
+      label: 'Check-in',
+      type: FieldType.DATE,
+      required: true,
+      order: 0,
+    },
+    {
+      id: 'endDate',
+      name: 'endDate',
+      label: 'Check-out',
+      type: FieldType.DATE,
+      required: true,
+      order: 1,
+    },
+    {
+      id: 'phone',
+      name: 'phone',
+      label: 'Phone',
+      type: FieldType.PHONE,
+      required: false,
+      order: 2,
+    },
+    {
+      id: 'email',
+      name: 'email',
+      label: 'Email',
+      type: FieldType.EMAIL,
+      required: false,
+      order: 3,
+    },
+  ],
+  rules: [
+    { op: 'after', field: 'endDate', reference: 'startDate' },
+    { op: 'atLeastOne', fields: ['phone', 'email'] },
+  ],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const session = createSession();
+
+describe('runLlmStep - form rules', () => {
+  it('should report a conflict between fields and block completion', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      'From March 5th to March 1st, email me at a@example.com',
+      clientReturning({
+        startDate: '2025-03-05',
+        endDate: '2025-03-01',
+        email: 'a@example.com',
+      })
+    );
+
+    expect(result.ruleViolations).toEqual([
+      {
+        fields: ['endDate', 'startDate'],
+        error: 'endDate must be after startDate',
+      },
+    ]);
+    expect(result.isComplete).toBe(false);
+    expect(result.nextField).toBe('endDate');
+  });
+
+  it('should require one of several optional fields before completing', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      'March 1st to March 5th',
+      clientReturning({ startDate: '2025-03-01', endDate: '2025-03-05' })
+    );
+
+    expect(result.ruleViolations).toEqual([
+      {
+        fields: ['phone', 'email'],
+        error: 'At least one of phone, email is required',
+      },
+    ]);
+    expect(result.isComplete).toBe(false);
+    expect(result.nextField).toBe('phone');
+  });
+
+  it('should complete once every rule holds', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      'March 1st to March 5th, a@example.com',
+      clientReturning({
+        startDate: '2025-03-01',
+        endDate: '2025-03-05',
+        email: 'a@example.com',
+      })
+    );
+
+    expect(result.ruleViolations).toEqual([]);
+    expect(result.isComplete).toBe(true);
+  });
+});
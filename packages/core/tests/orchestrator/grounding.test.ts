@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { runLlmStep } from '../../src/orchestrator';
+import type { FormDefinition, Session } from '../../src/types';
+import { FieldType, TurnRole } from '../../src/types';
+import { clientReturning, createSession } from '../helpers';
+
+const form: FormDefinition = {
+  id: 'form1',
+  name: 'Contact Form',
+  fields: [
+    {
+      id: 'name',
+      name: 'name',
+      label: 'Full Name',
+      type: FieldType.TEXT,
+      required: true,
+      order: 0,
+    },
+    {
+      id: 'email',
+      name: 'email',
+      label: 'Email',
+      type: FieldType.EMAIL,
+      required: true,
+      order: 1,
+    },
+    {
+      id: 'phone',
+      name: 'phone',
+      label: 'Phone',
+      type: FieldType.PHONE,
+      required: false,
+      order: 2,
+    },
+  ],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const session = createSession();
+
+const extracted = {
+  name: 'John Doe',
+  email: 'john.doe@example.com',
+  phone: '(555) 123-4567',
+};
+const message = 'I am John Doe, call me on 555 123 4567';
+
+describe('Grounding check', () => {
+  it('should not check values without a policy', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      message,
+      clientReturning(extracted)
+    );
+
+    expect(Object.keys(result.extractedFields)).toHaveLength(3);
+    expect(result.ungroundedFields).toEqual([]);
+  });
+
+  it('should flag values the user never wrote by default', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      message,
+      clientReturning(extracted),
+      { grounding: {} }
+    );
+
+    expect(result.extractedFields).toMatchObject({
+      email: 'john.doe@example.com',
+      phone: '+15551234567',
+    });
+    expect(result.ungroundedFields).toEqual(['email']);
+  });
+
+  it('should reject ungrounded values per field type', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      message,
+      clientReturning(extracted),
+      { grounding: { actions: { EMAIL: 'reject' } } }
+    );
+
+    expect(result.extractedFields).not.toHaveProperty('email');
+    expect(result.rawFields).not.toHaveProperty('email');
+    expect(result.rejectedFields).toEqual([
+      {
+        fieldName: 'email',
+        value: 'john.doe@example.com',
+        error: 'Value does not appear in the conversation',
+      },
+    ]);
+    expect(result.ungroundedFields).toEqual([]);
+  });
+
+  it('should skip field types whose action is accept', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      message,
+      clientReturning(extracted),
+      { grounding: { defaultAction: 'reject', actions: { EMAIL: 'accept' } } }
+    );
+
+    expect(Object.keys(result.extractedFields)).toHaveLength(3);
+    expect(result.rejectedFields).toEqual([]);
+  });
+
+  it('should search recent user turns', async () => {
+    const withHistory: Session = {
+      ...session,
+      turns: [
+        {
+          role: TurnRole.USER,
+          content: 'It is john.doe@example.com',
+          timestamp: new Date(),
+        },
+        {
+          role: TurnRole.ASSISTANT,
+          content: 'And your name?',
+          timestamp: new Date(),
+        },
+      ],
+    };
+    const client = clientReturning({ email: 'john.doe@example.com' });
+
+    const recent = await runLlmStep(form, withHistory, 'John', client, {
+      grounding: {},
+    });
+    const currentOnly = await runLlmStep(form, withHistory, 'John', client, {
+      grounding: { recentTurns: 0 },
+    });
+
+    expect(recent.ungroundedFields).toEqual([]);
+    expect(currentOnly.ungroundedFields).toEqual(['email']);
+  });
+
+  it('should reject an invalid recentTurns setting', async () => {
+    await expect(
+      runLlmStep(form, session, message, clientReturning(extracted), {
+        grounding: { recentTurns: -1 },
+      })
+    ).rejects.toMatchObject({ errorCode: 'INVALID_OPTIONS' });
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import {
+  budgetStepMessages,
+  buildHistorySummary,
+  estimateTokens,
+} from '../../src/orchestrator/history-budget';
+import { runLlmStep } from '../../src/orchestrator';
+import type {
+  FormDefinition,
+  LlmClient,
+  LlmMessage,
+  Session,
+  SessionTurn,
+} from '../../src/types';
+import { FieldType, SessionStatus, TurnRole } from '../../src/types';
+
+const form: FormDefinition = {
+  id: 'form1',
+  name: 'Contact',
+  fields: [
+    {
+      id: 'name',
+      name: 'name',
+      label: 'Name',
+      type: FieldType.TEXT,
+      required: true,
+      order: 0,
+    },
+    {
+      id: 'phone',
+      name: 'phone',
+      label: 'Phone',
+      type: FieldType.PHONE,
+      required: false,
+      order: 1,
+    },
+    {
+      id: 'email',
+      name: 'email',
+      label: 'Email',
+      type: FieldType.EMAIL,
+      required: true,
+      order: 2,
+    },
+  ],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+// Each turn is 60 characters: 60 tokens with a 1 char = 1 token estimator
+function turn(role: TurnRole, content: string): SessionTurn {
+  return { role, content: content.padEnd(60, '.'), timestamp: new Date() };
+}
+const session: Session = {
+  id: 'session1',
+  formId: 'form1',
+  status: SessionStatus.ACTIVE,
+  turns: [
+    turn(TurnRole.USER, 'I am John.'),
+    turn(TurnRole.ASSISTANT, 'Your phone'),
+    turn(TurnRole.USER, 'Skip that.'),
+    turn(TurnRole.ASSISTANT, 'Your email'),
+  ],
+  fields: [
+    { fieldId: 'name', value: 'John', collectedAt: new Date(), turnIndex: 0 },
+    {
+      fieldId: 'phone',
+      value: null,
+      collectedAt: new Date(),
+      turnIndex: 2,
+      declined: true,
+    },
+  ],
+  startedAt: new Date(),
+};
+
+const byChar = (text: string): number => text.length;
+
+describe('estimateTokens', () => {
+  it('should estimate about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+});
+
+describe('buildHistorySummary', () => {
+  it('should list fields collected and declined in the omitted turns', () => {
+    expect(buildHistorySummary(form, session, 3)).toBe(
+      'Earlier conversation (3 older messages omitted to save space):\n' +
+        '- The user provided: Name: John\n' +
+        '- The user declined: Phone'
+    );
+  });
+
+  it('should leave out fields from turns that are still sent', () => {
+    expect(buildHistorySummary(form, session, 2)).toBe(
+      'Earlier conversation (2 older messages omitted to save space):\n' +
+        '- The user provided: Name: John'
+    );
+  });
+});
+
+describe('budgetStepMessages', () => {
+  const contents = (messages: LlmMessage[]): string[] =>
+    messages.map((m) => m.content);
+
+  it('should send the full history when it fits', () => {
+    const messages = budgetStepMessages(form, session, 'SYS', 'hi', {
+      maxTokens: 3 + 2 + 4 * 60,
+      estimateTokens: byChar,
+    });
+
+    expect(messages).toHaveLength(6);
+    expect(messages[0]).toEqual({ role: 'system', content: 'SYS' });
+  });
+
+  it('should keep recent turns and summarize older ones', () => {
+    const summary = buildHistorySummary(form, session, 2);
+    const maxTokens = 3 + 2 + summary.length + 2 + 2 * 60;
+
+    const messages = budgetStepMessages(form, session, 'SYS', 'hi', {
+      maxTokens,
+      estimateTokens: byChar,
+    });
+
+    expect(contents(messages)).toEqual([
+      `SYS\n\n${summary}`,
+      session.turns[2]?.content,
+      session.turns[3]?.content,
+      'hi',
+    ]);
+  });
+
+  it('should never drop the system prompt or the user message', () => {
+    const messages = budgetStepMessages(form, session, 'SYS', 'hello', {
+      maxTokens: 1,
+      estimateTokens: byChar,
+    });
+
+    expect(messages).toEqual([
+      { role: 'system', content: 'SYS' },
+      { role: 'user', content: 'hello' },
+    ]);
+  });
+
+  it('should reject an invalid budget', () => {
+    expect(() =>
+      budgetStepMessages(form, session, 'SYS', 'hi', { maxTokens: 0 })
+    ).toThrow('History budget maxTokens must be a positive integer');
+  });
+});
+
+describe('runLlmStep - history budget', () => {
+  it('should send budgeted messages to the LLM', async () => {
+    let sent: LlmMessage[] = [];
+    const llmClient: LlmClient = {
+      complete: async (messages) => {
+        sent = messages;
+        return {
+          content: JSON.stringify({ botResponse: 'Ok', extractedFields: {} }),
+        };
+      },
+    };
+
+    await runLlmStep(form, session, 'a@b.com', llmClient, {
+      history: { maxTokens: 1, estimateTokens: byChar },
+    });
+
+    expect(sent.map((m) => m.role)).toEqual(['system', 'user']);
+    expect(sent[1]?.content).toBe('a@b.com');
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { runLlmStep, runLlmStepStream } from '../../src/orchestrator';
+import { applyStep } from '../../src/session';
+import { accumulateUsage } from '../../src/usage';
+import type {
+  FormDefinition,
+  LlmClient,
+  LlmStepStreamEvent,
+  Session,
+} from '../../src/types';
+import { FieldType, SessionStatus, TurnRole } from '../../src/types';
+
+const form: FormDefinition = {
+  id: 'form1',
+  name: 'Contact',
+  fields: [
+    {
+      id: 'name',
+      name: 'name',
+      label: 'Name',
+      type: FieldType.TEXT,
+      required: true,
+      order: 0,
+    },
+  ],
+  limits: { maxTurns: 2 },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const twoTurns: Session = {
+  id: 'session1',
+  formId: 'form1',
+  status: SessionStatus.ACTIVE,
+  turns: [
+    { role: TurnRole.USER, content: 'Hi', timestamp: new Date() },
+    { role: TurnRole.ASSISTANT, content: 'Your name?', timestamp: new Date() },
+    { role: TurnRole.USER, content: 'Why?', timestamp: new Date() },
+    { role: TurnRole.ASSISTANT, content: 'Your name?', timestamp: new Date() },
+  ],
+  fields: [],
+  startedAt: new Date(),
+};
+
+function countingClient(): { llmClient: LlmClient; calls: () => number } {
+  let calls = 0;
+  return {
+    llmClient: {
+      complete: async () => {
+        calls++;
+        return {
+          content: JSON.stringify({ botResponse: 'Ok', extractedFields: {} }),
+        };
+      },
+    },
+    calls: () => calls,
+  };
+}
+
+describe('runLlmStep - session limits', () => {
+  it('should stop calling the LLM once maxTurns is reached', async () => {
+    const { llmClient, calls } = countingClient();
+
+    const result = await runLlmStep(form, twoTurns, 'Hmm', llmClient);
+
+    expect(calls()).toBe(0);
+    expect(result.limitExceeded).toBe('maxTurns');
+    expect(result.botResponse).toContain("We've reached the limit");
+    expect(result.extractedFields).toEqual({});
+    expect(result.isComplete).toBe(false);
+    expect(result.attempts).toBe(0);
+  });
+
+  it('should call the LLM while within limits', async () => {
+    const { llmClient, calls } = countingClient();
+    const oneTurn = { ...twoTurns, turns: twoTurns.turns.slice(0, 2) };
+
+    const result = await runLlmStep(form, oneTurn, 'Hmm', llmClient);
+
+    expect(calls()).toBe(1);
+    expect(result.limitExceeded).toBeUndefined();
+  });
+
+  it('should let step options override form limits', async () => {
+    const { llmClient, calls } = countingClient();
+
+    await runLlmStep(form, twoTurns, 'Hmm', llmClient, {
+      limits: { maxTurns: 10 },
+    });
+
+    expect(calls()).toBe(1);
+  });
+
+  it('should enforce token and cost caps from session usage', async () => {
+    const { llmClient } = countingClient();
+    const usage = accumulateUsage(undefined, [
+      { model: 'mini', promptTokens: 900, completionTokens: 100, totalTokens: 1000 },
+    ]);
+    const session = { ...twoTurns, turns: [], usage };
+    const prices = { mini: { promptPerMillion: 10, completionPerMillion: 10 } };
+
+    const byTokens = await runLlmStep(form, session, 'Hi', llmClient, {
+      limits: { maxTurns: undefined, maxTokens: 1000 },
+    });
+    const byCost = await runLlmStep(form, session, 'Hi', llmClient, {
+      limits: { maxTurns: undefined, maxCost: 0.01, prices, closingMessage: 'Bye' },
+    });
+
+    expect(byTokens.limitExceeded).toBe('maxTokens');
+    expect(byCost.limitExceeded).toBe('maxCost');
+    expect(byCost.botResponse).toBe('Bye');
+  });
+
+  it('should reject misconfigured limits', async () => {
+    const { llmClient } = countingClient();
+
+    await expect(
+      runLlmStep(form, twoTurns, 'Hi', llmClient, { limits: { maxCost: 1 } })
+    ).rejects.toThrow('Session limit maxCost requires a price table');
+    await expect(
+      runLlmStep(form, twoTurns, 'Hi', llmClient, { limits: { maxTurns: -1 } })
+    ).rejects.toThrow('Session limits must be non-negative numbers');
+  });
+
+  it('should stream the closing message without calling the LLM', async () => {
+    const { llmClient, calls } = countingClient();
+    const events: LlmStepStreamEvent[] = [];
+
+    for await (const event of runLlmStepStream(form, twoTurns, 'Hmm', llmClient)) {
+      events.push(event);
+    }
+
+    expect(calls()).toBe(0);
+    expect(events.map((e) => e.op)).toEqual(['delta', 'result']);
+  });
+
+  it('should move the session to LIMIT_EXCEEDED in applyStep', async () => {
+    const { llmClient } = countingClient();
+    const result = await runLlmStep(form, twoTurns, 'Hmm', llmClient);
+
+    const next = applyStep(form, twoTurns, 'Hmm', result, () => new Date());
+
+    expect(next.status).toBe(SessionStatus.LIMIT_EXCEEDED);
+    expect(next.limitExceeded).toBe('maxTurns');
+    expect(next.turns.at(-1)?.content).toBe(result.botResponse);
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, it, expect } from 'vitest';
+import { runLlmStep, runLlmStepStream } from '../../src/orchestrator';
+import type {
+  FormDefinition,
+  LlmClient,
+  LlmStepStreamEvent,
+  Session,
+} from '../../src/types';
+import { FieldType, SessionStatus } from '../../src/types';
+
+const form: FormDefinition = {
+  id: 'form1',
+  name: 'Contact',
+  fields: [
+    {
+      id: 'name',
+      name: 'name',
+      label: 'Name',
+      type: FieldType.TEXT,
+      required: true,
+      order: 0,
+    },
+    {
+      id: 'email',
+      name: 'email',
+      label: 'email address',
+      type: FieldType.EMAIL,
+      required: true,
+      order: 1,
+    },
+    {
+      id: 'age',
+      name: 'age',
+      label: 'age',
+      type: FieldType.NUMBER,
+      required: true,
+      order: 2,
+      validation: { min: 18 },
+    },
+  ],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const askingEmail: Session = {
+  id: 'session1',
+  formId: 'form1',
+  status: SessionStatus.ACTIVE,
+  turns: [],
+  fields: [{ fieldId: 'name', value: 'John', collectedAt: new Date() }],
+  startedAt: new Date(),
+};
+
+const dateForm: FormDefinition = {
+  ...form,
+  fields: [
+    {
+      id: 'birthDate',
+      name: 'birthDate',
+      label: 'birth date',
+      type: FieldType.DATE,
+      required: true,
+      order: 0,
+    },
+  ],
+};
+
+const askingDate: Session = { ...askingEmail, fields: [] };
+
+function countingClient(calls: { count: number }): LlmClient {
+  return {
+    complete: async () => {
+      calls.count++;
+      return {
+        content: JSON.stringify({
+          botResponse: 'From LLM',
+          extractedFields: {},
+        }),
+      };
+    },
+  };
+}
+
+describe('Local extraction', () => {
+  it('should call the LLM without a policy', async () => {
+    const calls = { count: 0 };
+    await runLlmStep(
+      form,
+      askingEmail,
+      'john@example.com',
+      countingClient(calls)
+    );
+
+    expect(calls.count).toBe(1);
+  });
+
+  it('should accept a bare value for the asked field locally', async () => {
+    const calls = { count: 0 };
+    const result = await runLlmStep(
+      form,
+      askingEmail,
+      '  john@example.com. ',
+      countingClient(calls),
+      { localExtraction: {} }
+    );
+
+    expect(calls.count).toBe(0);
+    expect(result).toMatchObject({
+      botResponse: 'Thanks! What is your age?',
+      extractedFields: { email: 'john@example.com' },
+      nextField: 'age',
+      extractedLocally: true,
+      attempts: 0,
+      usage: [],
+    });
+  });
+
+  it('should use the completion message when the form is done', async () => {
+    const session: Session = {
+      ...askingEmail,
+      fields: [
+        ...askingEmail.fields,
+        { fieldId: 'email', value: 'j@x.com', collectedAt: new Date() },
+      ],
+    };
+    const result = await runLlmStep(
+      form,
+      session,
+      '42',
+      countingClient({ count: 0 }),
+      { localExtraction: { completionMessage: 'All set!' } }
+    );
+
+    expect(result.extractedFields).toEqual({ age: 42 });
+    expect(result.isComplete).toBe(true);
+    expect(result.botResponse).toBe('All set!');
+  });
+
+  it.each([
+    ['a sentence around the value', 'my email is john@example.com'],
+    ['an invalid value', 'john@'],
+  ])('should fall back to the LLM for %s', async (_case, message) => {
+    const calls = { count: 0 };
+    const result = await runLlmStep(
+      form,
+      askingEmail,
+      message,
+      countingClient(calls),
+      { localExtraction: {} }
+    );
+
+    expect(calls.count).toBe(1);
+    expect(result.extractedLocally).toBeUndefined();
+  });
+
+  it('should not extract free text or excluded types locally', async () => {
+    const calls = { count: 0 };
+    const fresh: Session = { ...askingEmail, fields: [] };
+    await runLlmStep(form, fresh, 'John', countingClient(calls), {
+      localExtraction: {},
+    });
+    await runLlmStep(form, askingEmail, 'j@x.com', countingClient(calls), {
+      localExtraction: { fieldTypes: [FieldType.PHONE] },
+    });
+
+    expect(calls.count).toBe(2);
+  });
+
+  it.each(['Room 2', 'not sure, maybe 12', '5', 'March 3'])(
+    'should not read %s as a date locally',
+    async (reply) => {
+      const calls = { count: 0 };
+      const result = await runLlmStep(
+        dateForm,
+        askingDate,
+        reply,
+        countingClient(calls),
+        { localExtraction: {} }
+      );
+
+      expect(calls.count).toBe(1);
+      expect(result.extractedLocally).toBeUndefined();
+    }
+  );
+
+  it('should extract a readable date locally', async () => {
+    const result = await runLlmStep(
+      dateForm,
+      askingDate,
+      'March 3rd, 2024',
+      countingClient({ count: 0 }),
+      { localExtraction: {} }
+    );
+
+    expect(result.extractedLocally).toBe(true);
+    expect(result.extractedFields).toEqual({
+      birthDate: new Date('2024-03-03'),
+    });
+  });
+
+  it('should fill the label into a custom template', async () => {
+    const result = await runLlmStep(
+      form,
+      askingEmail,
+      'john@example.com',
+      countingClient({ count: 0 }),
+      { localExtraction: { followUpTemplate: 'Great. Your {label}, please?' } }
+    );
+
+    expect(result.botResponse).toBe('Great. Your age, please?');
+  });
+
+  it('should stream a local reply as a single delta', async () => {
+    const events: LlmStepStreamEvent[] = [];
+    for await (const event of runLlmStepStream(
+      form,
+      askingEmail,
+      'john@example.com',
+      countingClient({ count: 0 }),
+      { localExtraction: {} }
+    )) {
+      events.push(event);
+    }
+
+    expect(events).toMatchObject([
+      { op: 'delta', text: 'Thanks! What is your age?' },
+      { op: 'result', result: { extractedLocally: true } },
+    ]);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import {
+  runLlmStep,
+  buildFieldContext,
+  buildResponseSchema,
+  buildSystemPrompt,
+} from '../../src/orchestrator';
+import { applyStep, buildSubmission } from '../../src/session';
+import { validateField } from '../../src/validation';
+import type { FormDefinition, FormField, Session } from '../../src/types';
+import { FieldType } from '../../src/types';
+import { clientReturning, createSession } from '../helpers';
+
+const interests: FormField = {
+  id: 'interests',
+  name: 'interests',
+  label: 'Products of interest',
+  type: FieldType.MULTI_SELECT,
+  required: true,
+  order: 0,
+  validation: { options: ['Laptops', 'Phones', 'Tablets'], min: 1, max: 2 },
+};
+
+const form: FormDefinition = {
+  id: 'form1',
+  name: 'Survey',
+  fields: [
+    interests,
+    {
+      id: 'phoneModel',
+      name: 'phoneModel',
+      label: 'Current phone',
+      type: FieldType.TEXT,
+      required: false,
+      order: 1,
+      visibleWhen: { op: 'equals', field: 'interests', value: 'Phones' },
+    },
+  ],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const session = createSession();
+
+const clock = (): Date => new Date('2024-01-01T00:00:00Z');
+
+describe('MULTI_SELECT fields', () => {
+  it('should validate selections against options and counts', () => {
+    expect(validateField(interests, ['Laptops'])).toEqual({ valid: true });
+    expect(validateField(interests, [])).toEqual({
+      valid: false,
+      error: 'Field is required',
+    });
+    expect(validateField(interests, 'Laptops')).toEqual({
+      valid: false,
+      error: 'Value must be a list of options',
+    });
+    expect(
+      validateField(interests, ['Laptops', 'Phones', 'Tablets'])
+    ).toEqual({ valid: false, error: 'Select at most 2 options' });
+  });
+
+  it('should reject lists for single-value types', () => {
+    const name: FormField = { ...interests, type: FieldType.TEXT };
+    delete name.validation;
+
+    expect(validateField(name, ['a', 'b'])).toEqual({
+      valid: false,
+      error: 'Value must be a single value',
+    });
+  });
+
+  it('should describe the options in the prompt and schema', () => {
+    const prompt = buildSystemPrompt(form, session);
+    const schema = buildResponseSchema(form);
+
+    expect(prompt).toContain(
+      'list of one or more of: Laptops, Phones, Tablets'
+    );
+    expect(schema.properties?.extractedFields?.properties?.interests).toEqual(
+      expect.objectContaining({
+        type: 'array',
+        items: { type: 'string', enum: ['Laptops', 'Phones', 'Tablets'] },
+        uniqueItems: true,
+        minItems: 1,
+        maxItems: 2,
+      })
+    );
+  });
+
+  it('should accept a list of options from the LLM', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      'Laptops and phones',
+      clientReturning({ interests: ['laptops', 'Phones'] })
+    );
+
+    expect(result.extractedFields).toEqual({
+      interests: ['Laptops', 'Phones'],
+    });
+    expect(result.rawFields).toEqual({ interests: ['laptops', 'Phones'] });
+    expect(result.isComplete).toBe(true);
+  });
+
+  it('should reject selections outside the options', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      'Laptops and TVs',
+      clientReturning({ interests: ['Laptops', 'TVs'] })
+    );
+
+    expect(result.extractedFields).toEqual({});
+    expect(result.rejectedFields[0]?.fieldName).toBe('interests');
+  });
+
+  it('should store, show and submit the selection', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      'Phones, tablets',
+      clientReturning({ interests: 'Phones, tablets' })
+    );
+    const next = applyStep(form, session, 'Phones, tablets', result, clock);
+
+    expect(next.fields[0]?.value).toEqual(['Phones', 'Tablets']);
+    expect(buildFieldContext(next)).toContain(
+      '- interests: ["Phones","Tablets"]'
+    );
+    expect(buildSystemPrompt(form, next)).toContain(
+      '- interests: Phones, Tablets'
+    );
+    expect(buildSubmission(form, next).values).toEqual({
+      interests: ['Phones', 'Tablets'],
+    });
+  });
+
+  it('should show fields conditioned on any selected option', () => {
+    const answered: Session = {
+      ...session,
+      fields: [
+        {
+          fieldId: 'interests',
+          value: ['Laptops', 'Phones'],
+          collectedAt: new Date(),
+        },
+      ],
+    };
+
+    expect(buildSystemPrompt(form, answered)).toContain('Current phone');
+    expect(buildSystemPrompt(form, session)).not.toContain('Current phone');
+  });
+
+  it('should not treat a reordered selection as a correction', async () => {
+    const answered: Session = {
+      ...session,
+      fields: [
+        {
+          fieldId: 'interests',
+          value: ['Laptops', 'Phones'],
+          collectedAt: new Date(),
+        },
+      ],
+    };
+    const result = await runLlmStep(
+      form,
+      answered,
+      'Phones and laptops',
+      clientReturning({ interests: ['Phones', 'Laptops'] })
+    );
+
+    expect(result.correctedFields).toEqual([]);
+  });
+});
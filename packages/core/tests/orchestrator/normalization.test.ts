@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { runLlmStep } from '../../src/orchestrator';
+import type { FormDefinition } from '../../src/types';
+import { FieldType } from '../../src/types';
+import { clientReturning, createSession } from '../helpers';
+
+const form: FormDefinition = {
+  id: 'form1',
+  name: 'Signup',
+  fields: [
+    {
+      id: 'phone',
+      name: 'phone',
+      label: 'Phone',
+      type: FieldType.PHONE,
+      required: true,
+      order: 0,
+    },
+    {
+      id: 'birthDate',
+      name: 'birthDate',
+      label: 'Birth date',
+      type: FieldType.DATE,
+      required: true,
+      order: 1,
+    },
+    {
+      id: 'age',
+      name: 'age',
+      label: 'Age',
+      type: FieldType.NUMBER,
+      required: true,
+      validation: { min: 18 },
+      order: 2,
+    },
+    {
+      id: 'newsletter',
+      name: 'newsletter',
+      label: 'Newsletter',
+      type: FieldType.ENUM,
+      required: true,
+      validation: { options: ['Yes', 'No'] },
+      order: 3,
+    },
+  ],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const session = createSession();
+
+describe('runLlmStep - normalization', () => {
+  it('should normalize values and report the raw ones', async () => {
+    const raw = {
+      phone: '(555) 123-4567',
+      birthDate: 'March 3rd, 1990',
+      age: '42',
+      newsletter: 'yes',
+    };
+
+    const result = await runLlmStep(form, session, 'Hi', clientReturning(raw));
+
+    expect(result.extractedFields).toEqual({
+      phone: '+15551234567',
+      birthDate: new Date('1990-03-03'),
+      age: 42,
+      newsletter: 'Yes',
+    });
+    expect(result.rawFields).toEqual(raw);
+    expect(result.isComplete).toBe(true);
+  });
+
+  it('should validate the normalized value', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      'I am 15',
+      clientReturning({ age: '15' })
+    );
+
+    expect(result.rejectedFields).toEqual([
+      { fieldName: 'age', value: '15', error: 'Number must be at least 18' },
+    ]);
+    expect(result.rawFields).toEqual({});
+  });
+
+  it('should reject values the normalizer cannot understand', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      'I am forty',
+      clientReturning({ age: 'forty' })
+    );
+
+    expect(result.rejectedFields).toEqual([
+      { fieldName: 'age', value: 'forty', error: 'Invalid number' },
+    ]);
+  });
+
+  it.each(['March 3', 'Room 2', '3/4/2024', 'sometime soon 7'])(
+    'should reject the unreadable date %s',
+    async (value) => {
+      const result = await runLlmStep(
+        form,
+        session,
+        value,
+        clientReturning({ birthDate: value })
+      );
+
+      expect(result.extractedFields).toEqual({});
+      expect(result.rejectedFields).toEqual([
+        { fieldName: 'birthDate', value, error: 'Invalid date format' },
+      ]);
+    }
+  );
+});
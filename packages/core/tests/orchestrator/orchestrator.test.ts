@@ -492,14 +492,23 @@ describe('runLlmStep - Integration Test (User Story 1)', () => {
       }),
     };
 
-    await expect(
-      runLlmStep(
-        form,
-        session,
-        'My email is not-an-email',
-        mockLlmClient
-      )
-    ).rejects.toThrow('Invalid email format');
+    const result = await runLlmStep(
+      form,
+      session,
+      'My email is not-an-email',
+      mockLlmClient
+    );
+
+    expect(result.extractedFields).toEqual({});
+    expect(result.rejectedFields).toEqual([
+      {
+        fieldName: 'email',
+        value: 'not-an-email',
+        error: 'Invalid email format',
+      },
+    ]);
+    expect(result.isComplete).toBe(false);
+    expect(result.nextField).toBe('email');
   });
 
   it('should reject number out of range', async () => {
@@ -539,9 +548,17 @@ describe('runLlmStep - Integration Test (User Story 1)', () => {
       }),
     };
 
-    await expect(
-      runLlmStep(form, session, 'I am 15 years old', mockLlmClient)
-    ).rejects.toThrow('Number must be at least 18');
+    const result = await runLlmStep(
+      form,
+      session,
+      'I am 15 years old',
+      mockLlmClient
+    );
+
+    expect(result.rejectedFields).toEqual([
+      { fieldName: 'age', value: 15, error: 'Number must be at least 18' },
+    ]);
+    expect(result.isComplete).toBe(false);
   });
 
   it('should reject invalid enum value', async () => {
@@ -581,9 +598,79 @@ describe('runLlmStep - Integration Test (User Story 1)', () => {
       }),
     };
 
-    await expect(
-      runLlmStep(form, session, 'Size XXL please', mockLlmClient)
-    ).rejects.toThrow('Value must be one of: S, M, L, XL');
+    const result = await runLlmStep(
+      form,
+      session,
+      'Size XXL please',
+      mockLlmClient
+    );
+
+    expect(result.rejectedFields).toEqual([
+      {
+        fieldName: 'size',
+        value: 'XXL',
+        error: 'Value must be one of: S, M, L, XL',
+      },
+    ]);
+  });
+
+  it('should keep valid fields when another field in the same message is rejected', async () => {
+    const form: FormDefinition = {
+      id: 'form1',
+      name: 'Contact Form',
+      fields: [
+        {
+          id: 'name',
+          name: 'name',
+          label: 'Full Name',
+          type: FieldType.TEXT,
+          required: true,
+          order: 0,
+        },
+        {
+          id: 'email',
+          name: 'email',
+          label: 'Email',
+          type: FieldType.EMAIL,
+          required: true,
+          order: 1,
+        },
+      ],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const session: Session = {
+      id: 'session1',
+      formId: 'form1',
+      status: SessionStatus.ACTIVE,
+      turns: [],
+      fields: [],
+      startedAt: new Date(),
+    };
+
+    const mockLlmClient: LlmClient = {
+      complete: async () => ({
+        content: JSON.stringify({
+          botResponse: 'I got your name, but that email looks wrong.',
+          extractedFields: { name: 'John Doe', email: 'john@' },
+        }),
+      }),
+    };
+
+    const result = await runLlmStep(
+      form,
+      session,
+      "I'm John Doe, john@",
+      mockLlmClient
+    );
+
+    expect(result.extractedFields).toEqual({ name: 'John Doe' });
+    expect(result.rejectedFields).toEqual([
+      { fieldName: 'email', value: 'john@', error: 'Invalid email format' },
+    ]);
+    expect(result.isComplete).toBe(false);
+    expect(result.nextField).toBe('email');
   });
 
   it('should include conversation history in LLM messages', async () => {
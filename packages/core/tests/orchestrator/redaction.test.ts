@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { runLlmStep, runLlmStepStream } from '../../src/orchestrator';
+import type {
+  FormDefinition,
+  LlmClient,
+  LlmMessage,
+  LlmStepStreamEvent,
+  Session,
+} from '../../src/types';
+import { FieldType, SessionStatus } from '../../src/types';
+
+const form: FormDefinition = {
+  id: 'form1',
+  name: 'Contact',
+  fields: [
+    {
+      id: 'email',
+      name: 'email',
+      label: 'Email',
+      type: FieldType.EMAIL,
+      required: true,
+      order: 0,
+    },
+  ],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const session: Session = {
+  id: 'session1',
+  formId: 'form1',
+  status: SessionStatus.ACTIVE,
+  turns: [],
+  fields: [],
+  startedAt: new Date(),
+};
+
+const content = JSON.stringify({
+  botResponse: 'I will write to [EMAIL_1].',
+  extractedFields: { email: '[EMAIL_1]' },
+});
+
+function recordingClient(sent: LlmMessage[][]): LlmClient {
+  return {
+    complete: async (messages) => {
+      sent.push(messages);
+      return { content };
+    },
+    async *stream(messages) {
+      sent.push(messages);
+      for (let i = 0; i < content.length; i += 5) {
+        yield { content: content.slice(i, i + 5) };
+      }
+    },
+  };
+}
+
+describe('runLlmStep with redaction', () => {
+  it('should send placeholders and restore the original values', async () => {
+    const sent: LlmMessage[][] = [];
+    const result = await runLlmStep(
+      form,
+      session,
+      'It is john@example.com',
+      recordingClient(sent),
+      { redaction: {} }
+    );
+
+    expect(JSON.stringify(sent)).not.toContain('john@example.com');
+    expect(sent[0]?.at(-1)?.content).toBe('It is [EMAIL_1]');
+    expect(result.botResponse).toBe('I will write to john@example.com.');
+    expect(result.extractedFields).toEqual({ email: 'john@example.com' });
+  });
+
+  it('should send values as they are without a policy', async () => {
+    const sent: LlmMessage[][] = [];
+    await runLlmStep(
+      form,
+      session,
+      'It is john@example.com',
+      recordingClient(sent)
+    );
+
+    expect(sent[0]?.at(-1)?.content).toBe('It is john@example.com');
+  });
+});
+
+describe('runLlmStepStream with redaction', () => {
+  it('should restore placeholders split across deltas', async () => {
+    const sent: LlmMessage[][] = [];
+    const events: LlmStepStreamEvent[] = [];
+    for await (const event of runLlmStepStream(
+      form,
+      session,
+      'It is john@example.com',
+      recordingClient(sent),
+      { redaction: {} }
+    )) {
+      events.push(event);
+    }
+
+    const text = events
+      .map((e) => (e.op === 'delta' ? e.text : ''))
+      .join('');
+    expect(text).toBe('I will write to john@example.com.');
+    expect(events.at(-1)).toMatchObject({
+      op: 'result',
+      result: { extractedFields: { email: 'john@example.com' } },
+    });
+  });
+});
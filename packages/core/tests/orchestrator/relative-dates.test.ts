@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { runLlmStep, buildSystemPrompt } from '../../src/orchestrator';
+import type { FormDefinition, LlmClient } from '../../src/types';
+import { FieldType } from '../../src/types';
+import { clientReturning, createSession } from '../helpers';
+
+const form: FormDefinition = {
+  id: 'form1',
+  name: 'Appointment',
+  timeZone: 'America/New_York',
+  fields: [
+    {
+      id: 'day',
+      name: 'day',
+      label: 'Day',
+      type: FieldType.DATE,
+      required: true,
+      order: 0,
+    },
+    {
+      id: 'slot',
+      name: 'slot',
+      label: 'Slot',
+      type: FieldType.DATETIME,
+      required: false,
+      order: 1,
+    },
+  ],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const session = createSession();
+
+// Thursday evening in New York, already Friday in UTC
+const clock = (): Date => new Date('2024-03-08T02:00:00Z');
+
+describe('relative dates', () => {
+  it("should give the LLM today's date in the user's timezone", () => {
+    expect(buildSystemPrompt(form, session, { clock })).toContain(
+      'Today: Thursday, March 7, 2024 (2024-03-07)'
+    );
+    expect(
+      buildSystemPrompt(form, session, { clock, locale: 'fr-FR' })
+    ).toContain('Today: jeudi 7 mars 2024 (2024-03-07)');
+  });
+
+  it('should refuse an invalid locale', () => {
+    let error: unknown;
+    try {
+      buildSystemPrompt(form, session, { clock, locale: 'not a locale' });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toMatchObject({
+      errorCode: 'INVALID_LOCALE',
+      statusCode: 400,
+    });
+  });
+
+  it('should resolve relative answers against the reference clock', async () => {
+    const result = await runLlmStep(
+      form,
+      session,
+      'Next Tuesday, or tomorrow at 3pm',
+      clientReturning({ day: 'next Tuesday', slot: 'tomorrow at 3pm' }),
+      { clock }
+    );
+
+    expect(result.extractedFields).toEqual({
+      day: new Date('2024-03-12T00:00:00Z'),
+      slot: '2024-03-08T15:00:00-05:00[America/New_York]',
+    });
+    expect(result.rawFields).toEqual({
+      day: 'next Tuesday',
+      slot: 'tomorrow at 3pm',
+    });
+  });
+
+  it('should ground dates resolved from relative phrases', async () => {
+    const grounding = { defaultAction: 'reject' as const };
+    const accepted = await runLlmStep(
+      form,
+      session,
+      'tomorrow works',
+      clientReturning({ day: '2024-03-08' }),
+      { clock, grounding }
+    );
+    const rejected = await runLlmStep(
+      form,
+      session,
+      'tomorrow works',
+      clientReturning({ day: '2024-03-09' }),
+      { clock, grounding }
+    );
+
+    expect(accepted.extractedFields).toEqual({
+      day: new Date('2024-03-08T00:00:00Z'),
+    });
+    expect(accepted.rejectedFields).toEqual([]);
+    expect(rejected.extractedFields).toEqual({});
+    expect(rejected.rejectedFields).toEqual([
+      {
+        fieldName: 'day',
+        value: '2024-03-09',
+        error: 'Value does not appear in the conversation',
+      },
+    ]);
+  });
+
+  it('should resolve relative answers extracted locally', async () => {
+    const llm: LlmClient = {
+      complete: async () => {
+        throw new Error('LLM should not be called');
+      },
+    };
+    const result = await runLlmStep(form, session, 'in two weeks', llm, {
+      clock,
+      localExtraction: {},
+    });
+
+    expect(result.extractedLocally).toBe(true);
+    expect(result.extractedFields).toEqual({
+      day: new Date('2024-03-21T00:00:00Z'),
+    });
+  });
+});
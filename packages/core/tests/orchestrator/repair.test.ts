@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { runLlmStep } from '../../src/orchestrator';
+import type {
+  FormDefinition,
+  Session,
+  LlmClient,
+  LlmMessage,
+} from '../../src/types';
+import { ClientError, FieldType, SessionStatus } from '../../src/types';
+
+const form: FormDefinition = {
+  id: 'form1',
+  name: 'Contact Form',
+  fields: [
+    {
+      id: 'name',
+      name: 'name',
+      label: 'Full Name',
+      type: FieldType.TEXT,
+      required: true,
+      order: 0,
+    },
+    {
+      id: 'email',
+      name: 'email',
+      label: 'Email',
+      type: FieldType.EMAIL,
+      required: true,
+      order: 1,
+    },
+  ],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const session: Session = {
+  id: 'session1',
+  formId: 'form1',
+  status: SessionStatus.ACTIVE,
+  turns: [],
+  fields: [],
+  startedAt: new Date(),
+};
+
+/**
+ * Returns scripted responses in order and records every call
+ */
+function scriptedClient(responses: string[]): {
+  client: LlmClient;
+  calls: LlmMessage[][];
+} {
+  const calls: LlmMessage[][] = [];
+  const client: LlmClient = {
+    complete: async (messages) => {
+      calls.push(messages);
+      return { content: responses[calls.length - 1] ?? '' };
+    },
+  };
+  return { client, calls };
+}
+
+const validResponse = JSON.stringify({
+  botResponse: 'Thanks John! What is your email?',
+  extractedFields: { name: 'John Doe' },
+});
+
+describe('runLlmStep - repair policy', () => {
+  it('should report a single attempt when the first response is valid', async () => {
+    const { client, calls } = scriptedClient([validResponse]);
+
+    const result = await runLlmStep(form, session, 'I am John Doe', client, {
+      repair: { maxAttempts: 3 },
+    });
+
+    expect(result.attempts).toBe(1);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('should retry after invalid JSON and feed the error back to the LLM', async () => {
+    const { client, calls } = scriptedClient(['not json', validResponse]);
+
+    const result = await runLlmStep(form, session, 'I am John Doe', client, {
+      repair: { maxAttempts: 2 },
+    });
+
+    expect(result.attempts).toBe(2);
+    expect(result.extractedFields).toEqual({ name: 'John Doe' });
+
+    const retryMessages = calls[1]!;
+    expect(retryMessages).toHaveLength(calls[0]!.length + 2);
+    expect(retryMessages.at(-2)).toEqual({
+      role: 'assistant',
+      content: 'not json',
+    });
+    expect(retryMessages.at(-1)?.role).toBe('user');
+    expect(retryMessages.at(-1)?.content).toContain('LLM returned invalid JSON');
+  });
+
+  it('should name the offending field when retrying after an unknown field', async () => {
+    const unknownField = JSON.stringify({
+      botResponse: 'Ok',
+      extractedFields: { nickname: 'JD' },
+    });
+    const { client, calls } = scriptedClient([unknownField, validResponse]);
+
+    const result = await runLlmStep(form, session, 'I am John Doe', client, {
+      repair: { maxAttempts: 2 },
+    });
+
+    expect(result.attempts).toBe(2);
+    expect(calls[1]!.at(-1)?.content).toContain('field: nickname');
+  });
+
+  it('should throw only after every attempt has failed', async () => {
+    const { client, calls } = scriptedClient(['bad', 'still bad', 'nope']);
+
+    const error = await runLlmStep(form, session, 'Hi', client, {
+      repair: { maxAttempts: 3 },
+    }).catch((e: unknown) => e);
+
+    expect(calls).toHaveLength(3);
+    expect(error).toBeInstanceOf(ClientError);
+    expect((error as ClientError).errorCode).toBe('INVALID_LLM_RESPONSE');
+    expect((error as ClientError).context?.attempts).toBe(3);
+  });
+
+  it('should not retry without a repair policy', async () => {
+    const { client, calls } = scriptedClient(['bad', validResponse]);
+
+    await expect(runLlmStep(form, session, 'Hi', client)).rejects.toThrow(
+      'LLM returned invalid JSON'
+    );
+    expect(calls).toHaveLength(1);
+  });
+
+  it('should not retry errors thrown by the LLM client itself', async () => {
+    let callCount = 0;
+    const client: LlmClient = {
+      complete: async () => {
+        callCount++;
+        throw new Error('Provider unavailable');
+      },
+    };
+
+    await expect(
+      runLlmStep(form, session, 'Hi', client, { repair: { maxAttempts: 3 } })
+    ).rejects.toThrow('Provider unavailable');
+    expect(callCount).toBe(1);
+  });
+
+  it('should reject a non-positive maxAttempts', async () => {
+    const { client, calls } = scriptedClient([validResponse]);
+
+    await expect(
+      runLlmStep(form, session, 'Hi', client, { repair: { maxAttempts: 0 } })
+    ).rejects.toThrow('Repair policy maxAttempts must be a positive integer');
+    expect(calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import { parseExtractedFields } from '../../src/orchestrator/response-parser';
+import { runLlmStep } from '../../src/orchestrator';
+import type { FormDefinition, LlmClient, Session } from '../../src/types';
+import { ClientError, FieldType, SessionStatus } from '../../src/types';
+
+const form: FormDefinition = {
+  id: 'form1',
+  name: 'Contact',
+  fields: [
+    {
+      id: 'name',
+      name: 'name',
+      label: 'Name',
+      type: FieldType.TEXT,
+      required: true,
+      order: 0,
+    },
+    {
+      id: 'phone',
+      name: 'phone',
+      label: 'Phone',
+      type: FieldType.PHONE,
+      required: false,
+      order: 1,
+    },
+  ],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+function errorCodeOf(fn: () => unknown): string | undefined {
+  try {
+    fn();
+  } catch (error: unknown) {
+    return error instanceof ClientError ? error.errorCode : 'not a ClientError';
+  }
+  return undefined;
+}
+
+describe('parseExtractedFields - strict', () => {
+  it('should reject JSON wrapped in markdown fences', () => {
+    const content = '```json\n{"botResponse": "Hi", "extractedFields": {}}\n```';
+
+    expect(errorCodeOf(() => parseExtractedFields(content, form))).toBe(
+      'INVALID_LLM_RESPONSE'
+    );
+  });
+
+  it('should check the types of botResponse and extractedFields', () => {
+    const content = JSON.stringify({ botResponse: 42, extractedFields: [] });
+
+    expect(() => parseExtractedFields(content, form)).toThrow(
+      'LLM response botResponse must be a string and extractedFields an object'
+    );
+  });
+
+  it('should reject values of unsupported types', () => {
+    const content = JSON.stringify({
+      botResponse: 'Hi',
+      extractedFields: { name: { first: 'John' } },
+    });
+
+    expect(() => parseExtractedFields(content, form)).toThrow(
+      'LLM returned an unsupported value type'
+    );
+  });
+
+  it('should report no diagnostics for a clean response', () => {
+    const content = JSON.stringify({
+      botResponse: 'Hi',
+      extractedFields: { name: 'John' },
+    });
+
+    expect(parseExtractedFields(content, form).diagnostics).toEqual([]);
+  });
+});
+
+describe('parseExtractedFields - lenient', () => {
+  it('should extract the JSON object from fences and prose', () => {
+    const content =
+      'Sure! Here you go:\n```json\n{"botResponse": "Hi {there}", "extractedFields": {"name": "John"}}\n```';
+
+    const parsed = parseExtractedFields(content, form, 'lenient');
+
+    expect(parsed.botResponse).toBe('Hi {there}');
+    expect(parsed.extractedFields).toEqual({ name: 'John' });
+    expect(parsed.diagnostics.map((d) => d.code)).toEqual(['EXTRACTED_JSON']);
+  });
+
+  it('should repair trailing commas and unclosed brackets', () => {
+    const content =
+      '{"botResponse": "Hi", "extractedFields": {"name": "John",}, "declinedFields": ["phone",]';
+
+    const parsed = parseExtractedFields(content, form, 'lenient');
+
+    expect(parsed.extractedFields).toEqual({ name: 'John' });
+    expect(parsed.declinedFields).toEqual(['phone']);
+    expect(parsed.diagnostics).toEqual([
+      {
+        code: 'REPAIRED_SYNTAX',
+        message:
+          'Repaired JSON syntax: removed trailing comma, closed unterminated brackets',
+      },
+    ]);
+  });
+
+  it('should drop unknown fields and unusable values with a warning', () => {
+    const content = JSON.stringify({
+      botResponse: 'Hi',
+      extractedFields: { name: 'John', nickname: 'Johnny', phone: [1, 2] },
+      declinedFields: ['shoeSize'],
+    });
+
+    const parsed = parseExtractedFields(content, form, 'lenient');
+
+    expect(parsed.extractedFields).toEqual({ name: 'John' });
+    expect(parsed.declinedFields).toEqual([]);
+    expect(
+      parsed.diagnostics.map((d) => [d.code, d.fieldName])
+    ).toEqual([
+      ['DROPPED_UNKNOWN_FIELD', 'nickname'],
+      ['DROPPED_INVALID_VALUE', 'phone'],
+      ['DROPPED_UNKNOWN_FIELD', 'shoeSize'],
+    ]);
+  });
+
+  it('should still fail when no JSON object can be recovered', () => {
+    expect(
+      errorCodeOf(() => parseExtractedFields('I could not help', form, 'lenient'))
+    ).toBe('INVALID_LLM_RESPONSE');
+    expect(
+      errorCodeOf(() =>
+        parseExtractedFields('{"botResponse": }', form, 'lenient')
+      )
+    ).toBe('INVALID_LLM_RESPONSE');
+  });
+});
+
+describe('runLlmStep - lenient parsing', () => {
+  it('should report parse diagnostics in the result', async () => {
+    const session: Session = {
+      id: 'session1',
+      formId: 'form1',
+      status: SessionStatus.ACTIVE,
+      turns: [],
+      fields: [],
+      startedAt: new Date(),
+    };
+    const llmClient: LlmClient = {
+      complete: async () => ({
+        content:
+          '```json\n{"botResponse": "Hi John", "extractedFields": {"name": "John", "age": 40}}\n```',
+      }),
+    };
+
+    const result = await runLlmStep(form, session, 'I am John', llmClient, {
+      parsing: 'lenient',
+    });
+
+    expect(result.extractedFields).toEqual({ name: 'John' });
+    expect(result.diagnostics.map((d) => d.code)).toEqual([
+      'EXTRACTED_JSON',
+      'DROPPED_UNKNOWN_FIELD',
+    ]);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import { buildResponseSchema, runLlmStep } from '../../src/orchestrator';
+import { createFieldTypeRegistry } from '../../src/field-types';
+import type {
+  FormDefinition,
+  LlmCallOptions,
+  LlmClient,
+  Session,
+} from '../../src/types';
+import { FieldType, SessionStatus } from '../../src/types';
+
+const form: FormDefinition = {
+  id: 'form1',
+  name: 'Signup',
+  fields: [
+    {
+      id: 'name',
+      name: 'name',
+      label: 'Name',
+      type: FieldType.TEXT,
+      required: true,
+      validation: { min: 2, max: 50 },
+      order: 0,
+    },
+    {
+      id: 'age',
+      name: 'age',
+      label: 'Age',
+      type: FieldType.NUMBER,
+      required: true,
+      validation: { min: 18, max: 120 },
+      order: 1,
+    },
+    {
+      id: 'plan',
+      name: 'plan',
+      label: 'Plan',
+      type: FieldType.ENUM,
+      required: false,
+      description: 'Subscription tier',
+      validation: { options: ['Free', 'Pro'] },
+      order: 2,
+    },
+  ],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const session: Session = {
+  id: 'session1',
+  formId: 'form1',
+  status: SessionStatus.ACTIVE,
+  turns: [],
+  fields: [],
+  startedAt: new Date(),
+};
+
+const content = JSON.stringify({
+  botResponse: 'Thanks!',
+  extractedFields: { name: 'John' },
+});
+
+describe('buildResponseSchema', () => {
+  it('should describe the envelope with per-field constraints', () => {
+    const schema = buildResponseSchema(form);
+
+    expect(schema.required).toEqual(['botResponse', 'extractedFields']);
+    expect(schema.additionalProperties).toBe(false);
+    expect(schema.properties?.extractedFields?.additionalProperties).toBe(
+      false
+    );
+    expect(schema.properties?.extractedFields?.properties).toEqual({
+      name: { type: 'string', minLength: 2, maxLength: 50, description: 'Name' },
+      age: {
+        type: 'number',
+        minimum: 18,
+        maximum: 120,
+        description: 'Age - number',
+      },
+      plan: {
+        type: 'string',
+        enum: ['Free', 'Pro'],
+        description: 'Plan - Subscription tier - one of: Free, Pro',
+      },
+    });
+  });
+
+  it('should only allow optional fields to be declined', () => {
+    const schema = buildResponseSchema(form);
+
+    expect(schema.properties?.declinedFields?.items).toEqual({
+      type: 'string',
+      enum: ['plan'],
+    });
+  });
+
+  it('should omit declinedFields when every field is required', () => {
+    const requiredOnly = { ...form, fields: form.fields.slice(0, 2) };
+
+    expect(buildResponseSchema(requiredOnly).properties).not.toHaveProperty(
+      'declinedFields'
+    );
+  });
+
+  it('should use custom plugin schemas, defaulting to string', () => {
+    const fieldTypes = createFieldTypeRegistry([
+      {
+        type: 'RATING',
+        validate: () => ({ valid: true }),
+        jsonSchema: () => ({ type: 'integer', minimum: 1, maximum: 5 }),
+      },
+      { type: 'NOTE', validate: () => ({ valid: true }) },
+    ]);
+    const custom: FormDefinition = {
+      ...form,
+      fields: [
+        { ...form.fields[0]!, name: 'rating', type: 'RATING', validation: {} },
+        { ...form.fields[0]!, name: 'note', type: 'NOTE', validation: {} },
+      ],
+    };
+
+    const fields = buildResponseSchema(custom, { fieldTypes }).properties
+      ?.extractedFields?.properties;
+
+    expect(fields?.rating).toEqual({
+      type: 'integer',
+      minimum: 1,
+      maximum: 5,
+      description: 'Name',
+    });
+    expect(fields?.note).toEqual({ type: 'string', description: 'Name' });
+  });
+});
+
+describe('runLlmStep - structured output', () => {
+  it('should pass the schema to clients that support it', async () => {
+    const calls: (LlmCallOptions | undefined)[] = [];
+    const llmClient: LlmClient = {
+      supportsResponseSchema: true,
+      complete: async (_messages, options) => {
+        calls.push(options);
+        return { content };
+      },
+    };
+
+    await runLlmStep(form, session, 'I am John', llmClient);
+
+    expect(calls).toEqual([{ responseSchema: buildResponseSchema(form) }]);
+  });
+
+  it('should fall back to prose mode for other clients', async () => {
+    const calls: (LlmCallOptions | undefined)[] = [];
+    const llmClient: LlmClient = {
+      complete: async (_messages, options) => {
+        calls.push(options);
+        return { content };
+      },
+    };
+
+    const result = await runLlmStep(form, session, 'I am John', llmClient);
+
+    expect(calls).toEqual([undefined]);
+    expect(result.extractedFields).toEqual({ name: 'John' });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { runLlmStep, runLlmStepStream } from '../../src/orchestrator';
+import type {
+  FormDefinition,
+  LlmClient,
+  LlmStepStreamEvent,
+  Session,
+} from '../../src/types';
+import { FieldType, SessionStatus } from '../../src/types';
+
+const form: FormDefinition = {
+  id: 'form1',
+  name: 'Contact',
+  fields: [
+    {
+      id: 'name',
+      name: 'name',
+      label: 'Name',
+      type: FieldType.TEXT,
+      required: true,
+      order: 0,
+    },
+    {
+      id: 'email',
+      name: 'email',
+      label: 'Email',
+      type: FieldType.EMAIL,
+      required: true,
+      order: 1,
+    },
+  ],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const session: Session = {
+  id: 'session1',
+  formId: 'form1',
+  status: SessionStatus.ACTIVE,
+  turns: [],
+  fields: [],
+  startedAt: new Date(),
+};
+
+const content = JSON.stringify({
+  botResponse: "Nice to meet you, John! What's your email?",
+  extractedFields: { name: 'John', email: 'not-an-email' },
+});
+
+function splitEvery(text: string, size: number): string[] {
+  const parts: string[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    parts.push(text.slice(i, i + size));
+  }
+  return parts;
+}
+
+function streamingClient(responses: string[]): LlmClient {
+  let call = 0;
+  return {
+    complete: async () => ({ content: responses[call++] ?? '' }),
+    async *stream() {
+      for (const part of splitEvery(responses[call++] ?? '', 7)) {
+        yield { content: part };
+      }
+    },
+  };
+}
+
+async function collect(
+  events: AsyncIterable<LlmStepStreamEvent>
+): Promise<LlmStepStreamEvent[]> {
+  const collected: LlmStepStreamEvent[] = [];
+  for await (const event of events) {
+    collected.push(event);
+  }
+  return collected;
+}
+
+describe('runLlmStepStream', () => {
+  it('should yield bot response deltas before the result', async () => {
+    const events = await collect(
+      runLlmStepStream(form, session, 'I am John', streamingClient([content]))
+    );
+
+    const deltas = events.filter((e) => e.op === 'delta');
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.map((e) => e.text).join('')).toBe(
+      "Nice to meet you, John! What's your email?"
+    );
+    expect(events.at(-1)?.op).toBe('result');
+  });
+
+  it('should finish with the same result as runLlmStep', async () => {
+    const events = await collect(
+      runLlmStepStream(form, session, 'I am John', streamingClient([content]))
+    );
+    const expected = await runLlmStep(
+      form,
+      session,
+      'I am John',
+      streamingClient([content])
+    );
+
+    const last = events.at(-1);
+    expect(last?.op === 'result' && last.result).toEqual(expected);
+    expect(expected.rejectedFields).toHaveLength(1);
+  });
+
+  it('should fall back to complete() for clients without stream()', async () => {
+    const llmClient: LlmClient = { complete: async () => ({ content }) };
+
+    const events = await collect(
+      runLlmStepStream(form, session, 'I am John', llmClient)
+    );
+
+    expect(events.map((e) => e.op)).toEqual(['delta', 'result']);
+  });
+
+  it('should signal a retry when a repair attempt starts', async () => {
+    const broken = '{"botResponse": "Oops", "extractedFields": ';
+    const events = await collect(
+      runLlmStepStream(
+        form,
+        session,
+        'I am John',
+        streamingClient([broken, content]),
+        { repair: { maxAttempts: 2 } }
+      )
+    );
+
+    expect(events.map((e) => e.op)).toContain('retry');
+    const last = events.at(-1);
+    expect(last?.op === 'result' && last.result.attempts).toBe(2);
+  });
+
+  it('should throw after streaming when the envelope is invalid', async () => {
+    const broken = '{"botResponse": "Oops", "extractedFields": ';
+    const events: LlmStepStreamEvent[] = [];
+
+    await expect(async () => {
+      for await (const event of runLlmStepStream(
+        form,
+        session,
+        'I am John',
+        streamingClient([broken])
+      )) {
+        events.push(event);
+      }
+    }).rejects.toThrow('LLM returned invalid JSON');
+    expect(events.map((e) => e.op)).toEqual(['delta']);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { runLlmStep, runLlmStepStream } from '../../src/orchestrator';
+import type { FormDefinition, LlmClient, Session } from '../../src/types';
+import { FieldType, SessionStatus } from '../../src/types';
+
+const form: FormDefinition = {
+  id: 'form1',
+  name: 'Contact',
+  fields: [
+    {
+      id: 'name',
+      name: 'name',
+      label: 'Name',
+      type: FieldType.TEXT,
+      required: true,
+      order: 0,
+    },
+  ],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const session: Session = {
+  id: 'session1',
+  formId: 'form1',
+  status: SessionStatus.ACTIVE,
+  turns: [],
+  fields: [],
+  startedAt: new Date(),
+};
+
+const content = JSON.stringify({
+  botResponse: 'Thanks!',
+  extractedFields: { name: 'John' },
+});
+const usage = { promptTokens: 100, completionTokens: 20, totalTokens: 120 };
+
+describe('runLlmStep - usage', () => {
+  it('should report the usage of every call, including retries', async () => {
+    const responses = ['not json', content];
+    let call = 0;
+    const llmClient: LlmClient = {
+      complete: async () => ({
+        content: responses[call++] ?? '',
+        usage,
+        model: 'mini',
+      }),
+    };
+
+    const result = await runLlmStep(form, session, 'I am John', llmClient, {
+      repair: { maxAttempts: 2 },
+    });
+
+    expect(result.usage).toEqual([
+      { ...usage, model: 'mini' },
+      { ...usage, model: 'mini' },
+    ]);
+  });
+
+  it('should report no usage when the provider omits it', async () => {
+    const llmClient: LlmClient = { complete: async () => ({ content }) };
+
+    const result = await runLlmStep(form, session, 'I am John', llmClient);
+
+    expect(result.usage).toEqual([]);
+  });
+
+  it('should read usage from the final stream chunk', async () => {
+    const llmClient: LlmClient = {
+      complete: async () => ({ content }),
+      async *stream() {
+        yield { content: content.slice(0, 10) };
+        yield { content: content.slice(10), usage, model: 'mini' };
+      },
+    };
+
+    let reported: unknown;
+    for await (const event of runLlmStepStream(form, session, 'Hi', llmClient)) {
+      if (event.op === 'result') {
+        reported = event.result.usage;
+      }
+    }
+
+    expect(reported).toEqual([{ ...usage, model: 'mini' }]);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EMAIL_DETECTOR,
+  PHONE_DETECTOR,
+  redactMessages,
+  restoreResponse,
+  restoreText,
+  splitPlaceholderTail,
+} from '../../src/redaction';
+import type { LlmMessage, PiiDetector } from '../../src/types';
+
+const messages: LlmMessage[] = [
+  { role: 'system', content: 'Collected so far: Email: john@example.com' },
+  { role: 'user', content: 'My email is john@example.com' },
+  { role: 'assistant', content: 'Thanks! Your phone number?' },
+  { role: 'user', content: 'Call me on 555-123-4567 or mail jo@test.org' },
+];
+
+describe('built-in detectors', () => {
+  it('should find valid email addresses only', () => {
+    const text = 'a@b.com, not@valid and x.y@mail.co.uk';
+
+    expect(EMAIL_DETECTOR.find(text)).toEqual(['a@b.com', 'x.y@mail.co.uk']);
+  });
+
+  it('should find phone numbers without surrounding spaces', () => {
+    expect(PHONE_DETECTOR.find('Call (555) 123-4567 today')).toEqual([
+      '(555) 123-4567',
+    ]);
+    expect(PHONE_DETECTOR.find('I am 42 years old')).toEqual([]);
+  });
+});
+
+describe('redactMessages', () => {
+  it('should leave messages unchanged without a policy', () => {
+    const result = redactMessages(messages);
+
+    expect(result.messages).toBe(messages);
+    expect(result.placeholders.size).toBe(0);
+  });
+
+  it('should replace each value with a stable placeholder', () => {
+    const { messages: redacted, placeholders } = redactMessages(messages, {});
+    const text = redacted.map((m) => m.content).join('\n');
+
+    expect(text).not.toContain('john@example.com');
+    expect(text).not.toContain('555-123-4567');
+    expect(redacted[0]?.content).toContain('Email: [EMAIL_1]');
+    expect(redacted[1]?.content).toBe('My email is [EMAIL_1]');
+    expect(redacted[3]?.content).toBe('Call me on [PHONE_1] or mail [EMAIL_2]');
+    expect(Object.fromEntries(placeholders)).toEqual({
+      '[EMAIL_1]': 'john@example.com',
+      '[EMAIL_2]': 'jo@test.org',
+      '[PHONE_1]': '555-123-4567',
+    });
+  });
+
+  it('should tell the LLM to copy placeholders verbatim', () => {
+    const { messages: redacted } = redactMessages(messages, {});
+
+    expect(redacted[0]?.content).toContain('copy it verbatim');
+  });
+
+  it('should not add the instruction when nothing was redacted', () => {
+    const plain: LlmMessage[] = [
+      { role: 'system', content: 'Prompt' },
+      { role: 'user', content: 'My name is John' },
+    ];
+
+    expect(redactMessages(plain, {}).messages).toEqual(plain);
+  });
+
+  it('should apply custom detectors', () => {
+    const ssn: PiiDetector = {
+      kind: 'SSN',
+      find: (text) => text.match(/\b\d{3}-\d{2}-\d{4}\b/g) ?? [],
+    };
+    const { messages: redacted } = redactMessages(
+      [{ role: 'user', content: 'SSN 123-45-6789, mail a@b.com' }],
+      { detectors: [ssn] }
+    );
+
+    expect(redacted[0]?.content).toBe('SSN [SSN_1], mail a@b.com');
+  });
+});
+
+describe('restoring', () => {
+  const placeholders = new Map([
+    ['[EMAIL_1]', 'john@example.com'],
+    ['[PHONE_1]', '555-123-4567'],
+  ]);
+
+  it('should restore known placeholders and keep unknown ones', () => {
+    expect(restoreText('Mail [EMAIL_1], not [EMAIL_9]', placeholders)).toBe(
+      'Mail john@example.com, not [EMAIL_9]'
+    );
+  });
+
+  it('should restore botResponse and string field values', () => {
+    const restored = restoreResponse(
+      {
+        botResponse: 'Got [PHONE_1]',
+        extractedFields: { email: '[EMAIL_1]', age: 30 },
+      },
+      placeholders
+    );
+
+    expect(restored).toEqual({
+      botResponse: 'Got 555-123-4567',
+      extractedFields: { email: 'john@example.com', age: 30 },
+    });
+  });
+
+  it('should hold back a possibly unfinished placeholder', () => {
+    expect(splitPlaceholderTail('Your email [EMA')).toEqual({
+      ready: 'Your email ',
+      pending: '[EMA',
+    });
+    expect(splitPlaceholderTail('Your email [EMAIL_1] ok')).toEqual({
+      ready: 'Your email [EMAIL_1] ok',
+      pending: '',
+    });
+  });
+});
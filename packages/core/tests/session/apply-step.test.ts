@@ -0,0 +1,319 @@
+import { describe, it, expect } from 'vitest';
+import { applyStep } from '../../src/session';
+import type {
+  FormDefinition,
+  OrchestratorResult,
+  Session,
+} from '../../src/types';
+import {
+  ClientError,
+  FieldType,
+  SessionStatus,
+  TurnRole,
+} from '../../src/types';
+
+const form: FormDefinition = {
+  id: 'form1',
+  name: 'Contact Form',
+  fields: [
+    {
+      id: 'field_name',
+      name: 'name',
+      label: 'Full Name',
+      type: FieldType.TEXT,
+      required: true,
+      order: 0,
+    },
+    {
+      id: 'field_email',
+      name: 'email',
+      label: 'Email',
+      type: FieldType.EMAIL,
+      required: true,
+      order: 1,
+    },
+  ],
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  updatedAt: new Date('2025-01-01T00:00:00Z'),
+};
+
+const startedAt = new Date('2025-01-01T10:00:00Z');
+const now = new Date('2025-01-01T10:05:00Z');
+const clock = (): Date => now;
+
+const session: Session = {
+  id: 'session1',
+  formId: 'form1',
+  status: SessionStatus.ACTIVE,
+  turns: [],
+  fields: [],
+  startedAt,
+};
+
+function makeResult(overrides: Partial<OrchestratorResult>): OrchestratorResult {
+  return {
+    botResponse: 'Thanks!',
+    extractedFields: {},
+    rawFields: {},
+    rejectedFields: [],
+    correctedFields: [],
+    ungroundedFields: [],
+    suspectedInjection: [],
+    declinedFields: [],
+    ruleViolations: [],
+    diagnostics: [],
+    usage: [],
+    isComplete: false,
+    attempts: 1,
+    ...overrides,
+  };
+}
+
+describe('applyStep', () => {
+  it('should append user and assistant turns with clock timestamps', () => {
+    const result = makeResult({ botResponse: 'Hi John! Your email?' });
+
+    const next = applyStep(form, session, 'I am John', result, clock);
+
+    expect(next.turns).toEqual([
+      { role: TurnRole.USER, content: 'I am John', timestamp: now },
+      {
+        role: TurnRole.ASSISTANT,
+        content: 'Hi John! Your email?',
+        timestamp: now,
+      },
+    ]);
+  });
+
+  it('should map extracted field names to field ids', () => {
+    const result = makeResult({ extractedFields: { name: 'John Doe' } });
+
+    const next = applyStep(form, session, 'I am John Doe', result, clock);
+
+    expect(next.fields).toEqual([
+      {
+        fieldId: 'field_name',
+        value: 'John Doe',
+        collectedAt: now,
+        turnIndex: 0,
+      },
+    ]);
+    expect(next.status).toBe(SessionStatus.ACTIVE);
+    expect(next.completedAt).toBeUndefined();
+  });
+
+  it('should overwrite an existing value in place', () => {
+    const withFields: Session = {
+      ...session,
+      fields: [
+        { fieldId: 'field_name', value: 'Jon', collectedAt: startedAt },
+        { fieldId: 'field_email', value: 'jon@x.com', collectedAt: startedAt },
+      ],
+    };
+    const result = makeResult({ extractedFields: { name: 'John' } });
+
+    const next = applyStep(form, withFields, 'Actually John', result, clock);
+
+    expect(next.fields).toEqual([
+      {
+        fieldId: 'field_name',
+        value: 'John',
+        collectedAt: now,
+        turnIndex: 0,
+        revisions: [
+          {
+            value: 'Jon',
+            collectedAt: startedAt,
+            replacedAt: now,
+            replacedAtTurn: 0,
+          },
+        ],
+      },
+      { fieldId: 'field_email', value: 'jon@x.com', collectedAt: startedAt },
+    ]);
+  });
+
+  it('should accumulate revisions across several corrections', () => {
+    const first = applyStep(
+      form,
+      session,
+      'I am Jon',
+      makeResult({ extractedFields: { name: 'Jon' } }),
+      () => startedAt
+    );
+    const second = applyStep(
+      form,
+      first,
+      'Actually John',
+      makeResult({ extractedFields: { name: 'John' } }),
+      clock
+    );
+    const later = new Date('2025-01-01T10:10:00Z');
+    const third = applyStep(
+      form,
+      second,
+      'Sorry, Johnny',
+      makeResult({ extractedFields: { name: 'Johnny' } }),
+      () => later
+    );
+
+    const nameField = third.fields[0]!;
+    expect(nameField.value).toBe('Johnny');
+    expect(nameField.turnIndex).toBe(4);
+    expect(nameField.revisions).toEqual([
+      {
+        value: 'Jon',
+        collectedAt: startedAt,
+        replacedAt: now,
+        replacedAtTurn: 2,
+      },
+      {
+        value: 'John',
+        collectedAt: now,
+        replacedAt: later,
+        replacedAtTurn: 4,
+      },
+    ]);
+  });
+
+  it('should not record a revision when the same value is extracted again', () => {
+    const withName: Session = {
+      ...session,
+      fields: [
+        { fieldId: 'field_name', value: 'John', collectedAt: startedAt },
+      ],
+    };
+    const result = makeResult({ extractedFields: { name: 'John' } });
+
+    const next = applyStep(form, withName, 'Yes, John', result, clock);
+
+    expect(next.fields).toEqual(withName.fields);
+  });
+
+  it('should collapse duplicate session fields to the latest entry', () => {
+    const withDuplicates: Session = {
+      ...session,
+      fields: [
+        { fieldId: 'field_name', value: 'First', collectedAt: startedAt },
+        { fieldId: 'field_name', value: 'Second', collectedAt: startedAt },
+      ],
+    };
+
+    const next = applyStep(form, withDuplicates, 'ok', makeResult({}), clock);
+
+    expect(next.fields).toEqual([
+      { fieldId: 'field_name', value: 'Second', collectedAt: startedAt },
+    ]);
+  });
+
+  it('should record declined fields with a null value', () => {
+    const withEmail: Session = {
+      ...session,
+      fields: [
+        { fieldId: 'field_email', value: 'john@x.com', collectedAt: startedAt },
+      ],
+    };
+    const result = makeResult({ declinedFields: ['email'] });
+
+    const next = applyStep(form, withEmail, 'Rather not say', result, clock);
+
+    expect(next.fields).toEqual([
+      {
+        fieldId: 'field_email',
+        value: null,
+        collectedAt: now,
+        turnIndex: 0,
+        declined: true,
+        revisions: [
+          {
+            value: 'john@x.com',
+            collectedAt: startedAt,
+            replacedAt: now,
+            replacedAtTurn: 0,
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should clear the declined flag when a value is given later', () => {
+    const declined: Session = {
+      ...session,
+      fields: [
+        {
+          fieldId: 'field_email',
+          value: null,
+          collectedAt: startedAt,
+          declined: true,
+        },
+      ],
+    };
+    const result = makeResult({ extractedFields: { email: 'john@x.com' } });
+
+    const next = applyStep(form, declined, 'john@x.com', result, clock);
+
+    expect(next.fields[0]?.declined).toBeUndefined();
+    expect(next.fields[0]?.value).toBe('john@x.com');
+  });
+
+  it('should mark the session completed when the result is complete', () => {
+    const result = makeResult({
+      extractedFields: { name: 'John', email: 'john@example.com' },
+      isComplete: true,
+    });
+
+    const next = applyStep(form, session, 'John, john@example.com', result, clock);
+
+    expect(next.status).toBe(SessionStatus.COMPLETED);
+    expect(next.completedAt).toBe(now);
+  });
+
+  it('should not mutate the input session', () => {
+    const result = makeResult({
+      extractedFields: { name: 'John' },
+      isComplete: true,
+    });
+
+    applyStep(form, session, 'John', result, clock);
+
+    expect(session.turns).toHaveLength(0);
+    expect(session.fields).toHaveLength(0);
+    expect(session.status).toBe(SessionStatus.ACTIVE);
+  });
+
+  it('should accumulate token usage across steps', () => {
+    const usage = {
+      model: 'mini',
+      promptTokens: 100,
+      completionTokens: 10,
+      totalTokens: 110,
+    };
+    const first = applyStep(
+      form,
+      session,
+      'Hi',
+      makeResult({ usage: [usage, usage] }),
+      clock
+    );
+
+    const second = applyStep(
+      form,
+      first,
+      'Hi',
+      makeResult({ usage: [usage] }),
+      clock
+    );
+
+    expect(second.usage?.calls).toBe(3);
+    expect(second.usage?.totalTokens).toBe(330);
+    expect(second.usage?.byModel.mini?.promptTokens).toBe(300);
+  });
+
+  it('should throw ClientError for a field not in the form', () => {
+    const result = makeResult({ extractedFields: { nickname: 'JD' } });
+
+    expect(() => applyStep(form, session, 'JD', result, clock)).toThrow(
+      ClientError
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { buildSubmission } from '../../src/session';
+import type { FormDefinition, Session } from '../../src/types';
+import { FieldType, SessionStatus } from '../../src/types';
+
+const form: FormDefinition = {
+  id: 'form1',
+  name: 'Contact Form',
+  fields: [
+    {
+      id: 'field_name',
+      name: 'name',
+      label: 'Full Name',
+      type: FieldType.TEXT,
+      required: true,
+      order: 0,
+    },
+    {
+      id: 'field_phone',
+      name: 'phone',
+      label: 'Phone',
+      type: FieldType.PHONE,
+      required: false,
+      order: 1,
+    },
+    {
+      id: 'field_notes',
+      name: 'notes',
+      label: 'Notes',
+      type: FieldType.LONG_TEXT,
+      required: false,
+      order: 2,
+    },
+  ],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+describe('buildSubmission', () => {
+  it('should key values by field name and list declined fields separately', () => {
+    const collectedAt = new Date();
+    const session: Session = {
+      id: 'session1',
+      formId: 'form1',
+      status: SessionStatus.COMPLETED,
+      turns: [],
+      fields: [
+        { fieldId: 'field_name', value: 'John Doe', collectedAt },
+        { fieldId: 'field_phone', value: null, collectedAt, declined: true },
+        { fieldId: 'field_notes', value: null, collectedAt },
+      ],
+      startedAt: collectedAt,
+    };
+
+    expect(buildSubmission(form, session)).toEqual({
+      formId: 'form1',
+      sessionId: 'session1',
+      values: { name: 'John Doe', notes: null },
+      declined: ['phone'],
+    });
+  });
+
+  it('should ignore session fields that are not in the form', () => {
+    const session: Session = {
+      id: 'session1',
+      formId: 'form1',
+      status: SessionStatus.ACTIVE,
+      turns: [],
+      fields: [{ fieldId: 'removed', value: 'x', collectedAt: new Date() }],
+      startedAt: new Date(),
+    };
+
+    expect(buildSubmission(form, session)).toEqual({
+      formId: 'form1',
+      sessionId: 'session1',
+      values: {},
+      declined: [],
+    });
+  });
+});
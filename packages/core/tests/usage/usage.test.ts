@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  accumulateUsage,
+  calculateCost,
+  sumUsage,
+  toUsageRecord,
+  EMPTY_USAGE,
+} from '../../src/usage';
+import type { PriceTable, UsageRecord } from '../../src/types';
+
+const mini: UsageRecord = {
+  model: 'mini',
+  promptTokens: 1000,
+  completionTokens: 100,
+  totalTokens: 1100,
+};
+const large: UsageRecord = {
+  model: 'large',
+  promptTokens: 2000,
+  completionTokens: 500,
+  totalTokens: 2500,
+};
+const prices: PriceTable = {
+  mini: { promptPerMillion: 1, completionPerMillion: 4 },
+  large: { promptPerMillion: 10, completionPerMillion: 40 },
+};
+
+describe('toUsageRecord', () => {
+  it('should copy usage and model from a response', () => {
+    expect(
+      toUsageRecord({
+        usage: { promptTokens: 1, completionTokens: 2, totalTokens: 3 },
+        model: 'mini',
+      })
+    ).toEqual({ promptTokens: 1, completionTokens: 2, totalTokens: 3, model: 'mini' });
+  });
+
+  it('should return null when no usage was reported', () => {
+    expect(toUsageRecord({ model: 'mini' })).toBeNull();
+  });
+});
+
+describe('accumulateUsage', () => {
+  it('should add calls to the totals and per-model breakdown', () => {
+    const usage = accumulateUsage(accumulateUsage(undefined, [mini, large]), [
+      mini,
+    ]);
+
+    expect(usage).toEqual({
+      promptTokens: 4000,
+      completionTokens: 700,
+      totalTokens: 4700,
+      calls: 3,
+      byModel: {
+        mini: {
+          promptTokens: 2000,
+          completionTokens: 200,
+          totalTokens: 2200,
+          calls: 2,
+        },
+        large: {
+          promptTokens: 2000,
+          completionTokens: 500,
+          totalTokens: 2500,
+          calls: 1,
+        },
+      },
+    });
+  });
+
+  it('should file calls without a model under unknown', () => {
+    const anonymous: UsageRecord = {
+      promptTokens: 1,
+      completionTokens: 1,
+      totalTokens: 2,
+    };
+
+    expect(Object.keys(accumulateUsage(undefined, [anonymous]).byModel)).toEqual(
+      ['unknown']
+    );
+  });
+
+  it('should not mutate the previous usage', () => {
+    const before = accumulateUsage(undefined, [mini]);
+
+    accumulateUsage(before, [mini]);
+
+    expect(before.calls).toBe(1);
+    expect(EMPTY_USAGE.calls).toBe(0);
+  });
+});
+
+describe('sumUsage', () => {
+  it('should combine the usage of several sessions', () => {
+    const total = sumUsage([
+      accumulateUsage(undefined, [mini]),
+      undefined,
+      accumulateUsage(undefined, [mini, large]),
+    ]);
+
+    expect(total.calls).toBe(3);
+    expect(total.byModel.mini?.calls).toBe(2);
+    expect(total).toEqual(accumulateUsage(undefined, [mini, mini, large]));
+  });
+});
+
+describe('calculateCost', () => {
+  it('should price each model per million tokens', () => {
+    const cost = calculateCost(accumulateUsage(undefined, [mini, large]), prices);
+
+    expect(cost.byModel.mini).toBeCloseTo(0.0014);
+    expect(cost.byModel.large).toBeCloseTo(0.04);
+    expect(cost.total).toBeCloseTo(0.0414);
+    expect(cost.unpricedModels).toEqual([]);
+  });
+
+  it('should report models missing from the price table', () => {
+    const cost = calculateCost(
+      accumulateUsage(undefined, [mini, { ...large, model: 'new-model' }]),
+      prices
+    );
+
+    expect(cost.total).toBeCloseTo(0.0014);
+    expect(cost.unpricedModels).toEqual(['new-model']);
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compilePattern,
+  validateFieldDefinition,
+  validatePattern,
+} from '../../src/validation/rules';
+import { validateField } from '../../src/validation';
+import type { FormField } from '../../src/types';
+import { ClientError, FieldType } from '../../src/types';
+
+function field(overrides: Partial<FormField>): FormField {
+  return {
+    id: 'f',
+    name: 'f',
+    label: 'Field',
+    type: FieldType.TEXT,
+    required: true,
+    order: 0,
+    ...overrides,
+  };
+}
+
+describe('compilePattern', () => {
+  it('should compile a safe pattern', () => {
+    const result = compilePattern('^\\d{5}$');
+    expect(result.valid).toBe(true);
+  });
+
+  it('should refuse a syntactically invalid pattern', () => {
+    expect(compilePattern('([a-z')).toMatchObject({ valid: false });
+  });
+
+  it.each([
+    '(a+)+$',
+    '^(\\w*)*$',
+    '(x{1,})+',
+    '(a|b+)*c',
+    '^(a)\\1$',
+    '^((a+))+$',
+    '^((a+)b?)+$',
+    '^(a|aa)+$',
+  ])(
+    'should refuse %s as a catastrophic backtracking risk',
+    (pattern) => {
+      expect(compilePattern(pattern)).toEqual({
+        valid: false,
+        error: 'Pattern may cause catastrophic backtracking',
+      });
+    }
+  );
+
+  it.each([
+    '^\\d{5}$',
+    '^(foo|bar)+$',
+    '^[A-Z]{2}(-\\d{3}){2}$',
+    '^(\\d{3}-)+$',
+    '^(?:[a-z]|-)+$',
+  ])('should compile %s', (pattern) => {
+    expect(compilePattern(pattern).valid).toBe(true);
+  });
+
+  it('should refuse overly long patterns', () => {
+    expect(compilePattern('a'.repeat(501))).toEqual({
+      valid: false,
+      error: 'Pattern is longer than 500 characters',
+    });
+  });
+});
+
+describe('validatePattern', () => {
+  it('should accept a matching value', () => {
+    expect(validatePattern('12345', '^\\d{5}$')).toEqual({ valid: true });
+  });
+
+  it('should reject a non-matching value', () => {
+    expect(validatePattern('1234', '^\\d{5}$')).toEqual({
+      valid: false,
+      error: 'Value does not match the required format',
+    });
+  });
+
+  it('should refuse to test very long input', () => {
+    expect(validatePattern('1'.repeat(10_001), '^\\d+$')).toEqual({
+      valid: false,
+      error: 'Value is too long',
+    });
+  });
+});
+
+describe('validateFieldDefinition', () => {
+  it('should accept fields without rules', () => {
+    expect(validateFieldDefinition(field({}))).toEqual({ valid: true });
+  });
+
+  it('should reject rules the type does not support', () => {
+    expect(
+      validateFieldDefinition(
+        field({ type: FieldType.NUMBER, validation: { pattern: '^\\d+$' } })
+      )
+    ).toEqual({
+      valid: false,
+      error: "Validation rule 'pattern' is not supported for NUMBER fields",
+    });
+    expect(
+      validateFieldDefinition(field({ validation: { options: ['a'] } }))
+    ).toEqual({
+      valid: false,
+      error: "Validation rule 'options' is not supported for TEXT fields",
+    });
+  });
+
+  it('should reject min greater than max', () => {
+    expect(
+      validateFieldDefinition(field({ validation: { min: 10, max: 5 } }))
+    ).toEqual({ valid: false, error: 'Validation rule min must not exceed max' });
+  });
+
+  it('should allow a custom message on any type', () => {
+    expect(
+      validateFieldDefinition(
+        field({ type: FieldType.DATE, validation: { message: 'Bad date' } })
+      )
+    ).toEqual({ valid: true });
+  });
+});
+
+describe('validateField - ValidationRule enforcement', () => {
+  it('should enforce TEXT length limits', () => {
+    const bio = field({
+      type: FieldType.LONG_TEXT,
+      validation: { max: 10 },
+    });
+
+    expect(validateField(bio, 'short')).toEqual({ valid: true });
+    expect(validateField(bio, 'far too long for this')).toEqual({
+      valid: false,
+      error: 'Must be at most 10 characters',
+    });
+  });
+
+  it('should enforce pattern after the type check', () => {
+    const zip = field({ validation: { pattern: '^\\d{5}$' } });
+
+    expect(validateField(zip, '12345')).toEqual({ valid: true });
+    expect(validateField(zip, 'ABCDE')).toEqual({
+      valid: false,
+      error: 'Value does not match the required format',
+    });
+  });
+
+  it('should apply pattern to EMAIL fields', () => {
+    const workEmail = field({
+      type: FieldType.EMAIL,
+      validation: { pattern: '@acme\\.com$' },
+    });
+
+    expect(validateField(workEmail, 'jo@acme.com')).toEqual({ valid: true });
+    expect(validateField(workEmail, 'jo@gmail.com').valid).toBe(false);
+  });
+
+  it('should replace the error text with the custom message', () => {
+    const zip = field({
+      validation: { pattern: '^\\d{5}$', message: 'Please enter a 5-digit ZIP' },
+    });
+
+    expect(validateField(zip, 'nope')).toEqual({
+      valid: false,
+      error: 'Please enter a 5-digit ZIP',
+    });
+  });
+
+  it('should keep the required error when a custom message is set', () => {
+    const zip = field({ validation: { message: 'Please enter a ZIP' } });
+
+    expect(validateField(zip, null)).toEqual({
+      valid: false,
+      error: 'Field is required',
+    });
+  });
+
+  it('should throw ClientError for an unsafe pattern', () => {
+    const unsafe = field({ validation: { pattern: '(a+)+$' } });
+
+    expect(() => validateField(unsafe, 'aaaa')).toThrow(ClientError);
+    expect(() => validateField(unsafe, 'aaaa')).toThrow(
+      'Pattern may cause catastrophic backtracking'
+    );
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateFormRuleDefinitions,
+  validateFormRules,
+} from '../../src/validation';
+import type { FormDefinition, FormRule } from '../../src/types';
+import { FieldType } from '../../src/types';
+
+const FIELD_NAMES = [
+  'startDate',
+  'endDate',
+  'min',
+  'max',
+  'email',
+  'confirmEmail',
+  'phone',
+];
+
+function formWith(rules: FormRule[]): FormDefinition {
+  return {
+    id: 'form1',
+    name: 'Booking',
+    fields: FIELD_NAMES.map((name, order) => ({
+      id: name,
+      name,
+      label: name,
+      type: FieldType.TEXT,
+      required: false,
+      order,
+    })),
+    rules,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe('validateFormRules', () => {
+  it('should return no violations when the form has no rules', () => {
+    const form = { ...formWith([]), rules: undefined };
+    expect(validateFormRules(form, {}, true)).toEqual([]);
+  });
+
+  describe('after', () => {
+    const form = formWith([
+      { op: 'after', field: 'endDate', reference: 'startDate' },
+    ]);
+
+    it('should pass when the field is after the reference', () => {
+      expect(
+        validateFormRules(
+          form,
+          { startDate: '2025-03-01', endDate: '2025-03-05' },
+          false
+        )
+      ).toEqual([]);
+    });
+
+    it('should name both fields when the order is wrong', () => {
+      expect(
+        validateFormRules(
+          form,
+          {
+            startDate: new Date('2025-03-05'),
+            endDate: new Date('2025-03-01'),
+          },
+          false
+        )
+      ).toEqual([
+        {
+          fields: ['endDate', 'startDate'],
+          error: 'endDate must be after startDate',
+        },
+      ]);
+    });
+
+    it('should compare numbers', () => {
+      const numeric = formWith([
+        { op: 'after', field: 'max', reference: 'min' },
+      ]);
+      expect(validateFormRules(numeric, { min: 10, max: 5 }, false)).toHaveLength(1);
+    });
+
+    it('should wait until both fields are answered', () => {
+      expect(
+        validateFormRules(form, { endDate: '2025-03-01' }, true)
+      ).toEqual([]);
+    });
+  });
+
+  describe('equals', () => {
+    const form = formWith([
+      {
+        op: 'equals',
+        field: 'confirmEmail',
+        reference: 'email',
+        message: 'The two emails do not match',
+      },
+    ]);
+
+    it('should use the custom message on mismatch', () => {
+      expect(
+        validateFormRules(
+          form,
+          { email: 'a@example.com', confirmEmail: 'b@example.com' },
+          false
+        )
+      ).toEqual([
+        {
+          fields: ['confirmEmail', 'email'],
+          error: 'The two emails do not match',
+        },
+      ]);
+    });
+
+    it('should pass on a match', () => {
+      expect(
+        validateFormRules(
+          form,
+          { email: 'a@example.com', confirmEmail: 'a@example.com' },
+          false
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe('atLeastOne', () => {
+    const form = formWith([{ op: 'atLeastOne', fields: ['phone', 'email'] }]);
+
+    it('should only be judged once the form is otherwise final', () => {
+      expect(validateFormRules(form, {}, false)).toEqual([]);
+      expect(validateFormRules(form, {}, true)).toEqual([
+        {
+          fields: ['phone', 'email'],
+          error: 'At least one of phone, email is required',
+        },
+      ]);
+    });
+
+    it('should pass when one of the fields is answered', () => {
+      expect(
+        validateFormRules(form, { phone: null, email: 'a@example.com' }, true)
+      ).toEqual([]);
+    });
+  });
+
+  describe('rule definitions', () => {
+    it('should accept rules naming fields of the form', () => {
+      const form = formWith([
+        { op: 'after', field: 'endDate', reference: 'startDate' },
+        { op: 'atLeastOne', fields: ['phone', 'email'] },
+      ]);
+
+      expect(validateFormRuleDefinitions(form)).toEqual({ valid: true });
+    });
+
+    it('should reject rules naming unknown fields', () => {
+      expect(
+        validateFormRuleDefinitions(
+          formWith([{ op: 'equals', field: 'confirmEmal', reference: 'email' }])
+        )
+      ).toEqual({
+        valid: false,
+        error: "Form rule 'equals' refers to unknown field 'confirmEmal'",
+      });
+      expect(
+        validateFormRuleDefinitions(formWith([{ op: 'atLeastOne', fields: [] }]))
+      ).toEqual({
+        valid: false,
+        error: "Form rule 'atLeastOne' must name at least one field",
+      });
+    });
+
+    it('should throw when evaluating a rule with an unknown field', () => {
+      const form = formWith([{ op: 'atLeastOne', fields: ['fax', 'email'] }]);
+
+      expect(() => validateFormRules(form, {}, true)).toThrow(
+        "Form rule 'atLeastOne' refers to unknown field 'fax'"
+      );
+      try {
+        validateFormRules(form, {}, true);
+      } catch (error) {
+        expect(error).toMatchObject({
+          errorCode: 'INVALID_FORM_RULE',
+          statusCode: 400,
+        });
+      }
+    });
+  });
+});
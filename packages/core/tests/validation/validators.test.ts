@@ -4,7 +4,11 @@ import {
   validatePhone,
   validateNumber,
   validateDate,
+  validateDateTime,
+  validateTime,
   validateEnum,
+  validateMultiSelect,
+  validateText,
 } from '../../src/validation/validators';
 
 describe('validateEmail', () => {
@@ -231,3 +235,95 @@ describe('validateEnum', () => {
     expect(result).toEqual({ valid: true });
   });
 });
+
+describe('validateText', () => {
+  it('should return valid when no limits are set', () => {
+    expect(validateText('anything', {})).toEqual({ valid: true });
+  });
+
+  it('should return invalid for text shorter than min', () => {
+    expect(validateText('ab', { min: 3 })).toEqual({
+      valid: false,
+      error: 'Must be at least 3 characters',
+    });
+  });
+
+  it('should return invalid for text longer than max', () => {
+    expect(validateText('abcdef', { max: 5 })).toEqual({
+      valid: false,
+      error: 'Must be at most 5 characters',
+    });
+  });
+
+  it('should accept text at the exact boundaries', () => {
+    expect(validateText('abc', { min: 3, max: 3 })).toEqual({ valid: true });
+  });
+});
+
+describe('validateMultiSelect', () => {
+  const options = ['red', 'green', 'blue'];
+
+  it('should return valid for a selection of options', () => {
+    expect(validateMultiSelect(['red', 'blue'], options, {})).toEqual({
+      valid: true,
+    });
+  });
+
+  it('should return invalid for a value not in options', () => {
+    expect(validateMultiSelect(['red', 'pink'], options, {})).toEqual({
+      valid: false,
+      error: 'Values must be among: red, green, blue',
+    });
+  });
+
+  it('should return invalid for a repeated option', () => {
+    expect(validateMultiSelect(['red', 'red'], options, {})).toEqual({
+      valid: false,
+      error: 'Each option may be selected only once',
+    });
+  });
+
+  it('should enforce the selection counts', () => {
+    expect(validateMultiSelect(['red'], options, { min: 2 })).toEqual({
+      valid: false,
+      error: 'Select at least 2 options',
+    });
+    expect(validateMultiSelect(options, options, { max: 2 })).toEqual({
+      valid: false,
+      error: 'Select at most 2 options',
+    });
+  });
+});
+
+describe('validateTime', () => {
+  it('should accept 24-hour HH:MM times only', () => {
+    expect(validateTime('00:00')).toEqual({ valid: true });
+    expect(validateTime('23:59')).toEqual({ valid: true });
+    expect(validateTime('24:00')).toEqual({
+      valid: false,
+      error: 'Invalid time; use HH:MM',
+    });
+    expect(validateTime('3pm').valid).toBe(false);
+  });
+});
+
+describe('validateDateTime', () => {
+  it('should accept a date and time with its zone', () => {
+    expect(
+      validateDateTime('2024-03-05T15:30:00-05:00[America/New_York]')
+    ).toEqual({ valid: true });
+  });
+
+  it('should reject offsets the zone does not have at that time', () => {
+    expect(
+      validateDateTime('2024-07-05T15:30:00-05:00[America/New_York]')
+    ).toEqual({ valid: false, error: 'Invalid date and time' });
+  });
+
+  it('should reject values without a zone or with an unknown one', () => {
+    expect(validateDateTime('2024-03-05T15:30').valid).toBe(false);
+    expect(validateDateTime('2024-03-05T15:30:00+00:00[Mars/Base]').valid).toBe(
+      false
+    );
+  });
+});